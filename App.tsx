@@ -1,35 +1,61 @@
 import React, { useContext } from 'react';
-import { HashRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { HashRouter as Router, Routes, Route, Navigate, Outlet } from 'react-router-dom';
 import { AuthProvider, AuthContext } from './contexts/AuthContext';
 import { DataProvider } from './contexts/DataContext';
 import { NotificationProvider } from './contexts/NotificationContext';
+import { WalkSessionProvider } from './contexts/WalkSessionContext';
 
 import Layout from './components/layout/Layout';
 import Home from './pages/Home';
 import Login from './pages/Login';
+import ResetPassword from './pages/ResetPassword';
+import Onboarding from './pages/Onboarding';
+import SharedSOS from './pages/SharedSOS';
 import Pulse from './pages/Pulse';
 import Events from './pages/Events';
 import CreateEvent from './pages/CreateEvent';
 import EditEvent from './pages/EditEvent';
 import Account from './pages/Account';
 import Settings from './pages/Settings';
+import Moderation from './pages/Moderation';
 import Toast from './components/ui/Toast';
+import type { RolePermission } from './utils/roles';
 
 const PrivateRoutes: React.FC = () => {
   const auth = useContext(AuthContext);
   if (auth?.loading) {
     return <div className="h-screen w-screen flex items-center justify-center bg-brand-primary text-text-primary">Loading Session...</div>;
   }
+  // A reset link opened on the wrong route still has to end with choosing a new password.
+  if (auth?.isPasswordRecovery) {
+    return <Navigate to="/reset-password" replace />;
+  }
+  // New accounts pick a public username and set up the basics before anything else.
+  // Checked against null so a database without onboarding.sql doesn't trap everyone here.
+  if (auth?.session && auth.profile?.onboarded_at === null) {
+    return <Navigate to="/onboarding" replace />;
+  }
   // If authenticated, render the Layout which contains an <Outlet> for the nested page routes.
   // Otherwise, redirect to the login page.
   return auth?.session ? <Layout /> : <Navigate to="/login" replace />;
 };
 
+// Nested inside PrivateRoutes, so the session and profile have already loaded.
+// Users without the permission are sent back to the map; the database enforces the same rule.
+const RoleRoute: React.FC<{ permission: RolePermission }> = ({ permission }) => {
+  const auth = useContext(AuthContext);
+  return auth?.can(permission) ? <Outlet /> : <Navigate to="/" replace />;
+};
+
 const AppRoutes: React.FC = () => {
     return (
         <Router>
             <Routes>
                 <Route path="/login" element={<Login />} />
+                <Route path="/reset-password" element={<ResetPassword />} />
+                <Route path="/onboarding" element={<Onboarding />} />
+                {/* Trusted contacts open their alert link here, usually without an account. */}
+                <Route path="/sos/live/:token" element={<SharedSOS />} />
                 
                 <Route element={<PrivateRoutes />}>
                     <Route path="/" element={<Home />} />
@@ -39,6 +65,9 @@ const AppRoutes: React.FC = () => {
                     <Route path="/edit-event/:id" element={<EditEvent />} />
                     <Route path="/profile" element={<Account />} />
                     <Route path="/settings" element={<Settings />} /> 
+                    <Route element={<RoleRoute permission="moderate" />}>
+                        <Route path="/moderation" element={<Moderation />} />
+                    </Route>
                     <Route path="*" element={<Navigate to="/" replace />} />
                 </Route>
             </Routes>
@@ -51,8 +80,10 @@ const App: React.FC = () => {
     <AuthProvider>
       <NotificationProvider>
         <DataProvider>
+          <WalkSessionProvider>
             <Toast />
             <AppRoutes />
+          </WalkSessionProvider>
         </DataProvider>
       </NotificationProvider>
     </AuthProvider>
@@ -1,6 +1,9 @@
 import React from 'react';
 import { Vibe, SOS, Event, VibeType } from '../../types';
 import { timeAgo } from '../../utils/time';
+import { getSOSStatus, isSOSActive, SOS_STATUS_CONFIG } from '../../utils/sos';
+import { VIBE_TAG_LABELS } from '../../utils/vibeDetails';
+import { getVibePhotoUrls } from '../../services/vibePhotos';
 import { FireIcon, BellAlertIcon, GlobeAltIcon } from '../ui/Icons';
 
 export type ActivityItem =
@@ -13,35 +16,60 @@ export const VIBE_DISPLAY_NAMES: Record<string, string> = {
     [VibeType.LGBTQIAFriendly]: 'LGBTQIA+ Friendly', [VibeType.Suspicious]: 'Suspicious', [VibeType.Dangerous]: 'Dangerous',
 };
 
-export const ActivityCard: React.FC<{ item: ActivityItem }> = ({ item }) => {
+export const ActivityCard: React.FC<{ item: ActivityItem; onReport?: (item: ActivityItem) => void }> = ({ item, onReport }) => {
     let icon, title, details;
 
     switch (item.itemType) {
         case 'vibe':
             icon = <FireIcon className="w-6 h-6 text-orange-400" />;
             title = `New Vibe: ${VIBE_DISPLAY_NAMES[item.vibe_type] || 'Unknown'}`;
-            details = `Reported by ${item.profiles?.username || 'anonymous'}`;
+            details = item.is_anonymous ? 'Posted anonymously' : `Reported by ${item.profiles?.username || 'anonymous'}`;
             break;
         case 'sos':
-            icon = <BellAlertIcon className="w-6 h-6 text-red-400" />;
-            title = `SOS Alert`;
-            details = `${item.details ? `"${item.details}" - ` : ''}from ${item.profiles?.username || 'anonymous'}`;
+            icon = <BellAlertIcon className={`w-6 h-6 ${isSOSActive(item) ? 'text-red-400' : 'text-gray-500'}`} />;
+            title = `SOS Alert · ${SOS_STATUS_CONFIG[getSOSStatus(item)].label}`;
+            details = `${item.details ? `"${item.details}" - ` : ''}${item.is_anonymous ? 'sent anonymously' : `from ${item.profiles?.username || 'anonymous'}`}`;
+            if (item.responder_ids?.length) details += ` · ${item.responder_ids.length} responding`;
             break;
         case 'event':
             icon = <GlobeAltIcon className="w-6 h-6 text-blue-400" />;
             title = `New Event: ${item.title}`;
-            details = `Created by ${item.profiles?.username || 'anonymous'}`;
+            details = `Created by ${item.profiles?.username || 'anonymous'}${item.is_verified ? ' · Verified organisation' : ''}`;
             break;
     }
 
+    const photoUrls = item.itemType === 'vibe' ? getVibePhotoUrls(item) : [];
+
     return (
         <div className="bg-brand-secondary p-4 rounded-lg flex items-start space-x-4">
             <div className="flex-shrink-0">{icon}</div>
             <div className="flex-grow">
                 <p className="font-semibold text-white">{title}</p>
                 <p className="text-sm text-gray-400">{details}</p>
+                {item.itemType === 'vibe' && (
+                    <>
+                        {!!item.tags?.length && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                                {item.tags.map(tag => <span key={tag} className="text-xs bg-gray-700 text-gray-300 rounded-full px-2 py-0.5">{VIBE_TAG_LABELS[tag] || tag}</span>)}
+                            </div>
+                        )}
+                        {item.note && <p className="text-sm text-gray-300 italic mt-1">"{item.note}"</p>}
+                        {photoUrls.length > 0 && (
+                            <div className="flex gap-2 mt-2">
+                                {photoUrls.map(url => (
+                                    <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                                        <img src={url} alt="Report photo" loading="lazy" className="w-16 h-16 object-cover rounded-md" />
+                                    </a>
+                                ))}
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+            <div className="flex-shrink-0 text-xs text-gray-500 text-right">
+                <p>{timeAgo(item.created_at)}</p>
+                {onReport && <button onClick={() => onReport(item)} className="mt-1 text-gray-500 hover:text-brand-danger">Report</button>}
             </div>
-            <div className="flex-shrink-0 text-xs text-gray-500">{timeAgo(item.created_at)}</div>
         </div>
     );
 };
@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../services/supabaseClient';
+import type { TrustedContact, ContactChannel } from '../../types';
+import { TrashIcon, PlusCircleIcon } from '../ui/Icons';
+
+const CHANNEL_LABELS: Record<ContactChannel, string> = {
+    app: 'HyperAPP user',
+    email: 'Email',
+    sms: 'SMS',
+};
+
+const TARGET_PLACEHOLDERS: Record<ContactChannel, string> = {
+    app: 'Their HyperAPP username',
+    email: 'name@example.com',
+    sms: '+15551234567',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+[1-9]\d{6,14}$/; // E.164, as required by SMS providers.
+
+const TrustedContactsCard: React.FC<{ userId: string }> = ({ userId }) => {
+    const [contacts, setContacts] = useState<(TrustedContact & { username?: string })[]>([]);
+    const [isAdding, setIsAdding] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [name, setName] = useState('');
+    const [channel, setChannel] = useState<ContactChannel>('app');
+    const [target, setTarget] = useState('');
+
+    useEffect(() => {
+        const fetchContacts = async () => {
+            const { data, error } = await supabase
+                .from('trusted_contacts')
+                .select('*, contact:contact_user_id(username)')
+                .eq('user_id', userId)
+                .order('created_at');
+            if (error) { alert(error.message); return; }
+            setContacts((data || []).map(({ contact, ...rest }: any) => ({ ...rest, username: contact?.username })));
+        };
+        fetchContacts();
+    }, [userId]);
+
+    const resetForm = () => {
+        setIsAdding(false); setName(''); setChannel('app'); setTarget('');
+    };
+
+    const handleAddContact = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmedTarget = target.trim();
+        if (!name.trim() || !trimmedTarget) return alert("Please provide a name and how to reach them.");
+        if (channel === 'email' && !EMAIL_PATTERN.test(trimmedTarget)) return alert("Please enter a valid email address.");
+        if (channel === 'sms' && !PHONE_PATTERN.test(trimmedTarget)) return alert("Please enter the phone number in international format, e.g. +15551234567.");
+
+        setIsSaving(true);
+        let contactUserId: string | null = null;
+        if (channel === 'app') {
+            const { data: profile } = await supabase.from('profiles').select('id').eq('username', trimmedTarget).maybeSingle();
+            if (!profile) { setIsSaving(false); return alert(`No HyperAPP user named "${trimmedTarget}" was found.`); }
+            if (profile.id === userId) { setIsSaving(false); return alert("You can't add yourself as a trusted contact."); }
+            contactUserId = profile.id;
+        }
+
+        const { data, error } = await supabase.from('trusted_contacts').insert({
+            user_id: userId,
+            name: name.trim(),
+            channel,
+            contact_user_id: contactUserId,
+            address: channel === 'app' ? null : trimmedTarget,
+        }).select().single();
+        setIsSaving(false);
+        if (error) { alert(error.message); }
+        else if (data) {
+            setContacts(prev => [...prev, { ...data, username: channel === 'app' ? trimmedTarget : undefined }]);
+            resetForm();
+        }
+    };
+
+    const handleDeleteContact = async (contactId: number) => {
+        if (!window.confirm("Remove this trusted contact? They will no longer be notified when you send an SOS.")) return;
+        const { error } = await supabase.from('trusted_contacts').delete().eq('id', contactId);
+        if (error) { alert(error.message); } else { setContacts(prev => prev.filter(c => c.id !== contactId)); }
+    };
+
+    return (
+        <div className="bg-brand-secondary/40 backdrop-blur-sm border border-gray-700/50 rounded-lg p-4 space-y-4">
+            <div>
+                <h2 className="text-xl font-semibold">Trusted Contacts</h2>
+                <p className="text-xs text-text-secondary mt-1">These people are notified directly with your location whenever you send an SOS.</p>
+            </div>
+            <div className="space-y-2">
+                {contacts.map(contact => (
+                    <div key={contact.id} className="flex justify-between items-center bg-gray-700 p-3 rounded-md">
+                        <div>
+                            <p className="font-medium">{contact.name}</p>
+                            <p className="text-xs text-text-secondary">
+                                {CHANNEL_LABELS[contact.channel]} · {contact.channel === 'app' ? `@${contact.username || 'unknown'}` : contact.address}
+                            </p>
+                        </div>
+                        <button onClick={() => handleDeleteContact(contact.id)} className="text-text-secondary hover:text-brand-danger p-1"><TrashIcon className="w-5 h-5"/></button>
+                    </div>
+                ))}
+                {contacts.length === 0 && <p className="text-text-secondary text-sm text-center py-4">No trusted contacts yet.</p>}
+            </div>
+            {isAdding ? (
+                <form onSubmit={handleAddContact} className="pt-4 border-t border-gray-700 space-y-3">
+                    <input type="text" placeholder="Contact name" value={name} onChange={e => setName(e.target.value)} required className="block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm text-sm" />
+                    <div className="flex space-x-1 bg-brand-primary p-1 rounded-lg">
+                        {(Object.keys(CHANNEL_LABELS) as ContactChannel[]).map(key => (
+                            <button key={key} type="button" onClick={() => setChannel(key)} className={`flex-1 py-1 text-xs font-semibold rounded-md transition-colors ${channel === key ? 'bg-brand-accent text-brand-primary' : ''}`}>
+                                {CHANNEL_LABELS[key]}
+                            </button>
+                        ))}
+                    </div>
+                    <input
+                        type={channel === 'email' ? 'email' : channel === 'sms' ? 'tel' : 'text'}
+                        placeholder={TARGET_PLACEHOLDERS[channel]}
+                        value={target}
+                        onChange={e => setTarget(e.target.value)}
+                        required
+                        className="block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm text-sm"
+                    />
+                    <div className="flex space-x-2">
+                        <button type="submit" disabled={isSaving} className="flex-1 bg-brand-accent text-brand-primary text-sm font-semibold py-2 rounded-md disabled:opacity-50">{isSaving ? 'Saving...' : 'Save'}</button>
+                        <button type="button" onClick={resetForm} className="flex-1 bg-gray-600 text-sm rounded-md">Cancel</button>
+                    </div>
+                </form>
+            ) : (
+                <button onClick={() => setIsAdding(true)} className="w-full mt-2 flex items-center justify-center space-x-2 bg-gray-600 font-bold py-2 px-4 rounded-md hover:bg-gray-500">
+                    <PlusCircleIcon className="w-5 h-5" /><span>Add Trusted Contact</span>
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default TrustedContactsCard;
@@ -1,136 +1,113 @@
-import React, { useEffect, useContext, useState, useRef } from 'react';
-import { Outlet } from 'react-router-dom'; // Import Outlet
+import React, { useEffect, useContext, useState } from 'react';
+import { Outlet, useLocation, useNavigate } from 'react-router-dom'; // Import Outlet
 import BottomNavbar from './BottomNavbar';
 import ReportVibeModal from '../vibe/ReportVibeModal'; // Import the new modal
 import { supabase } from '../../services/supabaseClient';
 import { AuthContext } from '../../contexts/AuthContext';
 import { useData } from '../../contexts/DataContext';
 import { useNotification } from '../../contexts/NotificationContext';
-import type { SafeZone, Location } from '../../types';
-import { VibeType } from '../../types';
-import { haversineDistance } from '../../utils/geolocation';
 import Header from './Header';
-
-const parseLocationFromPayload = (loc: any): Location | null => {
-    if (loc && loc.type === 'Point' && loc.coordinates && loc.coordinates.length === 2) {
-        return { lat: loc.coordinates[1], lng: loc.coordinates[0] };
-    }
-    if (loc && typeof loc.lat === 'number' && typeof loc.lng === 'number') {
-        return loc;
-    }
-    return null;
-}
+import { useSOSLiveTracking } from '../../hooks/useSOSLiveTracking';
+import { useOfflineQueue } from '../../hooks/useOfflineQueue';
+import { LocationMarkerIcon } from '../ui/Icons';
+import { Location } from '../../types';
+import WalkSessionBanner from '../walk/WalkSessionBanner';
 
 const Layout: React.FC = () => {
   const auth = useContext(AuthContext);
-  const { userSettings } = useData();
+  const { stopSOSTracking } = useData();
+  const trackedSOS = useSOSLiveTracking();
+  const { pending: queuedSubmissions, retry: retryQueue, discard: discardQueued } = useOfflineQueue();
+  const queuedSOS = queuedSubmissions.filter(item => item.kind === 'sos');
+  const rejectedSubmission = queuedSubmissions.find(item => item.lastError && item.attempts > 0);
   const { showNotification } = useNotification();
-  const [safeZones, setSafeZones] = useState<SafeZone[]>([]);
   const [isReportVibeModalOpen, setIsReportVibeModalOpen] = useState(false);
-  
-  // Use a ref to hold the latest settings and zones to avoid re-subscribing on every change
-  const settingsRef = useRef(userSettings);
-  const safeZonesRef = useRef(safeZones);
+  const [vibeLocation, setVibeLocation] = useState<Location | null>(null);
+  const routerLocation = useLocation();
+  const navigate = useNavigate();
 
+  // The map hands back the spot picked for a vibe report (or a cancel) through router state.
+  // The modal stays mounted while hidden, so the vibe and details chosen so far are kept.
   useEffect(() => {
-    settingsRef.current = userSettings;
-    safeZonesRef.current = safeZones;
-  }, [userSettings, safeZones]);
-
-
+    const state = routerLocation.state as { newVibeLocation?: Location; vibePickCancelled?: boolean } | null;
+    if (!state?.newVibeLocation && !state?.vibePickCancelled) return;
+    if (state.newVibeLocation) setVibeLocation({ lat: state.newVibeLocation.lat, lng: state.newVibeLocation.lng });
+    setIsReportVibeModalOpen(true);
+    window.history.replaceState({}, document.title);
+  }, [routerLocation.state]);
+
+  const handlePickVibeLocation = () => {
+    setIsReportVibeModalOpen(false);
+    navigate('/', { state: { settingVibe: true } });
+  };
+
+  // Safe-zone matching happens in the database (supabase/safe_zone_alerts.sql), which also honours the
+  // notification settings and pushes to closed tabs. Here we only surface the user's own deliveries.
   useEffect(() => {
     if (!auth?.user) return;
 
-    const fetchSafeZones = async () => {
-        const { data, error } = await supabase
-            .from('safe_zones')
-            .select('*')
-            .eq('user_id', auth.user!.id);
-        
-        if (error) {
-            console.error("Could not fetch safe zones for notifications:", error.message);
-        } else {
-            const parsedZones = (data || [])
-                .map(z => ({ ...z, location: parseLocationFromPayload(z.location) }))
-                .filter(z => z.location) as SafeZone[];
-            setSafeZones(parsedZones);
-        }
-    };
-    
-    fetchSafeZones();
-
-    const alertChannel = supabase.channel('public-alerts-insert-only')
-      .on('postgres_changes', { event: 'INSERT', schema: 'public' },
+    const alertChannel = supabase.channel(`alert-deliveries-${auth.user.id}`)
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'alert_deliveries', filter: `user_id=eq.${auth.user.id}` },
         (payload) => {
-          // Only show in-app notification if the tab is active.
-          // The service worker will handle notifications if the app is in the background.
-          if (document.visibilityState !== 'visible') {
-            return;
-          }
-
-          const currentSettings = settingsRef.current;
-          const currentZones = safeZonesRef.current;
-          
-          if (!currentSettings.notifications.safeZoneAlerts || currentZones.length === 0 || !payload.new) return;
-
-          const newRecord = payload.new as any;
-          
-          let alertLocation: Location | null = null;
-          let isCriticalAlert = false;
-          let alertType = '';
-          let shouldNotify = false;
-
-          if (payload.table === 'vibes' && newRecord.vibe_type === VibeType.Dangerous && currentSettings.notifications.onDangerousVibe) {
-            alertLocation = parseLocationFromPayload(newRecord.location);
-            isCriticalAlert = true;
-            alertType = 'Dangerous Vibe';
-            shouldNotify = true;
-          } else if (payload.table === 'sos' && currentSettings.notifications.onSOS) {
-            alertLocation = parseLocationFromPayload(newRecord.location);
-            isCriticalAlert = true;
-            alertType = 'SOS Alert';
-            shouldNotify = true;
-          }
-
-          if (shouldNotify && isCriticalAlert && alertLocation) {
-            for (const zone of currentZones) {
-              if (zone.location && zone.radius_km) {
-                const distance = haversineDistance(alertLocation, zone.location);
-                if (distance <= zone.radius_km) {
-                  const toastMessage = `A new "${alertType}" was reported inside your safe zone "${zone.name}".`;
-                  showNotification(toastMessage, 'warning');
-                  break; 
-                }
-              }
-            }
-          }
+          // The service worker shows the push notification when the app is in the background.
+          if (document.visibilityState !== 'visible') return;
+          showNotification((payload.new as any).body, 'warning');
         }
       )
       .subscribe();
-      
-    const safeZoneChannel = supabase.channel(`safe-zones-user-${auth.user.id}`)
-      .on('postgres_changes', 
-          { event: '*', schema: 'public', table: 'safe_zones', filter: `user_id=eq.${auth.user.id}` },
-          () => fetchSafeZones()
-      ).subscribe();
-
 
     return () => {
       supabase.removeChannel(alertChannel);
-      supabase.removeChannel(safeZoneChannel);
     };
-
   }, [auth?.user, showNotification]);
 
 
   return (
     <div className="h-full flex flex-col">
       <Header />
+      {/* Status banners stack under the header in order of urgency. */}
+      <div className="fixed top-16 inset-x-0 z-[1500] flex flex-col">
+        <WalkSessionBanner />
+        {trackedSOS && (
+          <div className="bg-brand-danger/90 text-white text-sm px-4 py-2 flex items-center justify-between">
+            <span className="flex items-center space-x-2">
+              <LocationMarkerIcon className="w-4 h-4 animate-pulse" />
+              <span>Sharing your live location until {new Date(trackedSOS.tracking_expires_at!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+            </span>
+            <button onClick={() => stopSOSTracking(trackedSOS.id)} className="font-semibold underline">Stop sharing</button>
+          </div>
+        )}
+        {queuedSubmissions.length > 0 && (
+          <div className="bg-yellow-600/90 text-white text-sm px-4 py-2 space-y-1">
+            <div className="flex items-center justify-between">
+              <span>
+                {queuedSOS.length > 0
+                  ? `SOS captured at ${new Date(queuedSOS[0].capturedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} is queued and will send when you're online.`
+                  : `${queuedSubmissions.length} report${queuedSubmissions.length === 1 ? '' : 's'} queued, will send when online.`}
+              </span>
+              <button onClick={retryQueue} className="font-semibold underline ml-2">Retry now</button>
+            </div>
+            {rejectedSubmission && navigator.onLine && (
+              <div className="flex items-center justify-between text-xs">
+                <span>A queued {rejectedSubmission.kind === 'sos' ? 'SOS' : 'report'} was rejected: {rejectedSubmission.lastError}</span>
+                <button onClick={() => discardQueued(rejectedSubmission.id!)} className="font-semibold underline ml-2">Discard</button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
       <main className="flex-grow pt-16 pb-20 relative overflow-y-auto">
         <Outlet />
       </main>
       <BottomNavbar onReportVibeClick={() => setIsReportVibeModalOpen(true)} />
-      <ReportVibeModal isOpen={isReportVibeModalOpen} onClose={() => setIsReportVibeModalOpen(false)} />
+      <ReportVibeModal
+        isOpen={isReportVibeModalOpen}
+        onClose={() => { setIsReportVibeModalOpen(false); setVibeLocation(null); }}
+        pickedLocation={vibeLocation}
+        onPickOnMap={handlePickVibeLocation}
+        onClearPickedLocation={() => setVibeLocation(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,118 @@
+import React from 'react';
+import type { MapLayerId, MapLayerSettings } from '../../types';
+import { VibeType } from '../../types';
+import { MAP_LAYER_LABELS, VIBE_AGE_OPTIONS, DEFAULT_MAP_LAYERS } from '../../utils/mapLayers';
+
+interface LayerControlProps {
+    layers: MapLayerSettings;
+    showHeatmap: boolean;
+    vibeLabels: Record<string, string>;
+    onChange: (layers: MapLayerSettings) => void;
+    onHeatmapToggle: () => void;
+    onClose: () => void;
+}
+
+const Toggle: React.FC<{ label: string; checked: boolean; onChange: () => void }> = ({ label, checked, onChange }) => (
+    <label className="flex items-center justify-between cursor-pointer text-text-primary hover:text-white py-1">
+        <span className="text-sm font-medium">{label}</span>
+        <div className="relative">
+            <input type="checkbox" checked={checked} onChange={onChange} className="sr-only peer" />
+            <div className="w-11 h-6 bg-gray-600 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-brand-accent"></div>
+        </div>
+    </label>
+);
+
+const LayerControl: React.FC<LayerControlProps> = ({ layers, showHeatmap, vibeLabels, onChange, onHeatmapToggle, onClose }) => {
+    const toggleLayer = (layer: MapLayerId) => {
+        onChange({ ...layers, visible: { ...layers.visible, [layer]: !layers.visible[layer] } });
+    };
+
+    const toggleVibeType = (vibeType: VibeType) => {
+        const vibeTypes = layers.vibeTypes.includes(vibeType)
+            ? layers.vibeTypes.filter(t => t !== vibeType)
+            : [...layers.vibeTypes, vibeType];
+        onChange({ ...layers, vibeTypes });
+    };
+
+    return (
+        <div className="absolute top-36 right-4 z-[1000] bg-brand-secondary/80 backdrop-blur-md border border-brand-accent/20 p-3 rounded-lg shadow-lg w-60 max-h-[70vh] overflow-y-auto animate-fade-in-down">
+            <div className="flex justify-between items-center border-b border-gray-700 pb-2 mb-2">
+                <p className="text-sm font-semibold text-text-primary">Map Layers</p>
+                <button onClick={onClose} className="text-text-secondary hover:text-text-primary text-2xl leading-none" aria-label="Close layers">&times;</button>
+            </div>
+
+            <Toggle label="Heatmap View" checked={showHeatmap} onChange={onHeatmapToggle} />
+            {showHeatmap && <p className="text-xs text-text-secondary">The heatmap shows vibes only. Switch it off to see SOS alerts and events.</p>}
+
+            <div className="pt-2 mt-2 border-t border-gray-700">
+                {(Object.keys(MAP_LAYER_LABELS) as MapLayerId[]).map(layer => (
+                    <Toggle key={layer} label={MAP_LAYER_LABELS[layer]} checked={layers.visible[layer]} onChange={() => toggleLayer(layer)} />
+                ))}
+            </div>
+
+            <div className={`mt-2 pt-2 border-t border-gray-700 transition-opacity ${layers.visible.vibes ? 'opacity-100' : 'opacity-50 pointer-events-none'}`}>
+                <p className="text-sm font-semibold mb-2 text-text-primary">Vibe Types</p>
+                <div className="flex flex-col space-y-1">
+                    {Object.values(VibeType).map(vibeType => (
+                        <label key={vibeType} className="flex items-center space-x-2 cursor-pointer text-text-secondary hover:text-text-primary">
+                            <input
+                                type="checkbox"
+                                checked={layers.vibeTypes.includes(vibeType)}
+                                onChange={() => toggleVibeType(vibeType)}
+                                className="form-checkbox h-4 w-4 rounded bg-gray-700 border-gray-600 text-brand-accent focus:ring-brand-accent"
+                            />
+                            <span className="text-sm">{vibeLabels[vibeType] || vibeType}</span>
+                        </label>
+                    ))}
+                </div>
+                <p className="text-sm font-semibold mt-3 mb-2 text-text-primary">Reported Within</p>
+                <div className="flex space-x-1 bg-brand-primary p-1 rounded-lg">
+                    {VIBE_AGE_OPTIONS.map(option => (
+                        <button
+                            key={option.label}
+                            onClick={() => onChange({ ...layers, vibeMaxAgeHours: option.hours })}
+                            className={`flex-1 text-xs font-semibold py-1 rounded-md transition-colors ${layers.vibeMaxAgeHours === option.hours ? 'bg-brand-accent text-brand-primary' : 'text-text-secondary hover:bg-gray-700'}`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className={`mt-3 pt-2 border-t border-gray-700 transition-opacity ${layers.visible.events ? 'opacity-100' : 'opacity-50 pointer-events-none'}`}>
+                <p className="text-sm font-semibold mb-2 text-text-primary">Event Dates</p>
+                <div className="grid grid-cols-2 gap-2">
+                    <label className="text-xs text-text-secondary">
+                        From
+                        <input
+                            type="date"
+                            value={layers.eventsFrom || ''}
+                            max={layers.eventsTo || undefined}
+                            onChange={e => onChange({ ...layers, eventsFrom: e.target.value || null })}
+                            className="mt-1 w-full bg-brand-primary border border-gray-600 rounded-md px-1 py-1 text-text-primary text-xs"
+                        />
+                    </label>
+                    <label className="text-xs text-text-secondary">
+                        To
+                        <input
+                            type="date"
+                            value={layers.eventsTo || ''}
+                            min={layers.eventsFrom || undefined}
+                            onChange={e => onChange({ ...layers, eventsTo: e.target.value || null })}
+                            className="mt-1 w-full bg-brand-primary border border-gray-600 rounded-md px-1 py-1 text-text-primary text-xs"
+                        />
+                    </label>
+                </div>
+            </div>
+
+            <button
+                onClick={() => onChange(DEFAULT_MAP_LAYERS)}
+                className="mt-3 w-full text-xs font-semibold text-brand-accent hover:underline"
+            >
+                Reset filters
+            </button>
+        </div>
+    );
+};
+
+export default LayerControl;
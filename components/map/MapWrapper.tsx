@@ -1,14 +1,28 @@
-import React, { useState, useEffect, useRef, useContext } from 'react';
+import React, { useState, useEffect, useRef, useContext, useMemo } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { supabase } from '../../services/supabaseClient';
 import { AuthContext } from '../../contexts/AuthContext';
 import { useData } from '../../contexts/DataContext';
-import type { SafeZone, Location } from '../../types';
+import type { SafeZone, Location, SOS, SOSStatus, MapLayerSettings, Vibe, VibeVote, Event } from '../../types';
 import { VibeType } from '../../types';
-import { FireIcon, ExclamationTriangleIcon } from '../ui/Icons';
+import { ExclamationTriangleIcon, ClockIcon, Square3Stack3DIcon, MapIcon, ShieldCheckIcon } from '../ui/Icons';
 import AreaSummaryModal from './AreaSummaryModal';
+import TimelineControl, { TimelineRange, TIMELINE_RANGES } from './TimelineControl';
+import LayerControl from './LayerControl';
+import RoutePlanner, { ScoredRoute } from './RoutePlanner';
 import SOSModal from '../sos/SOSModal';
-import { haversineDistance } from '../../utils/geolocation';
+import WalkWithMeModal from '../walk/WalkWithMeModal';
+import ReportContentModal, { ReportTarget } from '../moderation/ReportContentModal';
+import { haversineDistance, parseLocationFromGeoJSON, parsePolygonFromGeoJSON, getHighAccuracyFix } from '../../utils/geolocation';
+import { getVibeFreshness, isVibeExpired } from '../../utils/decay';
+import { getTileSource } from '../../utils/tileSources';
+import { getSOSStatus, isSOSActive, isSOSTracking, isSOSVisibleOnMap, SOS_STATUS_CONFIG } from '../../utils/sos';
+import { filterVibesByLayers, filterEventsByLayers, hasActiveLayerFilters } from '../../utils/mapLayers';
+import { scoreRoute } from '../../utils/routeSafety';
+import { VIBE_TAG_LABELS } from '../../utils/vibeDetails';
+import { getVibeCredibility, getCredibilityLevel, CREDIBILITY_LABELS, VOTE_RADIUS_KM } from '../../utils/credibility';
+import { getVibePhotoUrls } from '../../services/vibePhotos';
+import type { GeocodedPlace, WalkingRoute } from '../../services/routingService';
 
 // This tells TypeScript that the Leaflet library (L) is available globally
 // because it's loaded via a <script> tag in index.html.
@@ -23,20 +37,6 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
 });
 
-// Helper to convert Supabase GeoJSON point to our LatLng format
-// Made robust to handle both new (GeoJSON) and old ({lat,lng}) formats.
-const parseLocation = (loc: any): Location | null => {
-    if (loc && loc.coordinates && loc.coordinates.length === 2) {
-        // New GeoJSON format from PostGIS: { type: 'Point', coordinates: [lng, lat] }
-        return { lat: loc.coordinates[1], lng: loc.coordinates[0] };
-    }
-    if (loc && typeof loc.lat === 'number' && typeof loc.lng === 'number') {
-        // Old format from JSONB: { lat: number, lng: number }
-        return loc;
-    }
-    return null;
-}
-
 // --- Icon Creation Functions ---
 const VIBE_CONFIG: Record<string, { color: string; displayName: string }> = {
     [VibeType.Safe]: { color: 'green', displayName: 'Safe' },
@@ -47,54 +47,270 @@ const VIBE_CONFIG: Record<string, { color: string; displayName: string }> = {
     [VibeType.Dangerous]: { color: 'red', displayName: 'Dangerous' },
 };
 
-const getVibeIcon = (vibeType: VibeType) => {
-  const color = VIBE_CONFIG[vibeType]?.color || 'grey';
+const getColorIcon = (color: string) => {
   return new L.Icon({
     iconUrl: `https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-${color}.png`,
     shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/0.7.7/images/marker-shadow.png',
     iconSize: [25, 41], iconAnchor: [12, 41], popupAnchor: [1, -34], shadowSize: [41, 41]
   });
 };
-const sosIcon = getVibeIcon(VibeType.Dangerous); // Reuse dangerous icon for visual consistency
+const getVibeIcon = (vibeType: VibeType) => getColorIcon(VIBE_CONFIG[vibeType]?.color || 'grey');
+// Active alerts keep the red 'dangerous' marker; closed ones fade to their status colour.
+const sosIcons = Object.fromEntries(
+    Object.entries(SOS_STATUS_CONFIG).map(([status, config]) => [status, getColorIcon(config.color)])
+) as Record<SOSStatus, any>;
+const VIBE_LABELS = Object.fromEntries(Object.entries(VIBE_CONFIG).map(([type, config]) => [type, config.displayName]));
 const eventIcon = new L.Icon({ // Use a distinct 'gold' color for community events
     iconUrl: 'https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-gold.png',
     shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/0.7.7/images/marker-shadow.png',
     iconSize: [25, 41], iconAnchor: [12, 41], popupAnchor: [1, -34], shadowSize: [41, 41]
 });
 
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const buildVibePopupHtml = (v: Vibe): string => {
+    let html = `<strong>Vibe:</strong> ${VIBE_CONFIG[v.vibe_type]?.displayName}<br><strong>By:</strong> ${escapeHtml(v.profiles?.username || 'anonymous')}`;
+    if (v.location_source === 'map') html += `<br><strong>Location:</strong> placed on the map`;
+    else if (v.accuracy_m != null) html += `<br><strong>Location:</strong> GPS, ±${Math.round(v.accuracy_m)} m`;
+    if (v.tags?.length) html += `<br><strong>Tags:</strong> ${v.tags.map(tag => VIBE_TAG_LABELS[tag] || escapeHtml(tag)).join(', ')}`;
+    if (v.note) html += `<br><em>"${escapeHtml(v.note)}"</em>`;
+    const confirms = v.confirm_count || 0, disputes = v.dispute_count || 0;
+    html += `<br><strong>Credibility:</strong> ${CREDIBILITY_LABELS[getCredibilityLevel(v)]}`
+        + `<br><span class="text-xs">${confirms} confirmed · ${disputes} disputed</span>`;
+    const photoUrls = getVibePhotoUrls(v);
+    if (photoUrls.length > 0) {
+        html += `<div style="display:flex;gap:4px;margin-top:4px">${photoUrls.map(url =>
+            `<a href="${escapeHtml(url)}" target="_blank" rel="noopener noreferrer"><img src="${escapeHtml(url)}" alt="Report photo" style="width:56px;height:56px;object-fit:cover;border-radius:4px"></a>`
+        ).join('')}</div>`;
+    }
+    return html;
+};
+
+// A quiet link under the popup content, offered on everything the user didn't post.
+const appendReportLink = (container: HTMLElement, onReport: () => void) => {
+    const link = document.createElement('button');
+    link.textContent = 'Report';
+    link.className = 'block mt-2 text-xs text-gray-500 hover:text-red-500 underline';
+    link.addEventListener('click', onReport);
+    container.appendChild(link);
+};
+
+interface VibePopupVoting {
+    myVote: VibeVote | undefined;
+    onVote: (vibe: Vibe, vote: VibeVote | null) => void;
+}
+
+// Anyone but the author can confirm or dispute; voting again with the same choice withdraws it.
+const buildVibePopup = (v: Vibe, voting: VibePopupVoting | null, onReport: (() => void) | null): HTMLElement => {
+    const container = document.createElement('div');
+    container.innerHTML = buildVibePopupHtml(v);
+    if (!voting) {
+        if (onReport) appendReportLink(container, onReport);
+        return container;
+    }
+
+    const addVoteButton = (label: string, vote: VibeVote) => {
+        const isCurrent = voting.myVote === vote;
+        const button = document.createElement('button');
+        button.textContent = isCurrent ? `${label} ✓` : label;
+        button.title = isCurrent ? 'Withdraw your vote' : '';
+        button.className = `mt-2 mr-1 text-xs font-semibold px-2 py-1 rounded ${isCurrent ? 'bg-brand-accent text-brand-primary' : 'bg-gray-600 text-white'}`;
+        button.addEventListener('click', () => voting.onVote(v, isCurrent ? null : vote));
+        container.appendChild(button);
+    };
+    container.appendChild(document.createElement('br'));
+    addVoteButton('Confirm', 1);
+    addVoteButton('Dispute', -1);
+    if (onReport) appendReportLink(container, onReport);
+    return container;
+};
+
+interface SOSPopupActions {
+    onRespond: (sosId: number) => void;
+    onClose: (sosId: number, status: 'resolved' | 'false_alarm') => void;
+    onOpenAssistant: () => void;
+    onReport: (s: SOS) => void;
+}
+
+// Built as DOM rather than an HTML string so the action buttons can carry click handlers.
+// Only verified responders are offered "I'm responding"; respond_to_sos rejects anyone else.
+const buildSOSPopup = (s: SOS, userId: string | undefined, isOwner: boolean, canRespond: boolean, actions: SOSPopupActions): HTMLElement => {
+    const status = getSOSStatus(s);
+    const responders = s.responder_ids?.length || 0;
+    const isResponding = !!userId && !!s.responder_ids?.includes(userId);
+    const updatedAt = new Date(s.status_updated_at || s.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+    const container = document.createElement('div');
+    container.innerHTML = `<strong class="${isSOSActive(s) ? 'text-red-500' : 'text-gray-500'}">SOS ALERT · ${SOS_STATUS_CONFIG[status].label}</strong><br>`
+        + `<strong>By:</strong> ${escapeHtml(s.profiles?.username || 'anonymous')}<br>`
+        + `<strong>Details:</strong> ${escapeHtml(s.details || '')}<br>`
+        + `<span class="text-xs">${responders} responding · updated ${updatedAt}</span>`;
+    const lastPoint = s.track?.[s.track.length - 1];
+    if (isSOSTracking(s) && lastPoint) {
+        const lastFix = new Date(lastPoint.recorded_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+        container.innerHTML += `<br><span class="text-xs text-red-500">● Live location · last fix ${lastFix}</span>`;
+    }
+
+    const addButton = (label: string, className: string, onClick: () => void) => {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.className = `mt-2 mr-1 text-xs font-semibold px-2 py-1 rounded ${className}`;
+        button.addEventListener('click', onClick);
+        container.appendChild(button);
+    };
+
+    if (isSOSActive(s)) {
+        if (isOwner) {
+            addButton("I'm safe", 'bg-emerald-600 text-white', () => actions.onClose(s.id, 'resolved'));
+            addButton('False alarm', 'bg-gray-600 text-white', () => actions.onClose(s.id, 'false_alarm'));
+        } else if (canRespond && !isResponding) {
+            addButton("I'm responding", 'bg-orange-500 text-white', () => actions.onRespond(s.id));
+        }
+        addButton('Live Assistant', 'bg-brand-danger text-white', actions.onOpenAssistant);
+    }
+    if (!isOwner && userId) appendReportLink(container, () => actions.onReport(s));
+    return container;
+};
+
+const buildEventPopup = (e: Event, onReport: (() => void) | null): HTMLElement => {
+    const container = document.createElement('div');
+    const verifiedBadge = e.is_verified ? ` <span class="text-emerald-600 font-semibold">✓ Verified organisation</span>` : '';
+    container.innerHTML = `<strong>Community Event:</strong> ${escapeHtml(e.title)}<br><strong>When:</strong> ${new Date(e.event_time).toLocaleString()}<br><strong>By:</strong> ${escapeHtml(e.profiles?.username || 'anonymous')}${verifiedBadge}`;
+    if (onReport) appendReportLink(container, onReport);
+    return container;
+};
+
 interface SummaryModalState {
     isOpen: boolean; isLoading: boolean; summary: string | null; error: string | null;
 }
 
+interface TimelineState {
+    range: TimelineRange; end: number; cursor: number;
+}
+
+interface RoutePlanState {
+    destination: GeocodedPlace; routes: WalkingRoute[]; isPartialCoverage: boolean;
+}
+
+const REPLAY_TICK_MS = 500;
+
 const MapWrapper: React.FC = () => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<any>(null);
   const heatLayerRef = useRef<any>(null);
   const markerClusterGroupRef = useRef<any>(null);
   const safeZoneLayersRef = useRef<Record<number, any>>({});
+  const sosOverlayLayerRef = useRef<any>(null);
+  const routeLayerRef = useRef<any>(null);
+  const zoneDraftLayerRef = useRef<any>(null);
 
   const auth = useContext(AuthContext);
-  const { vibes, sos, events, loading: dataLoading, error: dataError, userSettings } = useData();
+  const { vibes, sos, events, loading: dataLoading, error: dataError, userSettings, updateUserSettings, loadArea, respondToSOS, closeSOS, isOwnReport, voteOnVibe, myVibeVotes, currentLocation } = useData();
+  const layers = userSettings.map.layers;
+  const loadAreaRef = useRef(loadArea);
+  loadAreaRef.current = loadArea;
+  // Popup buttons are wired up when markers are drawn, so they read the latest actions through refs.
+  const canRespondToSOS = !!auth?.can('respondToSOS');
+  const sosActionsRef = useRef({ respondToSOS, closeSOS, canRespondToSOS });
+  sosActionsRef.current = { respondToSOS, closeSOS, canRespondToSOS };
+  // Read when a popup opens, so votes don't rebuild every marker.
+  const vibeVotingRef = useRef({ voteOnVibe, myVibeVotes });
+  vibeVotingRef.current = { voteOnVibe, myVibeVotes };
   
   const reactRouterLocation = useLocation();
   const navigate = useNavigate();
   const isSettingZone = reactRouterLocation.state?.settingZone === true;
   const isSettingEvent = reactRouterLocation.state?.settingEvent === true;
+  const isSettingVibe = reactRouterLocation.state?.settingVibe === true;
+  // A safe zone being edited on the profile page rides along so it comes back with its new location.
+  const zoneDraftState = reactRouterLocation.state?.zoneDraft;
   const flyToLocation = reactRouterLocation.state?.flyToLocation;
+  // Set when only the rough area is known, so the map shows the area without marking a spot.
+  const flyToArea = reactRouterLocation.state?.flyToArea;
 
   const [isMapSized, setIsMapSized] = useState(false);
+  const [isAreaTooLarge, setIsAreaTooLarge] = useState(false);
   const [safeZones, setSafeZones] = useState<SafeZone[]>([]);
   const [showHeatmap, setShowHeatmap] = useState(true);
-  const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
+  const [isLayerPanelOpen, setIsLayerPanelOpen] = useState(false);
   const [isSosModalOpen, setIsSosModalOpen] = useState(false);
-  const [heatmapFilters, setHeatmapFilters] = useState<Set<VibeType>>(
-    new Set(Object.values(VibeType))
-  );
   const [summaryModalState, setSummaryModalState] = useState<SummaryModalState>({ isOpen: false, isLoading: false, summary: null, error: null });
+  const [timeline, setTimeline] = useState<TimelineState | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [isRoutePlannerOpen, setIsRoutePlannerOpen] = useState(false);
+  const [routePlan, setRoutePlan] = useState<RoutePlanState | null>(null);
+  const [selectedRouteId, setSelectedRouteId] = useState<string | null>(null);
+  const [zoneShape, setZoneShape] = useState<'circle' | 'area'>('circle');
+  const [zoneDraft, setZoneDraft] = useState<Location[]>([]);
+  const [walkModal, setWalkModal] = useState<{ destination: GeocodedPlace | null; minutes?: number } | null>(null);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+
+  // Routes are scored against everything loaded, regardless of the layer filters, and re-scored as
+  // reports arrive. The safest is the lowest risk, with the quicker walk winning a tie.
+  const { scoredRoutes, safestRouteId } = useMemo(() => {
+    if (!routePlan) return { scoredRoutes: [] as ScoredRoute[], safestRouteId: null };
+    const scored = routePlan.routes.map(route => ({ ...route, safety: scoreRoute(route.path, route.distanceKm, vibes, sos) }));
+    const safest = [...scored].sort((a, b) => a.safety.risk - b.safety.risk || a.durationMin - b.durationMin)[0];
+    return { scoredRoutes: scored, safestRouteId: safest?.id || null };
+  }, [routePlan, vibes, sos]);
+
+  // While the timeline is open, only records created inside the selected window are drawn,
+  // and vibe freshness is measured from the slider position instead of from now.
+  // The layer filters apply on top of that in both heatmap and marker mode.
+  const { visibleVibes, visibleSos, visibleEvents, referenceTime } = useMemo(() => {
+    const sosLayer = (list: SOS[]) => layers.visible.sos ? list : [];
+    if (!timeline) {
+      return {
+        visibleVibes: filterVibesByLayers(vibes, layers),
+        visibleSos: sosLayer(sos.filter(s => isSOSVisibleOnMap(s))),
+        visibleEvents: filterEventsByLayers(events, layers),
+        referenceTime: null,
+      };
+    }
+    const windowStart = timeline.cursor - TIMELINE_RANGES[timeline.range].windowMs;
+    const inWindow = (record: { created_at: string }) => {
+      const createdAt = new Date(record.created_at).getTime();
+      return createdAt > windowStart && createdAt <= timeline.cursor;
+    };
+    return {
+      visibleVibes: filterVibesByLayers(vibes.filter(inWindow), layers, timeline.cursor),
+      visibleSos: sosLayer(sos.filter(s => inWindow(s) && getSOSStatus(s) !== 'false_alarm')),
+      visibleEvents: filterEventsByLayers(events.filter(inWindow), layers),
+      referenceTime: timeline.cursor,
+    };
+  }, [vibes, sos, events, timeline, layers]);
+
+  useEffect(() => {
+    if (!isReplaying) return;
+    const timer = setInterval(() => {
+      setTimeline(prev => prev && { ...prev, cursor: Math.min(prev.cursor + TIMELINE_RANGES[prev.range].stepMs, prev.end) });
+    }, REPLAY_TICK_MS);
+    return () => clearInterval(timer);
+  }, [isReplaying]);
+
+  useEffect(() => {
+    if (timeline && timeline.cursor >= timeline.end) setIsReplaying(false);
+  }, [timeline]);
   
   useEffect(() => {
     setShowHeatmap(userSettings.map.defaultView === 'heatmap');
   }, [userSettings.map.defaultView]);
+
+  // Swaps the base layer whenever the user picks a different tile source in Settings.
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const source = getTileSource(userSettings.map.tileSource);
+    const tileLayer = L.tileLayer(source.url, {
+      attribution: source.attribution,
+      subdomains: source.subdomains || 'abc',
+      maxZoom: source.maxZoom,
+    }).addTo(map);
+    tileLayer.bringToBack();
+    return () => {
+      map.removeLayer(tileLayer);
+    };
+  }, [userSettings.map.tileSource, isMapSized]);
   
   useEffect(() => {
     if (mapContainerRef.current && !mapRef.current) {
@@ -102,12 +318,6 @@ const MapWrapper: React.FC = () => {
           center: [40.7128, -74.0060],
           zoom: 13,
       });
-      L.tileLayer('https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png', {
-        attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
-        subdomains: 'abcd',
-        maxZoom: 20
-      }).addTo(map);
-      
       mapRef.current = map;
       markerClusterGroupRef.current = L.markerClusterGroup();
       
@@ -132,14 +342,32 @@ const MapWrapper: React.FC = () => {
     }
   }, []);
 
+  // Loads records for the visible area (plus a margin) whenever the map settles.
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !isMapSized) return;
+    const loadVisibleArea = async () => {
+      const b = map.getBounds().pad(0.25);
+      const loaded = await loadAreaRef.current({ north: b.getNorth(), south: b.getSouth(), east: b.getEast(), west: b.getWest() });
+      setIsAreaTooLarge(!loaded);
+    };
+    loadVisibleArea();
+    map.on('moveend', loadVisibleArea);
+    return () => {
+      map.off('moveend', loadVisibleArea);
+    };
+  }, [isMapSized]);
+
   useEffect(() => {
     const map = mapRef.current;
     if (map && flyToLocation) {
-        map.flyTo([flyToLocation.lat, flyToLocation.lng], 17, {
+        map.flyTo([flyToLocation.lat, flyToLocation.lng], flyToArea ? 12 : 17, {
             animate: true,
             duration: 1.5
         });
-        
+        window.history.replaceState({}, document.title);
+        if (flyToArea) return;
+
         const pulseIcon = L.divIcon({
             className: 'css-icon-pulse',
             html: '<div></div>',
@@ -147,10 +375,8 @@ const MapWrapper: React.FC = () => {
         });
         const marker = L.marker([flyToLocation.lat, flyToLocation.lng], { icon: pulseIcon }).addTo(map);
         setTimeout(() => map.removeLayer(marker), 3000);
-        
-        window.history.replaceState({}, document.title);
     }
-  }, [flyToLocation]);
+  }, [flyToLocation, flyToArea]);
 
   useEffect(() => {
     if (!auth?.user) return;
@@ -159,7 +385,9 @@ const MapWrapper: React.FC = () => {
         if (error) {
             console.error("Error fetching user's safe zones:", error);
         } else {
-            const parsedZones = (data || []).map(z => ({ ...z, location: parseLocation(z.location) })).filter(z => z.location) as SafeZone[];
+            const parsedZones = (data || [])
+                .map(z => ({ ...z, location: parseLocationFromGeoJSON(z.location), area: parsePolygonFromGeoJSON(z.area) }))
+                .filter(z => z.location) as SafeZone[];
             setSafeZones(parsedZones);
         }
     };
@@ -188,16 +416,62 @@ const MapWrapper: React.FC = () => {
         map.removeLayer(markerClusterGroupRef.current);
     }
     markerClusterGroupRef.current.clearLayers();
+    if (sosOverlayLayerRef.current) {
+        map.removeLayer(sosOverlayLayerRef.current);
+        sosOverlayLayerRef.current = null;
+    }
     Object.values(safeZoneLayersRef.current).forEach(layer => map.removeLayer(layer));
     safeZoneLayersRef.current = {};
 
-    safeZones.forEach(zone => {
-      const circle = L.circle([zone.location.lat, zone.location.lng], {
-        radius: zone.radius_km * 1000,
-        color: '#00E5FF', fillColor: '#00E5FF', fillOpacity: 0.1, weight: 1.5,
-      }).bindPopup(`<strong>Safe Zone:</strong> ${zone.name}`);
-      map.addLayer(circle);
-      safeZoneLayersRef.current[zone.id] = circle;
+    if (layers.visible.safeZones) {
+      const zoneStyle = { color: '#00E5FF', fillColor: '#00E5FF', fillOpacity: 0.1, weight: 1.5 };
+      const watchedStyle = { ...zoneStyle, fillOpacity: 0.05, dashArray: '4 4' };
+      safeZones.forEach(zone => {
+        const isWatched = zone.kind === 'watched';
+        const shape = zone.area
+          ? L.polygon(zone.area.map(v => [v.lat, v.lng]), zoneStyle)
+          : L.circle([zone.location.lat, zone.location.lng], { ...(isWatched ? watchedStyle : zoneStyle), radius: zone.radius_km * 1000 });
+        shape.bindPopup(`<strong>${isWatched ? 'Watched Place' : 'Safe Zone'}:</strong> ${escapeHtml(zone.name)}`);
+        map.addLayer(shape);
+        safeZoneLayersRef.current[zone.id] = shape;
+      });
+    }
+
+    const reportFromPopup = (target: ReportTarget) => {
+        map.closePopup();
+        setReportTarget(target);
+    };
+    const popupActions: SOSPopupActions = {
+        onRespond: async (sosId) => {
+            map.closePopup();
+            if (!(await sosActionsRef.current.respondToSOS(sosId))) alert("Could not register your response. The alert may already be closed.");
+        },
+        onClose: async (sosId, status) => {
+            map.closePopup();
+            if (!(await sosActionsRef.current.closeSOS(sosId, status))) alert("Could not update the alert. Please try again.");
+        },
+        onOpenAssistant: () => navigate('/pulse'),
+        onReport: (s) => reportFromPopup({ type: 'sos', id: s.id, label: s.details ? `SOS: "${s.details}"` : 'SOS alert', authorId: s.user_id }),
+    };
+    // SOS alerts show in both views: clustered with everything else in marker mode, and on their
+    // own over the heatmap, where only active ones are drawn so responders can follow them.
+    // Breadcrumb trails sit outside the cluster group so they stay visible at every zoom level.
+    const sosMarkers: any[] = [];
+    const sosOverlays: any[] = [];
+    visibleSos.forEach(s => {
+        if (showHeatmap && !isSOSActive(s)) return;
+        const marker = L.marker([s.location.lat, s.location.lng], { icon: sosIcons[getSOSStatus(s)] });
+        marker.bindPopup(() => buildSOSPopup(s, auth?.user?.id, isOwnReport('sos', s), sosActionsRef.current.canRespondToSOS, popupActions));
+        sosMarkers.push(marker);
+
+        const trail = (s.track || [])
+            .filter(p => referenceTime === null || new Date(p.recorded_at).getTime() <= referenceTime)
+            .map(p => [p.location.lat, p.location.lng]);
+        if (trail.length > 1) {
+            const isLive = isSOSTracking(s);
+            sosOverlays.push(L.polyline(trail, { color: isLive ? '#FF00C1' : '#9CA3AF', weight: 3, opacity: 0.8, dashArray: isLive ? undefined : '4 6' }));
+            sosOverlays.push(...trail.slice(0, -1).map(point => L.circleMarker(point, { radius: 3, color: '#FF00C1', fillOpacity: 0.6, weight: 1 })));
+        }
     });
 
     if (showHeatmap) {
@@ -206,9 +480,10 @@ const MapWrapper: React.FC = () => {
           [VibeType.LGBTQIAFriendly]: 0.2, [VibeType.Suspicious]: 0.7, [VibeType.Dangerous]: 1.0,
       };
       
-      const filteredVibes = vibes.filter(vibe => heatmapFilters.has(vibe.vibe_type));
-      const heatmapData = filteredVibes
-          .map(v => [v.location.lat, v.location.lng, vibeIntensityMap[v.vibe_type]])
+      const now = referenceTime ?? Date.now();
+      // Intensity fades with the report's freshness and scales with its credibility; expired reports drop out entirely.
+      const heatmapData = visibleVibes
+          .map(v => [v.location.lat, v.location.lng, vibeIntensityMap[v.vibe_type] * getVibeFreshness(v, now) * getVibeCredibility(v)])
           .filter(v => v[2] > 0);
       
       if (heatmapData.length > 0) {
@@ -217,43 +492,59 @@ const MapWrapper: React.FC = () => {
               gradient: { 0.2: '#0052D4', 0.4: '#00E5FF', 0.8: '#F97316', 1.0: '#FF00C1' }
           }).addTo(map);
       }
+      sosOverlays.push(...sosMarkers);
     } else {
         const allMarkers = [];
-        vibes.forEach(v => {
-            const marker = L.marker([v.location.lat, v.location.lng], { icon: getVibeIcon(v.vibe_type) });
-            const popupContent = `<strong>Vibe:</strong> ${VIBE_CONFIG[v.vibe_type]?.displayName}<br><strong>By:</strong> ${v.profiles?.username || 'anonymous'}`;
+        const now = referenceTime ?? Date.now();
+        const handleVote = async (vibe: Vibe, vote: VibeVote | null) => {
+            map.closePopup();
+            let from: Location;
+            try {
+                from = (await getHighAccuracyFix(10000)).location;
+            } catch (err: any) {
+                alert(`Could not get your location to vote: ${err.message}`);
+                return;
+            }
+            if (haversineDistance(from, vibe.location) > VOTE_RADIUS_KM) {
+                alert(`You need to be within ${VOTE_RADIUS_KM} km of a report to confirm or dispute it.`);
+                return;
+            }
+            const error = await vibeVotingRef.current.voteOnVibe(vibe.id, vote, from);
+            if (error) alert(`Could not record your vote: ${error}`);
+        };
+        const buildPopupFor = (v: Vibe) => {
+            const canAct = !!auth?.user && !isOwnReport('vibes', v);
+            return buildVibePopup(
+                v,
+                canAct ? { myVote: vibeVotingRef.current.myVibeVotes[v.id], onVote: handleVote } : null,
+                canAct ? () => reportFromPopup({ type: 'vibe', id: v.id, label: `${VIBE_LABELS[v.vibe_type]} vibe${v.note ? `: "${v.note}"` : ''}`, authorId: v.user_id }) : null,
+            );
+        };
+        visibleVibes.forEach(v => {
+            const freshness = getVibeFreshness(v, now);
+            if (freshness <= 0) return;
+            const marker = L.marker([v.location.lat, v.location.lng], { icon: getVibeIcon(v.vibe_type), opacity: Math.max(0.35, freshness) });
             
             if (v.vibe_type === VibeType.Dangerous) {
                 marker.on('click', () => {
                     if (window.confirm("This is a 'Dangerous' vibe report. Do you want to open the Live Assistant for immediate help?")) {
                         navigate('/pulse');
                     } else {
-                        L.popup().setLatLng(marker.getLatLng()).setContent(popupContent).openOn(map);
+                        L.popup().setLatLng(marker.getLatLng()).setContent(buildPopupFor(v)).openOn(map);
                     }
                 });
             } else {
-                marker.bindPopup(popupContent);
+                marker.bindPopup(() => buildPopupFor(v));
             }
             allMarkers.push(marker);
         });
         
-        sos.forEach(s => {
-            const marker = L.marker([s.location.lat, s.location.lng], { icon: sosIcon });
-            const popupContent = `<strong class="text-red-500">SOS ALERT!</strong><br><strong>By:</strong> ${s.profiles?.username || 'anonymous'}<br><strong>Details:</strong> ${s.details}`;
-            
-            marker.on('click', () => {
-                if (window.confirm("This is an SOS alert. Do you want to open the Live Assistant for immediate help?")) {
-                    navigate('/pulse');
-                } else {
-                    L.popup().setLatLng(marker.getLatLng()).setContent(popupContent).openOn(map);
-                }
-            });
-            allMarkers.push(marker);
-        });
+        allMarkers.push(...sosMarkers);
 
-        events.forEach(e => {
+        visibleEvents.forEach(e => {
+            const canReport = !!auth?.user && e.user_id !== auth.user.id;
             const marker = L.marker([e.location.lat, e.location.lng], { icon: eventIcon })
-                .bindPopup(`<strong>Community Event:</strong> ${e.title}<br><strong>When:</strong> ${new Date(e.event_time).toLocaleString()}<br><strong>By:</strong> ${e.profiles?.username || 'anonymous'}`);
+                .bindPopup(() => buildEventPopup(e, canReport ? () => reportFromPopup({ type: 'event', id: e.id, label: e.title, authorId: e.user_id }) : null));
             allMarkers.push(marker);
         });
         
@@ -262,25 +553,57 @@ const MapWrapper: React.FC = () => {
             map.addLayer(markerClusterGroupRef.current);
         }
     }
-  }, [vibes, sos, events, safeZones, showHeatmap, heatmapFilters, dataLoading, navigate, isMapSized]);
+    if (sosOverlays.length > 0) {
+        sosOverlayLayerRef.current = L.layerGroup(sosOverlays).addTo(map);
+    }
+  }, [visibleVibes, visibleSos, visibleEvents, referenceTime, safeZones, layers.visible.safeZones, showHeatmap, dataLoading, navigate, isMapSized, auth?.user?.id, isOwnReport]);
   
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !isMapSized) return;
+    if (routeLayerRef.current) {
+        map.removeLayer(routeLayerRef.current);
+        routeLayerRef.current = null;
+    }
+    if (scoredRoutes.length === 0) return;
+
+    const highlightedId = selectedRouteId || safestRouteId;
+    // Drawn with the highlighted route last so it sits on top where paths overlap.
+    const ordered = [...scoredRoutes].sort((a, b) => Number(a.id === highlightedId) - Number(b.id === highlightedId));
+    const lines = ordered.map(route => {
+        const isHighlighted = route.id === highlightedId;
+        const color = route.id === safestRouteId ? '#10B981' : isHighlighted ? '#00E5FF' : '#9CA3AF';
+        return L.polyline(route.path.map(p => [p.lat, p.lng]), { color, weight: isHighlighted ? 7 : 4, opacity: isHighlighted ? 0.9 : 0.6 })
+            .bindTooltip(`Safety ${route.safety.safetyScore}/100 · ${Math.round(route.durationMin)} min`, { sticky: true })
+            .on('click', () => setSelectedRouteId(route.id));
+    });
+    if (routePlan) {
+        lines.push(L.marker([routePlan.destination.location.lat, routePlan.destination.location.lng]).bindPopup(`<strong>Destination:</strong> ${escapeHtml(routePlan.destination.name)}`));
+    }
+    routeLayerRef.current = L.layerGroup(lines).addTo(map);
+  }, [scoredRoutes, safestRouteId, selectedRouteId, routePlan, isMapSized]);
+
   useEffect(() => {
     const map = mapRef.current;
     if (!map) return;
     
     map.off('contextmenu').off('click');
 
-    if (isSettingZone) {
-      map.on('click', (e: any) => navigate('/settings', { state: { newZoneLocation: e.latlng } }));
+    if (isSettingZone && zoneShape === 'area') {
+      map.on('click', (e: any) => setZoneDraft(prev => [...prev, { lat: e.latlng.lat, lng: e.latlng.lng }]));
+    } else if (isSettingZone) {
+      map.on('click', (e: any) => navigate('/profile', { state: { newZoneLocation: e.latlng, zoneDraft: zoneDraftState } }));
     } else if (isSettingEvent) {
       map.on('click', (e: any) => navigate('/create-event', { state: { newEventLocation: e.latlng } }));
+    } else if (isSettingVibe) {
+      map.on('click', (e: any) => navigate('/', { state: { newVibeLocation: { lat: e.latlng.lat, lng: e.latlng.lng } } }));
     } else {
       map.on('contextmenu', async (e: any) => {
         setSummaryModalState({ isOpen: true, isLoading: true, summary: null, error: null });
         try {
             const clickedPoint = { lat: e.latlng.lat, lng: e.latlng.lng };
             const nearbyVibes = vibes.filter(vibe => 
-                haversineDistance(clickedPoint, vibe.location) <= 1
+                haversineDistance(clickedPoint, vibe.location) <= 1 && !isVibeExpired(vibe)
             );
             
             let prompt = `You are a local community safety assistant. Based on the following real-time vibe reports for a 1km radius, provide a concise summary and a practical safety tip. If there are no reports, say so and give a general safety tip.\n\n--- DATA ---\n`;
@@ -308,44 +631,127 @@ const MapWrapper: React.FC = () => {
         }
       });
     }
-  }, [isSettingZone, isSettingEvent, navigate, vibes]);
+  }, [isSettingZone, zoneShape, isSettingEvent, isSettingVibe, navigate, vibes, zoneDraftState]);
 
-  const handleFilterToggle = (vibeType: VibeType) => {
-    setHeatmapFilters(prevFilters => {
-        const newFilters = new Set(prevFilters);
-        if (newFilters.has(vibeType)) {
-            newFilters.delete(vibeType);
-        } else {
-            newFilters.add(vibeType);
-        }
-        return newFilters;
+  useEffect(() => {
+    if (!isSettingZone) {
+      setZoneDraft([]);
+      setZoneShape('circle');
+    }
+  }, [isSettingZone]);
+
+  // Previews the area being drawn: the outline closes into a polygon from the third vertex.
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    if (zoneDraftLayerRef.current) {
+        map.removeLayer(zoneDraftLayerRef.current);
+        zoneDraftLayerRef.current = null;
+    }
+    if (zoneDraft.length === 0) return;
+    const points = zoneDraft.map(v => [v.lat, v.lng]);
+    const style = { color: '#00E5FF', fillColor: '#00E5FF', fillOpacity: 0.15, weight: 2, dashArray: '6 4' };
+    const layers: any[] = points.map(point => L.circleMarker(point, { radius: 5, color: '#00E5FF', fillOpacity: 1, weight: 1 }));
+    layers.unshift(points.length >= 3 ? L.polygon(points, style) : L.polyline(points, style));
+    zoneDraftLayerRef.current = L.layerGroup(layers).addTo(map);
+  }, [zoneDraft]);
+
+  const handleLayersChange = (newLayers: MapLayerSettings) => {
+    updateUserSettings({ map: { ...userSettings.map, layers: newLayers } });
+  };
+
+  const handleTimelineToggle = () => {
+    setIsReplaying(false);
+    setTimeline(prev => {
+      if (prev) return null;
+      const now = Date.now();
+      return { range: '24h', end: now, cursor: now };
     });
   };
 
-  const handleFilterPanelToggle = () => {
-    setIsFilterPanelOpen(prev => !prev);
+  const handleTimelineRangeChange = (range: TimelineRange) => {
+    const now = Date.now();
+    setIsReplaying(false);
+    setTimeline({ range, end: now, cursor: now });
   };
 
-  const handleHeatmapEnableToggle = () => {
-    setShowHeatmap(currentShowHeatmap => {
-        const newShowHeatmap = !currentShowHeatmap;
-        if (!newShowHeatmap) {
-            setIsFilterPanelOpen(false);
-        }
-        return newShowHeatmap;
-    });
+  const handleReplayToggle = () => {
+    if (!timeline) return;
+    if (!isReplaying && timeline.cursor >= timeline.end) {
+      // Replay from the start of the range when play is pressed at the end.
+      setTimeline({ ...timeline, cursor: timeline.end - TIMELINE_RANGES[timeline.range].durationMs });
+    }
+    setIsReplaying(prev => !prev);
+  };
+
+  const handleRoutesPlanned = async (destination: GeocodedPlace, routes: WalkingRoute[]) => {
+    setSelectedRouteId(null);
+    setRoutePlan({ destination, routes, isPartialCoverage: false });
+    const bounds = L.latLngBounds(routes.flatMap(r => r.path.map(p => [p.lat, p.lng])));
+    mapRef.current?.fitBounds(bounds, { padding: [40, 40] });
+    // Make sure reports along the whole trip are loaded, not just the part that was in view.
+    const padded = bounds.pad(0.05);
+    const loaded = await loadArea({ north: padded.getNorth(), south: padded.getSouth(), east: padded.getEast(), west: padded.getWest() });
+    if (!loaded) setRoutePlan(prev => prev && { ...prev, isPartialCoverage: true });
+  };
+
+  const handleRoutePlannerClose = () => {
+    setIsRoutePlannerOpen(false);
+    setRoutePlan(null);
+    setSelectedRouteId(null);
+  };
+
+  const getRouteOrigin = () => {
+    if (currentLocation) return currentLocation;
+    const center = mapRef.current?.getCenter();
+    return center ? { lat: center.lat, lng: center.lng } : null;
+  };
+
+  const handleFinishZoneArea = () => {
+    if (zoneDraft.length < 3) return;
+    navigate('/profile', { state: { newZoneArea: zoneDraft, zoneDraft: zoneDraftState } });
   };
 
-  const currentMode = isSettingZone ? 'zone' : isSettingEvent ? 'event' : 'none';
+  const currentMode = isSettingZone ? 'zone' : isSettingEvent ? 'event' : isSettingVibe ? 'vibe' : 'none';
 
   return (
     <div className="h-full w-full relative">
-       {currentMode !== 'none' && (
+       {currentMode === 'event' && (
         <div className="absolute top-16 left-0 right-0 p-3 bg-brand-accent text-center text-brand-primary font-semibold z-[1001] animate-pulse">
-          {currentMode === 'zone' 
-            ? 'Click on the map to set the center of your new safe zone.'
-            : 'Click on the map to place your new community event.'
-          }
+          Click on the map to place your new community event.
+        </div>
+      )}
+      {currentMode === 'vibe' && (
+        <div className="absolute top-16 left-0 right-0 p-3 bg-brand-accent text-center text-brand-primary font-semibold z-[1001] space-y-1">
+          <p>Click on the map where you noticed this vibe.</p>
+          <button onClick={() => navigate('/', { state: { vibePickCancelled: true } })} className="text-sm underline">Cancel</button>
+        </div>
+      )}
+      {currentMode === 'zone' && (
+        <div className="absolute top-16 left-0 right-0 p-3 bg-brand-accent text-center text-brand-primary z-[1001] space-y-2">
+          <div className="flex justify-center space-x-1">
+            {(['circle', 'area'] as const).map(shape => (
+              <button
+                key={shape}
+                onClick={() => { setZoneShape(shape); setZoneDraft([]); }}
+                className={`text-xs font-bold px-3 py-1 rounded-md ${zoneShape === shape ? 'bg-brand-primary text-brand-accent' : 'bg-brand-primary/20'}`}
+              >
+                {shape === 'circle' ? 'Circle' : 'Draw Area'}
+              </button>
+            ))}
+          </div>
+          <p className="font-semibold">
+            {zoneShape === 'circle'
+              ? `Click on the map to set the center of ${zoneDraftState?.name ? `"${zoneDraftState.name}"` : 'your new safe zone'}.`
+              : `Click to add corners of the area (${zoneDraft.length} so far, at least 3).`}
+          </p>
+          {zoneShape === 'area' && (
+            <div className="flex justify-center space-x-4 text-sm font-semibold">
+              <button onClick={() => setZoneDraft(prev => prev.slice(0, -1))} disabled={zoneDraft.length === 0} className="underline disabled:opacity-50">Undo</button>
+              <button onClick={handleFinishZoneArea} disabled={zoneDraft.length < 3} className="underline disabled:opacity-50">Finish</button>
+              <button onClick={() => navigate('/profile', { state: zoneDraftState ? { zoneDraft: zoneDraftState } : undefined })} className="underline">Cancel</button>
+            </div>
+          )}
         </div>
       )}
 
@@ -383,6 +789,11 @@ const MapWrapper: React.FC = () => {
             }
         }
       `}</style>
+      {isAreaTooLarge && !dataError && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-[1000] px-3 py-1 rounded-full bg-brand-secondary/80 backdrop-blur-md text-xs text-text-secondary shadow-lg">
+          Zoom in to load activity for this area.
+        </div>
+      )}
       {dataError && (
         <div className="absolute top-16 left-0 right-0 z-[1000] p-4 bg-red-900/80 text-red-200 text-center text-sm backdrop-blur-sm">
           <p className="font-bold">Map Data Error</p>
@@ -393,52 +804,69 @@ const MapWrapper: React.FC = () => {
         <button onClick={() => mapRef.current?.locate({ setView: true, maxZoom: 16 })} className="bg-brand-secondary/80 backdrop-blur-md p-2 rounded-full shadow-lg">
           <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="#E6EDF3" className="w-6 h-6"><path d="M12 8.5a3.5 3.5 0 1 0 0 7 3.5 3.5 0 0 0 0-7Z" /><path fillRule="evenodd" d="M12 21a9 9 0 1 0 0-18 9 9 0 0 0 0 18Zm0-2.25a6.75 6.75 0 1 1 0-13.5 6.75 6.75 0 0 1 0 13.5Z" clipRule="evenodd" /></svg>
         </button>
-        <button onClick={handleFilterPanelToggle} className={`p-2 rounded-full shadow-lg transition-colors ${showHeatmap ? 'bg-brand-accent text-brand-primary' : 'bg-brand-secondary/80 backdrop-blur-md text-text-primary'}`}>
-          <FireIcon className="w-6 h-6" />
+        <button onClick={() => setIsLayerPanelOpen(prev => !prev)} aria-label="Map layers" className={`relative p-2 rounded-full shadow-lg transition-colors ${isLayerPanelOpen ? 'bg-brand-accent text-brand-primary' : 'bg-brand-secondary/80 backdrop-blur-md text-text-primary'}`}>
+          <Square3Stack3DIcon className="w-6 h-6" />
+          {hasActiveLayerFilters(layers) && <span className="absolute top-0 right-0 w-2.5 h-2.5 rounded-full bg-brand-danger" />}
+        </button>
+        <button onClick={() => isRoutePlannerOpen ? handleRoutePlannerClose() : setIsRoutePlannerOpen(true)} aria-label="Plan a safe route" className={`p-2 rounded-full shadow-lg transition-colors ${isRoutePlannerOpen ? 'bg-brand-accent text-brand-primary' : 'bg-brand-secondary/80 backdrop-blur-md text-text-primary'}`}>
+          <MapIcon className="w-6 h-6" />
+        </button>
+        <button onClick={() => setWalkModal({ destination: null })} aria-label="Walk with me" className="bg-brand-secondary/80 backdrop-blur-md text-text-primary p-2 rounded-full shadow-lg">
+          <ShieldCheckIcon className="w-6 h-6" />
+        </button>
+        <button onClick={handleTimelineToggle} aria-label="Replay activity" className={`p-2 rounded-full shadow-lg transition-colors ${timeline ? 'bg-brand-accent text-brand-primary' : 'bg-brand-secondary/80 backdrop-blur-md text-text-primary'}`}>
+          <ClockIcon className="w-6 h-6" />
         </button>
       </div>
 
-      {isFilterPanelOpen && (
-        <div className="absolute top-36 right-4 z-[1000] bg-brand-secondary/80 backdrop-blur-md border border-brand-accent/20 p-3 rounded-lg shadow-lg max-w-xs w-52 animate-fade-in-down">
-          <div className="flex justify-between items-center border-b border-gray-700 pb-2 mb-2">
-            <p className="text-sm font-semibold text-text-primary">Heatmap Options</p>
-            <button onClick={() => setIsFilterPanelOpen(false)} className="text-text-secondary hover:text-text-primary text-2xl leading-none">&times;</button>
-          </div>
-          
-          <label className="flex items-center justify-between cursor-pointer text-text-primary hover:text-white py-1">
-            <span className="text-sm font-medium">Enable Heatmap</span>
-            <div className="relative">
-                <input
-                    type="checkbox"
-                    checked={showHeatmap}
-                    onChange={handleHeatmapEnableToggle}
-                    className="sr-only peer"
-                />
-                <div className="w-11 h-6 bg-gray-600 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-brand-accent"></div>
-            </div>
-          </label>
-
-          <div className={`mt-2 transition-opacity ${showHeatmap ? 'opacity-100' : 'opacity-50 pointer-events-none'}`}>
-             <p className="text-sm font-semibold mb-2 text-text-primary pt-2 border-t border-gray-700">Vibe Filters</p>
-             <div className="flex flex-col space-y-1">
-                {Object.entries(VIBE_CONFIG).map(([vibeType, config]) => (
-                  <label key={vibeType} className="flex items-center space-x-2 cursor-pointer text-text-secondary hover:text-text-primary">
-                    <input
-                      type="checkbox"
-                      checked={heatmapFilters.has(vibeType as VibeType)}
-                      onChange={() => handleFilterToggle(vibeType as VibeType)}
-                      className="form-checkbox h-4 w-4 rounded bg-gray-700 border-gray-600 text-brand-accent focus:ring-brand-accent"
-                    />
-                    <span className="text-sm">{config.displayName}</span>
-                  </label>
-                ))}
-            </div>
-          </div>
-        </div>
+      {timeline && (
+        <TimelineControl
+          range={timeline.range}
+          cursor={timeline.cursor}
+          end={timeline.end}
+          isPlaying={isReplaying}
+          visibleCount={visibleVibes.length + visibleSos.length + visibleEvents.length}
+          onRangeChange={handleTimelineRangeChange}
+          onCursorChange={cursor => { setIsReplaying(false); setTimeline({ ...timeline, cursor }); }}
+          onTogglePlay={handleReplayToggle}
+          onClose={handleTimelineToggle}
+        />
+      )}
+
+      {isRoutePlannerOpen && (
+        <RoutePlanner
+          routes={scoredRoutes}
+          safestRouteId={safestRouteId}
+          selectedRouteId={selectedRouteId || safestRouteId}
+          isPartialCoverage={!!routePlan?.isPartialCoverage}
+          getOrigin={getRouteOrigin}
+          onPlanned={handleRoutesPlanned}
+          onSelect={setSelectedRouteId}
+          onWalkRoute={(route, destination) => setWalkModal({ destination, minutes: route.durationMin * 1.25 + 5 })}
+          onClose={handleRoutePlannerClose}
+        />
+      )}
+
+      {isLayerPanelOpen && (
+        <LayerControl
+          layers={layers}
+          showHeatmap={showHeatmap}
+          vibeLabels={VIBE_LABELS}
+          onChange={handleLayersChange}
+          onHeatmapToggle={() => setShowHeatmap(prev => !prev)}
+          onClose={() => setIsLayerPanelOpen(false)}
+        />
       )}
 
       <AreaSummaryModal {...summaryModalState} onClose={() => setSummaryModalState({ isOpen: false, isLoading: false, summary: null, error: null })} />
       <SOSModal isOpen={isSosModalOpen} onClose={() => setIsSosModalOpen(false)} />
+      <WalkWithMeModal
+        isOpen={!!walkModal}
+        onClose={() => setWalkModal(null)}
+        initialDestination={walkModal?.destination}
+        initialMinutes={walkModal?.minutes}
+      />
+      <ReportContentModal target={reportTarget} onClose={() => setReportTarget(null)} />
     </div>
   );
 };
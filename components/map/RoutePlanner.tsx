@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import type { Location } from '../../types';
+import { getRoutingProvider, geocodeDestination, GeocodedPlace, WalkingRoute } from '../../services/routingService';
+import type { RouteSafety } from '../../utils/routeSafety';
+
+export type ScoredRoute = WalkingRoute & { safety: RouteSafety };
+
+const MAX_ROUTES = 3;
+
+interface RoutePlannerProps {
+    routes: ScoredRoute[];
+    safestRouteId: string | null;
+    selectedRouteId: string | null;
+    isPartialCoverage: boolean;
+    getOrigin: () => Location | null;
+    onPlanned: (destination: GeocodedPlace, routes: WalkingRoute[]) => void;
+    onSelect: (routeId: string) => void;
+    onWalkRoute: (route: ScoredRoute, destination: GeocodedPlace) => void;
+    onClose: () => void;
+}
+
+const scoreClass = (score: number) => score >= 75 ? 'text-emerald-400' : score >= 45 ? 'text-yellow-400' : 'text-red-400';
+
+const RoutePlanner: React.FC<RoutePlannerProps> = ({
+    routes, safestRouteId, selectedRouteId, isPartialCoverage, getOrigin, onPlanned, onSelect, onWalkRoute, onClose,
+}) => {
+    const [query, setQuery] = useState('');
+    const [candidates, setCandidates] = useState<GeocodedPlace[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [destination, setDestination] = useState<GeocodedPlace | null>(null);
+
+    const selectedRoute = routes.find(r => r.id === selectedRouteId);
+
+    const planTo = async (place: GeocodedPlace) => {
+        const origin = getOrigin();
+        if (!origin) {
+            setError("Your location isn't available yet.");
+            return;
+        }
+        setCandidates([]);
+        setIsLoading(true);
+        setError(null);
+        try {
+            const found = await getRoutingProvider().getWalkingRoutes(origin, place.location, MAX_ROUTES);
+            if (found.length === 0) throw new Error('No walking route found.');
+            setDestination(place);
+            onPlanned(place, found);
+        } catch (err: any) {
+            console.error("Route planning failed:", err);
+            setError(err.message || 'Could not plan a route.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleSearch = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!query.trim()) return;
+        setIsLoading(true);
+        setError(null);
+        try {
+            const places = await geocodeDestination(query.trim(), getOrigin());
+            if (places.length === 0) {
+                setError('No places matched that search.');
+            } else if (places.length === 1) {
+                await planTo(places[0]);
+            } else {
+                setCandidates(places);
+            }
+        } catch (err: any) {
+            console.error("Destination lookup failed:", err);
+            setError(err.message || 'Could not look up that destination.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="absolute top-20 left-4 right-20 sm:right-auto sm:w-80 z-[1000] bg-brand-secondary/80 backdrop-blur-md border border-brand-accent/20 p-3 rounded-lg shadow-lg animate-fade-in-down">
+            <div className="flex justify-between items-center mb-2">
+                <p className="text-sm font-semibold text-text-primary">Safe Route</p>
+                <button onClick={onClose} className="text-text-secondary hover:text-text-primary text-2xl leading-none" aria-label="Close route planner">&times;</button>
+            </div>
+            <form onSubmit={handleSearch} className="flex space-x-2">
+                <input
+                    type="text"
+                    value={query}
+                    onChange={e => setQuery(e.target.value)}
+                    placeholder="Where are you walking to?"
+                    className="flex-1 bg-brand-primary border border-gray-600 rounded-md px-2 py-1 text-sm text-text-primary focus:ring-brand-accent focus:border-brand-accent"
+                />
+                <button type="submit" disabled={isLoading} className="bg-brand-accent text-brand-primary text-sm font-semibold px-3 rounded-md disabled:opacity-50">
+                    {isLoading ? '...' : 'Go'}
+                </button>
+            </form>
+            {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+
+            {candidates.length > 0 && (
+                <ul className="mt-2 max-h-40 overflow-y-auto divide-y divide-gray-700">
+                    {candidates.map(place => (
+                        <li key={`${place.location.lat},${place.location.lng}`}>
+                            <button onClick={() => planTo(place)} className="w-full text-left text-xs text-text-secondary hover:text-text-primary py-1.5">
+                                {place.name}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {routes.length > 0 && (
+                <div className="mt-3 space-y-2">
+                    {routes.map((route, index) => (
+                        <button
+                            key={route.id}
+                            onClick={() => onSelect(route.id)}
+                            className={`w-full text-left p-2 rounded-md border transition-colors ${route.id === selectedRouteId ? 'border-brand-accent bg-brand-primary' : 'border-gray-700 hover:bg-gray-700/50'}`}
+                        >
+                            <div className="flex justify-between items-center">
+                                <span className="text-sm font-semibold text-text-primary">
+                                    Route {index + 1}
+                                    {route.id === safestRouteId && <span className="ml-2 text-xs font-bold text-emerald-400">SAFEST</span>}
+                                </span>
+                                <span className={`text-sm font-bold ${scoreClass(route.safety.safetyScore)}`}>{route.safety.safetyScore}/100</span>
+                            </div>
+                            <p className="text-xs text-text-secondary">
+                                {route.distanceKm.toFixed(1)} km · {Math.round(route.durationMin)} min · {route.safety.vibeCount} reports · {route.safety.sosCount} open SOS
+                            </p>
+                        </button>
+                    ))}
+                    {destination && selectedRoute && (
+                        <button
+                            onClick={() => onWalkRoute(selectedRoute, destination)}
+                            className="w-full bg-brand-accent text-brand-primary text-sm font-semibold py-2 rounded-md hover:bg-cyan-400"
+                        >
+                            Walk this route with check-in
+                        </button>
+                    )}
+                    {isPartialCoverage && <p className="text-xs text-yellow-400">Part of this trip is outside the loaded area, so some reports may not be counted.</p>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RoutePlanner;
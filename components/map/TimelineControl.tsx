@@ -0,0 +1,81 @@
+import React from 'react';
+import { PlayIcon, PauseIcon } from '../ui/Icons';
+
+export type TimelineRange = '24h' | '7d' | '30d';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// `windowMs` is how much history is shown at each slider position; `stepMs` is one playback tick.
+export const TIMELINE_RANGES: Record<TimelineRange, { label: string; durationMs: number; windowMs: number; stepMs: number }> = {
+    '24h': { label: '24h', durationMs: 24 * HOUR_MS, windowMs: 2 * HOUR_MS, stepMs: 15 * 60 * 1000 },
+    '7d': { label: '7d', durationMs: 7 * 24 * HOUR_MS, windowMs: 12 * HOUR_MS, stepMs: 2 * HOUR_MS },
+    '30d': { label: '30d', durationMs: 30 * 24 * HOUR_MS, windowMs: 2 * 24 * HOUR_MS, stepMs: 8 * HOUR_MS },
+};
+
+interface TimelineControlProps {
+    range: TimelineRange;
+    cursor: number;
+    end: number;
+    isPlaying: boolean;
+    visibleCount: number;
+    onRangeChange: (range: TimelineRange) => void;
+    onCursorChange: (cursor: number) => void;
+    onTogglePlay: () => void;
+    onClose: () => void;
+}
+
+const formatCursor = (cursor: number, range: TimelineRange) =>
+    new Date(cursor).toLocaleString(undefined, range === '24h'
+        ? { hour: '2-digit', minute: '2-digit' }
+        : { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit' });
+
+const TimelineControl: React.FC<TimelineControlProps> = ({
+    range, cursor, end, isPlaying, visibleCount, onRangeChange, onCursorChange, onTogglePlay, onClose,
+}) => {
+    const config = TIMELINE_RANGES[range];
+    const start = end - config.durationMs;
+
+    return (
+        <div className="absolute bottom-24 left-4 right-24 z-[1000] bg-brand-secondary/80 backdrop-blur-md border border-brand-accent/20 p-3 rounded-lg shadow-lg animate-fade-in-down">
+            <div className="flex justify-between items-center mb-2">
+                <div className="flex space-x-1 bg-brand-primary p-1 rounded-lg">
+                    {(Object.keys(TIMELINE_RANGES) as TimelineRange[]).map(key => (
+                        <button
+                            key={key}
+                            onClick={() => onRangeChange(key)}
+                            className={`text-xs font-semibold px-3 py-1 rounded-md transition-colors ${range === key ? 'bg-brand-accent text-brand-primary' : 'text-text-secondary hover:bg-gray-700'}`}
+                        >
+                            {TIMELINE_RANGES[key].label}
+                        </button>
+                    ))}
+                </div>
+                <button onClick={onClose} className="text-text-secondary hover:text-text-primary text-2xl leading-none" aria-label="Close timeline">&times;</button>
+            </div>
+            <div className="flex items-center space-x-3">
+                <button
+                    onClick={onTogglePlay}
+                    className="bg-brand-accent text-brand-primary rounded-full p-2 flex-shrink-0 hover:bg-cyan-400"
+                    aria-label={isPlaying ? 'Pause replay' : 'Play replay'}
+                >
+                    {isPlaying ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+                </button>
+                <input
+                    type="range"
+                    min={start}
+                    max={end}
+                    step={config.stepMs}
+                    value={cursor}
+                    onChange={e => onCursorChange(Number(e.target.value))}
+                    className="flex-grow h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                    aria-label="Replay time"
+                />
+            </div>
+            <div className="flex justify-between text-xs text-text-secondary mt-2">
+                <span className="font-semibold text-text-primary">{formatCursor(cursor, range)}</span>
+                <span>{visibleCount} report{visibleCount === 1 ? '' : 's'} in view</span>
+            </div>
+        </div>
+    );
+};
+
+export default TimelineControl;
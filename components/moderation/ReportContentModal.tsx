@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { flagContent, FLAG_REASON_LABELS, FLAG_TARGET_LABELS } from '../../services/moderation';
+import { useNotification } from '../../contexts/NotificationContext';
+import type { FlagReason, FlagTargetType } from '../../types';
+
+export interface ReportTarget {
+  type: FlagTargetType;
+  id: string | number;
+  label: string; // Shown in the modal so the user knows what they're reporting.
+  authorId?: string | null; // Lets an offensive username be reported from the author's post.
+}
+
+interface ReportContentModalProps {
+  target: ReportTarget | null;
+  onClose: () => void;
+}
+
+const MAX_DETAILS_LENGTH = 500;
+
+const ReportContentModal: React.FC<ReportContentModalProps> = ({ target, onClose }) => {
+  const [reason, setReason] = useState<FlagReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { showNotification } = useNotification();
+
+  useEffect(() => {
+    setReason(null);
+    setDetails('');
+    setError(null);
+  }, [target]);
+
+  if (!target) return null;
+
+  const canReportName = target.type === 'profile' || !!target.authorId;
+  const reasons = (Object.keys(FLAG_REASON_LABELS) as FlagReason[]).filter(r => r !== 'offensive_name' || canReportName);
+
+  const handleSubmit = async () => {
+    if (!reason) {
+      setError('Please choose a reason.');
+      return;
+    }
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      // A bad username belongs to the author, not to the post it was seen on.
+      if (reason === 'offensive_name' && target.type !== 'profile' && target.authorId) {
+        await flagContent('profile', target.authorId, reason, details);
+      } else {
+        await flagContent(target.type, target.id, reason, details);
+      }
+      showNotification('Thanks. A moderator will review your report.', 'info');
+      onClose();
+    } catch (err: any) {
+      console.error('Error reporting content:', err);
+      setError(err.message || 'Could not send your report. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[2000] p-4" onClick={onClose}>
+      <div
+        className="bg-brand-secondary/80 backdrop-blur-lg border border-brand-accent/20 rounded-lg shadow-xl w-full max-w-md relative animate-fade-in-down"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 space-y-4">
+          <div className="text-center">
+            <h2 className="text-2xl font-bold text-text-primary">Report {FLAG_TARGET_LABELS[target.type]}</h2>
+            <p className="text-sm text-text-secondary truncate">{target.label}</p>
+          </div>
+          {error && <p className="bg-red-900/50 text-red-300 p-3 rounded-md text-sm text-center">{error}</p>}
+          <div className="space-y-2">
+            {reasons.map(r => (
+              <label key={r} className="flex items-center space-x-3 bg-brand-primary p-3 rounded-md cursor-pointer">
+                <input type="radio" name="flag-reason" checked={reason === r} onChange={() => setReason(r)} />
+                <span className="text-text-primary text-sm">{FLAG_REASON_LABELS[r]}</span>
+              </label>
+            ))}
+          </div>
+          <textarea
+            value={details}
+            onChange={e => setDetails(e.target.value.slice(0, MAX_DETAILS_LENGTH))}
+            placeholder="Anything the moderators should know? (optional)"
+            rows={3}
+            className="w-full bg-brand-primary border border-gray-600 rounded-md p-2 text-sm text-text-primary focus:ring-brand-accent focus:border-brand-accent"
+          />
+          <div className="flex gap-3">
+            <button onClick={onClose} className="flex-1 bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md">
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+              className="flex-1 bg-brand-danger hover:bg-red-700 text-white font-bold py-2 px-4 rounded-md disabled:opacity-50"
+            >
+              {isSubmitting ? 'Sending...' : 'Send report'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportContentModal;
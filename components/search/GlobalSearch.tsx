@@ -1,74 +1,245 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef, useContext } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { supabase } from '../../services/supabaseClient';
+import { geocodeDestination } from '../../services/routingService';
+import { AuthContext } from '../../contexts/AuthContext';
 import { useData } from '../../contexts/DataContext';
-import { SearchIcon } from '../ui/Icons';
-import type { Event as CommunityEvent, Location } from '../../types';
+import { useNotification } from '../../contexts/NotificationContext';
+import { SearchIcon, BellAlertIcon, ClockIcon, TrashIcon } from '../ui/Icons';
+import type { Location, SafeZone, SOSStatus } from '../../types';
+import { parseLocationFromGeoJSON } from '../../utils/geolocation';
+import { getSOSStatus, SOS_STATUS_CONFIG } from '../../utils/sos';
+import { timeAgo } from '../../utils/time';
+import { scoreFields, groupSearchResults, toApproximateArea, SEARCH_GROUP_LABELS, SearchResult } from '../../utils/search';
 
-interface SearchResult {
-    id: string;
-    type: 'event';
-    title: string;
-    description: string;
-    location: Location;
-}
+const RESULTS_PER_GROUP = 5;
+const REMOTE_MIN_LENGTH = 3; // Shorter queries only search what's already loaded.
+const REMOTE_DEBOUNCE_MS = 300;
+const MAX_RECENT_QUERIES = 8;
+const WATCHED_PLACE_RADIUS_KM = 0.5;
 
 const GlobalSearch: React.FC = () => {
     const [isOpen, setIsOpen] = useState(false);
     const [query, setQuery] = useState('');
-    const { events } = useData();
+    const [activeIndex, setActiveIndex] = useState(0);
+    const [remoteResults, setRemoteResults] = useState<SearchResult[]>([]);
+    const [isSearchingRemote, setIsSearchingRemote] = useState(false);
+    const [ownZones, setOwnZones] = useState<SafeZone[]>([]);
+    const [isLocating, setIsLocating] = useState(false);
+    const [selectError, setSelectError] = useState<string | null>(null);
+    const { user } = useContext(AuthContext) || {};
+    const { events, aiEvents, sos, vibes, currentLocation, userSettings, updateUserSettings } = useData();
+    const { showNotification } = useNotification();
     const navigate = useNavigate();
+    const listRef = useRef<HTMLUListElement>(null);
+    // Read through a ref so location updates while typing don't restart the remote search.
+    const currentLocationRef = useRef(currentLocation);
+    currentLocationRef.current = currentLocation;
 
-    const searchResults = useMemo(() => {
-        if (!query.trim()) {
-            return [];
+    // The user's own zones are few, so they're fetched whole whenever the search opens.
+    useEffect(() => {
+        if (!isOpen || !user) return;
+        supabase.from('safe_zones').select('id, user_id, name, location, radius_km, kind, query').eq('user_id', user.id)
+            .then(({ data, error }) => {
+                if (error) console.error("Could not load safe zones for search:", error.message);
+                else setOwnZones(data || []);
+            });
+    }, [isOpen, user]);
+
+    // Everything already loaded is matched instantly as the user types.
+    const localResults = useMemo(() => {
+        const q = query.trim();
+        if (!q) return [];
+        const results: SearchResult[] = [];
+
+        for (const event of events) {
+            const score = scoreFields(q, [[event.title, 1], [event.description, 0.6]]);
+            if (score > 0) results.push({ id: `event-${event.id}`, type: 'event', title: event.title, subtitle: `${new Date(event.event_time).toLocaleString()} · ${event.description}`, location: event.location, score });
+        }
+        aiEvents.forEach((event, index) => {
+            const score = scoreFields(q, [[event.eventName, 1], [event.description, 0.6], [event.locationString, 0.6]]);
+            if (score > 0) results.push({ id: `ai-${index}`, type: 'aiEvent', title: event.eventName, subtitle: `${event.date} · ${event.locationString}`, location: null, locationQuery: event.locationString, score });
+        });
+        for (const zone of ownZones) {
+            const location = parseLocationFromGeoJSON(zone.location);
+            const score = scoreFields(q, [[zone.name, 1]]);
+            if (score > 0 && location) results.push({ id: `zone-${zone.id}`, type: 'safeZone', title: zone.name, subtitle: zone.kind === 'watched' ? 'Watched place' : 'Your safe zone', location, score });
+        }
+        for (const alert of sos) {
+            const score = scoreFields(q, [[alert.details, 0.9]]);
+            if (score > 0) results.push({ id: `sos-${alert.id}`, type: 'sos', title: alert.details, subtitle: `${SOS_STATUS_CONFIG[getSOSStatus(alert)].label} · ${timeAgo(alert.created_at)}`, location: alert.location, score });
         }
 
-        const lowerCaseQuery = query.toLowerCase();
-        const eventResults: SearchResult[] = events
-            .filter((event: CommunityEvent) => 
-                event.title.toLowerCase().includes(lowerCaseQuery) || 
-                event.description.toLowerCase().includes(lowerCaseQuery)
-            )
-            .map((event: CommunityEvent) => ({
-                id: `event-${event.id}`,
-                type: 'event',
-                title: event.title,
-                description: event.description,
-                location: event.location,
-            }));
-        
-        return eventResults.slice(0, 10);
-    }, [query, events]);
-
-    const handleSelectResult = (result: SearchResult) => {
-        setIsOpen(false);
-        setQuery('');
-        if (result.type === 'event') {
-            navigate('/', { state: { flyToLocation: result.location } });
+        // People are found through their public posts and shown in the rough area of the most recent one.
+        const latestByUser = new Map<string, { location: Location; at: string }>();
+        for (const record of [...vibes, ...events]) {
+            const username = record.profiles?.username;
+            if (!username || username === 'You') continue;
+            const latest = latestByUser.get(username);
+            if (!latest || record.created_at > latest.at) latestByUser.set(username, { location: record.location, at: record.created_at });
         }
-    };
+        for (const [username, latest] of latestByUser) {
+            const score = scoreFields(q, [[username, 1]]);
+            if (score > 0) results.push({ id: `user-${username}`, type: 'user', title: username, subtitle: 'Posts in this area', location: toApproximateArea(latest.location), isApproximate: true, score });
+        }
+        return results;
+    }, [query, events, aiEvents, ownZones, sos, vibes]);
+
+    // Records outside the loaded area and street addresses come from the server and the geocoder.
+    useEffect(() => {
+        const q = query.trim();
+        setRemoteResults([]);
+        if (q.length < REMOTE_MIN_LENGTH) return;
+        let isCancelled = false;
+        const timer = setTimeout(async () => {
+            setIsSearchingRemote(true);
+            const [rpc, places] = await Promise.allSettled([
+                supabase.rpc('global_search', { p_query: q }),
+                geocodeDestination(q, currentLocationRef.current),
+            ]);
+            if (isCancelled) return;
+            const results: SearchResult[] = [];
+            if (rpc.status === 'fulfilled' && !rpc.value.error) {
+                for (const hit of rpc.value.data || []) {
+                    const location = parseLocationFromGeoJSON(hit.location);
+                    if (!location) continue;
+                    const subtitle = hit.kind === 'sos' ? SOS_STATUS_CONFIG[hit.subtitle as SOSStatus]?.label || 'SOS' : hit.subtitle || '';
+                    const id = hit.kind === 'user' ? `user-${hit.title}` : `${hit.kind === 'safeZone' ? 'zone' : hit.kind}-${hit.id}`;
+                    results.push({ id, type: hit.kind, title: hit.title, subtitle, location, isApproximate: hit.kind === 'user', score: Math.min(1, hit.rank) });
+                }
+            } else {
+                console.error("Global search failed:", rpc.status === 'fulfilled' ? rpc.value.error?.message : rpc.reason);
+            }
+            if (places.status === 'fulfilled') {
+                places.value.forEach(place => {
+                    const [name, ...rest] = place.name.split(', ');
+                    results.push({ id: `address-${place.location.lat},${place.location.lng}`, type: 'address', title: name, subtitle: rest.join(', '), location: place.location, score: 0.5 });
+                });
+            } else {
+                console.error("Address lookup failed:", places.reason);
+            }
+            setRemoteResults(results);
+            setIsSearchingRemote(false);
+        }, REMOTE_DEBOUNCE_MS);
+        return () => { isCancelled = true; clearTimeout(timer); setIsSearchingRemote(false); };
+    }, [query]);
+
+    const groups = useMemo(
+        () => groupSearchResults([...localResults, ...remoteResults], currentLocation, RESULTS_PER_GROUP),
+        [localResults, remoteResults, currentLocation]
+    );
+    const flatResults = useMemo(() => groups.flatMap(group => group.results), [groups]);
+
+    useEffect(() => {
+        setActiveIndex(0);
+        setSelectError(null);
+    }, [query]);
+
+    useEffect(() => {
+        listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex]);
 
-    const handleOpen = () => {
-        setIsOpen(true);
+    const watchedPlaces = useMemo(() => ownZones.filter(zone => zone.kind === 'watched'), [ownZones]);
+    const recentQueries = userSettings.search.recentQueries;
+
+    const rememberQuery = (q: string) => {
+        if (!user || !q) return;
+        const recent = [q, ...recentQueries.filter(r => r.toLowerCase() !== q.toLowerCase())].slice(0, MAX_RECENT_QUERIES);
+        updateUserSettings({ search: { ...userSettings.search, recentQueries: recent } });
     };
-    
+
     const handleClose = () => {
         setIsOpen(false);
         setQuery('');
     };
 
+    // Results that only carry an address, like AI events, are geocoded when picked.
+    const resolveLocation = async (result: SearchResult): Promise<Location | null> => {
+        let location = result.location;
+        if (!location && result.locationQuery) {
+            setIsLocating(true);
+            try {
+                location = (await geocodeDestination(result.locationQuery, currentLocation))[0]?.location ?? null;
+            } catch (err) {
+                console.error("Could not locate search result:", err);
+            } finally {
+                setIsLocating(false);
+            }
+        }
+        if (!location) setSelectError(`Couldn't find "${result.title}" on the map.`);
+        return location;
+    };
+
+    const handleSelectResult = async (result: SearchResult) => {
+        const location = await resolveLocation(result);
+        if (!location) return;
+        rememberQuery(query.trim());
+        handleClose();
+        navigate('/', { state: { flyToLocation: location, flyToArea: result.isApproximate } });
+    };
+
+    const flyToWatchedPlace = (zone: SafeZone) => {
+        const location = parseLocationFromGeoJSON(zone.location);
+        if (!location) return;
+        handleClose();
+        navigate('/', { state: { flyToLocation: location } });
+    };
+
+    const handleWatch = async (result: SearchResult) => {
+        if (!user) return alert("Please sign in to watch places.");
+        const location = await resolveLocation(result);
+        if (!location) return;
+        const { data, error } = await supabase.from('safe_zones').insert({
+            user_id: user.id,
+            kind: 'watched',
+            name: result.title,
+            query: query.trim() || null,
+            radius_km: WATCHED_PLACE_RADIUS_KM,
+            location: `SRID=4326;POINT(${location.lng} ${location.lat})`,
+        }).select('id, user_id, name, location, radius_km, kind, query').single();
+        if (error) { alert(error.message); return; }
+        setOwnZones(prev => [...prev, data]);
+        rememberQuery(query.trim());
+        showNotification(`Watching "${result.title}". You'll be alerted about reports nearby.`, 'info');
+    };
+
+    const handleUnwatch = async (zone: SafeZone) => {
+        if (!window.confirm(`Stop watching "${zone.name}"?`)) return;
+        const { error } = await supabase.from('safe_zones').delete().eq('id', zone.id);
+        if (error) { alert(error.message); return; }
+        setOwnZones(prev => prev.filter(z => z.id !== zone.id));
+    };
+
+    const isWatched = (result: SearchResult) =>
+        result.type === 'safeZone' || watchedPlaces.some(zone => zone.name === result.title);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setActiveIndex(i => Math.min(i + 1, flatResults.length - 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex(i => Math.max(i - 1, 0));
+        } else if (e.key === 'Enter' && flatResults[activeIndex]) {
+            e.preventDefault();
+            handleSelectResult(flatResults[activeIndex]);
+        } else if (e.key === 'Escape') {
+            handleClose();
+        }
+    };
+
     return (
         <div>
-            <button onClick={handleOpen} aria-label="Open search">
+            <button onClick={() => setIsOpen(true)} aria-label="Open search">
                 <SearchIcon className="w-6 h-6 text-text-secondary hover:text-text-primary transition-colors" />
             </button>
 
             {isOpen && (
-                <div 
+                <div
                     className="fixed inset-0 bg-black/60 z-[9998]"
                     onClick={handleClose}
                 >
-                    <div 
+                    <div
                         className="absolute top-0 left-0 right-0 bg-brand-secondary/90 backdrop-blur-md border-b border-brand-accent/20 shadow-lg animate-fade-in-down"
                         onClick={e => e.stopPropagation()}
                     >
@@ -77,33 +248,98 @@ const GlobalSearch: React.FC = () => {
                                 <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-text-secondary" />
                                 <input
                                     type="text"
-                                    placeholder="Search for events..."
+                                    placeholder="Search events, places, people, safe zones..."
                                     value={query}
                                     onChange={e => setQuery(e.target.value)}
+                                    onKeyDown={handleKeyDown}
                                     autoFocus
+                                    role="combobox"
+                                    aria-expanded={flatResults.length > 0}
+                                    aria-controls="global-search-results"
+                                    aria-activedescendant={flatResults[activeIndex] ? `search-result-${activeIndex}` : undefined}
                                     className="w-full bg-brand-primary border border-gray-600 rounded-md py-2 pl-10 pr-4 text-text-primary focus:outline-none focus:ring-2 focus:ring-brand-accent"
                                 />
                             </div>
+                            {selectError && <p className="text-xs text-red-400 mt-2">{selectError}</p>}
+                            {isLocating && <p className="text-xs text-text-secondary mt-2">Finding it on the map...</p>}
 
-                            {query.trim() && (
-                                <div className="mt-4 max-h-80 overflow-y-auto">
-                                    {searchResults.length > 0 ? (
-                                        <ul className="space-y-2">
-                                            {searchResults.map(result => (
-                                                <li key={result.id}>
-                                                    <button 
-                                                        onClick={() => handleSelectResult(result)}
-                                                        className="w-full text-left p-3 bg-brand-primary/50 hover:bg-brand-accent/20 rounded-md transition-colors"
-                                                    >
-                                                        <p className="font-semibold">{result.title}</p>
-                                                        <p className="text-xs text-text-secondary truncate">{result.description}</p>
+                            {!query.trim() && (recentQueries.length > 0 || watchedPlaces.length > 0) && (
+                                <div className="mt-4 max-h-96 overflow-y-auto space-y-3">
+                                    {recentQueries.length > 0 && (
+                                        <div>
+                                            <div className="flex justify-between items-center mb-1">
+                                                <p className="text-xs font-semibold uppercase tracking-wide text-text-secondary">Recent Searches</p>
+                                                <button onClick={() => updateUserSettings({ search: { ...userSettings.search, recentQueries: [] } })} className="text-xs text-text-secondary hover:text-text-primary">Clear</button>
+                                            </div>
+                                            <div className="flex flex-wrap gap-2">
+                                                {recentQueries.map(recent => (
+                                                    <button key={recent} onClick={() => setQuery(recent)} className="flex items-center space-x-1 text-sm bg-brand-primary/50 hover:bg-brand-accent/20 rounded-full px-3 py-1">
+                                                        <ClockIcon className="w-4 h-4 text-text-secondary" /><span>{recent}</span>
                                                     </button>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    )}
+                                    {watchedPlaces.length > 0 && (
+                                        <div>
+                                            <p className="text-xs font-semibold uppercase tracking-wide text-text-secondary mb-1">Watched Places</p>
+                                            <ul className="space-y-1">
+                                                {watchedPlaces.map(zone => (
+                                                    <li key={zone.id} className="flex items-center bg-brand-primary/50 hover:bg-brand-accent/20 rounded-md">
+                                                        <button onClick={() => flyToWatchedPlace(zone)} className="flex-1 min-w-0 text-left p-3">
+                                                            <p className="font-semibold truncate">{zone.name}</p>
+                                                            {zone.query && <p className="text-xs text-text-secondary truncate">Searched for "{zone.query}"</p>}
+                                                        </button>
+                                                        <button onClick={() => handleUnwatch(zone)} className="p-3 text-text-secondary hover:text-brand-danger" aria-label={`Stop watching ${zone.name}`}>
+                                                            <TrashIcon className="w-5 h-5" />
+                                                        </button>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
+                            {query.trim() && (
+                                <div className="mt-4 max-h-96 overflow-y-auto">
+                                    {flatResults.length > 0 ? (
+                                        <ul id="global-search-results" ref={listRef} role="listbox" className="space-y-3">
+                                            {groups.map(group => (
+                                                <li key={group.type}>
+                                                    <p className="text-xs font-semibold uppercase tracking-wide text-text-secondary mb-1">{SEARCH_GROUP_LABELS[group.type]}</p>
+                                                    <ul className="space-y-1">
+                                                        {group.results.map(result => {
+                                                            const index = flatResults.indexOf(result);
+                                                            return (
+                                                                <li
+                                                                    key={result.id}
+                                                                    id={`search-result-${index}`}
+                                                                    data-index={index}
+                                                                    role="option"
+                                                                    aria-selected={index === activeIndex}
+                                                                    onMouseEnter={() => setActiveIndex(index)}
+                                                                    className={`flex items-center rounded-md transition-colors ${index === activeIndex ? 'bg-brand-accent/20' : 'bg-brand-primary/50'}`}
+                                                                >
+                                                                    <button onClick={() => handleSelectResult(result)} className="flex-1 min-w-0 text-left p-3">
+                                                                        <p className="font-semibold truncate">{result.title}</p>
+                                                                        <p className="text-xs text-text-secondary truncate">{result.subtitle}</p>
+                                                                    </button>
+                                                                    {!isWatched(result) && (
+                                                                        <button onClick={() => handleWatch(result)} className="p-3 text-text-secondary hover:text-brand-accent" aria-label={`Watch ${result.title}`} title="Watch this place">
+                                                                            <BellAlertIcon className="w-5 h-5" />
+                                                                        </button>
+                                                                    )}
+                                                                </li>
+                                                            );
+                                                        })}
+                                                    </ul>
                                                 </li>
                                             ))}
                                         </ul>
                                     ) : (
                                         <div className="text-center p-4 text-text-secondary">
-                                            No results found for "{query}".
+                                            {isSearchingRemote ? 'Searching...' : `No results found for "${query}".`}
                                         </div>
                                     )}
                                 </div>
@@ -1,11 +1,14 @@
 import React, { useState, useEffect, useRef, useContext, useCallback } from 'react';
 import { GoogleGenAI, LiveServerMessage, Modality, Blob, FunctionDeclaration, Type } from '@google/genai';
 import { decode, decodeAudioData, encode } from '../../utils/audio';
-import { supabase } from '../../services/supabaseClient';
 import { AuthContext } from '../../contexts/AuthContext';
 import { useData } from '../../contexts/DataContext';
-import { Vibe, VibeType, Location, SOS, Event } from '../../types';
+import { VibeType, Location, SOS, Event } from '../../types';
 import { haversineDistance } from '../../utils/geolocation';
+import { summarizeVibes } from '../../utils/decay';
+import { describeVibeDetails, hasVibeDetails } from '../../utils/vibeDetails';
+import { getSOSStatus, isSOSActive, isSOSVisibleOnMap } from '../../utils/sos';
+import { sendSOS } from '../../services/sosService';
 
 interface LiveAssistantModalProps {
   isOpen: boolean;
@@ -26,7 +29,7 @@ interface LiveSession {
 const LiveAssistantModal: React.FC<LiveAssistantModalProps> = ({ isOpen, onClose }) => {
     const [status, setStatus] = useState('Initializing...');
     const [transcription, setTranscription] = useState<TranscriptionEntry[]>([]);
-    const { vibes, sos, events } = useData();
+    const { vibes, sos, events, userSettings } = useData();
     const auth = useContext(AuthContext);
 
     const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
@@ -182,8 +185,9 @@ const LiveAssistantModal: React.FC<LiveAssistantModalProps> = ({ isOpen, onClose
                     const nearbyVibes = vibes
                         .filter(vibe => haversineDistance(userLatLng, vibe.location) <= 1)
                         .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+                    // Only alerts still in progress matter; recently closed ones are mentioned separately.
                     const nearbySOS = sos
-                        .filter(s => haversineDistance(userLatLng, s.location) <= 1)
+                        .filter(s => isSOSActive(s) && haversineDistance(userLatLng, s.location) <= 1)
                         .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
                     const now = new Date();
                     const nearbyEvents = events
@@ -197,24 +201,35 @@ const LiveAssistantModal: React.FC<LiveAssistantModalProps> = ({ isOpen, onClose
                         const vibeDisplayNameMapping: Record<string, string> = {
                             [VibeType.Safe]: 'Safe', [VibeType.Calm]: 'Calm', [VibeType.Noisy]: 'Noisy', [VibeType.LGBTQIAFriendly]: 'LGBTQIA+ Friendly', [VibeType.Suspicious]: 'Suspicious', [VibeType.Dangerous]: 'Dangerous',
                         };
-                        const vibeCounts = nearbyVibes.reduce((acc: any, vibe: Vibe) => {
-                            acc[vibe.vibe_type] = (acc[vibe.vibe_type] || 0) + 1;
-                            return acc;
-                        }, {});
-                        const totalVibes = nearbyVibes.length;
-                        const dominantVibe = Object.keys(vibeCounts).reduce((a, b) => vibeCounts[a] > vibeCounts[b] ? a : b);
-                        const dominantVibeName = vibeDisplayNameMapping[dominantVibe] || dominantVibe;
-
-                        initialGreeting = `Hello! I am your live emergency assistant. The current vibe in your area is reported as "${dominantVibeName}". How can I help you?`;
-                        
-                        const breakdownText = Object.entries(vibeCounts)
-                            .map(([type, count]) => `${(((count as number) / totalVibes) * 100).toFixed(0)}% ${vibeDisplayNameMapping[type] || type}`)
-                            .join(', ');
-
-                        vibeContext = `The area has ${totalVibes} recent report(s). Breakdown: ${breakdownText}.`;
+                        // Weigh each report by its freshness so stale reports don't skew the picture.
+                        const { weights, totalWeight, count: totalVibes } = summarizeVibes(nearbyVibes);
+                        if (totalVibes > 0) {
+                            const dominantVibe = Object.keys(weights).reduce((a, b) => weights[a] > weights[b] ? a : b);
+                            const dominantVibeName = vibeDisplayNameMapping[dominantVibe] || dominantVibe;
+
+                            initialGreeting = `Hello! I am your live emergency assistant. The current vibe in your area is reported as "${dominantVibeName}". How can I help you?`;
+
+                            const breakdownText = Object.entries(weights)
+                                .map(([type, weight]) => `${((weight / totalWeight) * 100).toFixed(0)}% ${vibeDisplayNameMapping[type] || type}`)
+                                .join(', ');
+
+                            vibeContext = `The area has ${totalVibes} recent report(s), weighted towards the freshest. Breakdown: ${breakdownText}.`;
+
+                            // The newest reports that came with details say what's actually going on.
+                            const detailedReports = nearbyVibes.filter(hasVibeDetails).slice(0, 3)
+                                .map(vibe => `${vibeDisplayNameMapping[vibe.vibe_type] || vibe.vibe_type} (${describeVibeDetails(vibe)})`);
+                            if (detailedReports.length > 0) vibeContext += ` Details from the latest reports: ${detailedReports.join('; ')}.`;
+                        }
                     }
+                    const recentlyClosedSOS = sos.filter(s => !isSOSActive(s) && getSOSStatus(s) !== 'false_alarm'
+                        && isSOSVisibleOnMap(s) && haversineDistance(userLatLng, s.location) <= 1);
                     if (nearbySOS.length > 0) {
-                        sosContext = `There are ${nearbySOS.length} recent SOS alert(s) nearby. The latest one reports: "${nearbySOS[0].details}".`;
+                        const latest = nearbySOS[0];
+                        const responders = latest.responder_ids?.length || 0;
+                        const responseText = responders > 0 ? `${responders} community member(s) are already responding` : 'nobody has responded yet';
+                        sosContext = `There are ${nearbySOS.length} active SOS alert(s) nearby. The latest one reports: "${latest.details}", and ${responseText}.`;
+                    } else if (recentlyClosedSOS.length > 0) {
+                        sosContext = `No active SOS alerts nearby. ${recentlyClosedSOS.length} alert(s) in the area were recently resolved.`;
                     }
                     if (nearbyEvents.length > 0) {
                         eventContext = `There is an upcoming community event nearby: "${nearbyEvents[0].title}". This may cause crowds or noise.`;
@@ -231,7 +246,7 @@ const LiveAssistantModal: React.FC<LiveAssistantModalProps> = ({ isOpen, onClose
                     name: 'sendSOSAlert',
                     parameters: {
                         type: Type.OBJECT,
-                        description: `Dispatches an SOS alert to the HyperAPP community. This is a critical action for genuine emergencies.
+                        description: `Dispatches an SOS alert to the HyperAPP community and directly notifies the user's trusted contacts. This is a critical action for genuine emergencies.
 --- CONTEXT ---
 - User's Approximate Location: ${userAddress}
 - Local Community Vibe: ${vibeContext}
@@ -336,13 +351,20 @@ Use this comprehensive context to inform your decision. Ask clarifying questions
                                 for (const fc of message.toolCall.functionCalls) {
                                     if (fc.name === 'sendSOSAlert') {
                                         navigator.geolocation.getCurrentPosition(async (position) => {
-                                            const locationPayload = `SRID=4326;POINT(${position.coords.longitude} ${position.coords.latitude})`;
-                                            const { error } = await supabase.from('sos').insert({
-                                                user_id: auth?.user?.id,
-                                                details: fc.args.details || 'SOS Alert Activated via Live Assistant',
-                                                location: locationPayload
-                                            });
-                                            const result = error ? `Failed: ${error.message}` : "SOS alert sent successfully.";
+                                            let result: string;
+                                            try {
+                                                if (!auth?.user?.id) throw new Error('User is not logged in.');
+                                                const { contactResults } = await sendSOS({
+                                                    userId: auth.user.id,
+                                                    details: (fc.args.details as string) || 'SOS Alert Activated via Live Assistant',
+                                                    location: { lat: position.coords.latitude, lng: position.coords.longitude },
+                                                    anonymous: userSettings.privacy.anonymousByDefault,
+                                                });
+                                                const reached = contactResults.filter(r => r.ok).length;
+                                                result = `SOS alert sent successfully. ${reached} of ${contactResults.length} trusted contact(s) were notified directly.`;
+                                            } catch (err: any) {
+                                                result = `Failed: ${err.message}`;
+                                            }
                                             sessionPromiseRef.current?.then((session) => {
                                                 session.sendToolResponse({
                                                     functionResponses: { id: fc.id, name: fc.name, response: { result: result } }
@@ -394,7 +416,7 @@ Use this comprehensive context to inform your decision. Ask clarifying questions
         return () => {
             cleanup();
         };
-    }, [isOpen, auth?.user?.id, vibes, sos, events, drawWaveform]);
+    }, [isOpen, auth?.user?.id, vibes, sos, events, userSettings.privacy.anonymousByDefault, drawWaveform]);
 
     if (!isOpen) return null;
 
@@ -1,9 +1,11 @@
 import React, { useState, useEffect, useRef, useContext } from 'react';
-import { supabase } from '../../services/supabaseClient';
+import { sendSOS, queueSOS } from '../../services/sosService';
+import { isOfflineError } from '../../services/offlineQueue';
 import { AuthContext } from '../../contexts/AuthContext';
 import { useData } from '../../contexts/DataContext';
 import { MicrophoneIcon, StopCircleIcon, ExclamationTriangleIcon } from '../ui/Icons';
-import type { SOS, Location } from '../../types';
+import type { Location } from '../../types';
+import { isSOSActive, isSOSTracking, SOS_STATUS_CONFIG, SOS_TRACKING_DURATION_MS, getSOSStatus } from '../../utils/sos';
 
 interface SOSModalProps {
   isOpen: boolean;
@@ -27,7 +29,17 @@ const SOSModal: React.FC<SOSModalProps> = ({ isOpen, onClose }) => {
   const recognitionRef = useRef<any>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
   const auth = useContext(AuthContext);
-  const { addLocalSOS } = useData();
+  const { mySOS, addLocalSOS, closeSOS, stopSOSTracking, userSettings } = useData();
+  const [closingId, setClosingId] = useState<number | null>(null);
+  const [postAnonymously, setPostAnonymously] = useState(userSettings.privacy.anonymousByDefault);
+  const [shareLiveLocation, setShareLiveLocation] = useState(userSettings.privacy.shareLiveLocationByDefault);
+  const myActiveSOS = mySOS.filter(isSOSActive);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPostAnonymously(userSettings.privacy.anonymousByDefault);
+    setShareLiveLocation(userSettings.privacy.shareLiveLocationByDefault);
+  }, [isOpen, userSettings.privacy.anonymousByDefault, userSettings.privacy.shareLiveLocationByDefault]);
 
   useEffect(() => {
     if (!isOpen) return;
@@ -136,6 +148,17 @@ const SOSModal: React.FC<SOSModalProps> = ({ isOpen, onClose }) => {
     });
   };
 
+  const handleCloseSOS = async (sosId: number, status: 'resolved' | 'false_alarm') => {
+    const prompt = status === 'resolved'
+      ? "Mark this alert as resolved? Responders will be told you're safe."
+      : "Mark this alert as a false alarm? It will be removed from the map.";
+    if (!window.confirm(prompt)) return;
+    setClosingId(sosId);
+    const ok = await closeSOS(sosId, status);
+    setClosingId(null);
+    if (!ok) setError('Could not update your alert. Please try again.');
+  };
+
   const handleConfirmSend = async () => {
     if (!confirmData || !auth?.user) {
       setError('Confirmation data is missing. Please try again.');
@@ -145,39 +168,38 @@ const SOSModal: React.FC<SOSModalProps> = ({ isOpen, onClose }) => {
     setIsSubmitting(true);
     setError(null);
 
-    const { lat, lng } = confirmData.location;
-    const locationPayload = `SRID=4326;POINT(${lng} ${lat})`;
+    const params = { userId: auth.user.id, details, location: confirmData.location, liveTracking: shareLiveLocation, anonymous: postAnonymously };
+    try {
+      const { sos: newSOS, contactResults } = await sendSOS(params);
+      addLocalSOS(newSOS);
 
-    const { data, error: insertError } = await supabase
-      .from('sos')
-      .insert({
-        user_id: auth.user!.id,
-        details,
-        location: locationPayload,
-      })
-      .select()
-      .single();
-      
-    if (insertError) {
-      setError(insertError.message);
-      setIsSubmitting(false);
-    } else if (data) { // FIX: Add a check for `data` to prevent a crash if the insert succeeds but RLS prevents returning the row.
-        const newSOS: SOS = {
-            id: data.id,
-            created_at: data.created_at,
-            user_id: auth.user!.id,
-            details: data.details,
-            location: { lat, lng },
-            profiles: { username: 'You' }
-        };
-        addLocalSOS(newSOS);
-        
-        // Play confirmation sound
-        audioRef.current?.play().catch(e => console.error("Audio play failed:", e));
+      // Play confirmation sound
+      audioRef.current?.play().catch(e => console.error("Audio play failed:", e));
 
-        alert("SOS Alert has been sent to the community!");
+      const reached = contactResults.filter(r => r.ok).length;
+      const failed = contactResults.length - reached;
+      let message = "SOS Alert has been sent to the community!";
+      if (reached > 0) message += ` ${reached} trusted contact${reached === 1 ? ' was' : 's were'} notified directly.`;
+      if (failed > 0) message += ` ${failed} trusted contact${failed === 1 ? '' : 's'} could not be reached.`;
+      alert(message);
+      setIsSubmitting(false);
+      handleClose();
+    } catch (err: any) {
+      if (!isOfflineError(err)) {
+        setError(err.message);
+        setIsSubmitting(false);
+        return;
+      }
+      // Never drop an emergency alert: keep it on the device and send it as soon as there's a connection.
+      try {
+        await queueSOS(params);
+        alert("You're offline. Your SOS has been saved with your location and will be sent automatically as soon as you're back online.");
         setIsSubmitting(false);
         handleClose();
+      } catch (queueError: any) {
+        setError(`You're offline and the alert could not be saved: ${queueError.message}. Please call emergency services directly.`);
+        setIsSubmitting(false);
+      }
     }
   };
   
@@ -192,6 +214,7 @@ const SOSModal: React.FC<SOSModalProps> = ({ isOpen, onClose }) => {
       setIsPreparing(false);
       setShowConfirmation(false);
       setConfirmData(null);
+      setShareLiveLocation(true);
       onClose();
   }
 
@@ -217,6 +240,14 @@ const SOSModal: React.FC<SOSModalProps> = ({ isOpen, onClose }) => {
                 <p className="text-text-primary">{confirmData.address}</p>
               </div>
             </div>
+            <label className="flex items-center space-x-2 text-sm text-text-primary">
+              <input type="checkbox" checked={shareLiveLocation} onChange={e => setShareLiveLocation(e.target.checked)} className="rounded" />
+              <span>Share my live location for the next {SOS_TRACKING_DURATION_MS / 60000} minutes, or until I mark the alert resolved</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-text-primary">
+              <input type="checkbox" checked={postAnonymously} onChange={e => setPostAnonymously(e.target.checked)} className="rounded" />
+              <span>Send anonymously (your trusted contacts will still know it's you)</span>
+            </label>
             <p className="text-sm text-center text-red-300">This action cannot be undone. Are you sure you want to send this alert to the community?</p>
             <div className="flex space-x-3">
               <button
@@ -244,6 +275,45 @@ const SOSModal: React.FC<SOSModalProps> = ({ isOpen, onClose }) => {
               </div>
               
               {error && <p className="bg-red-900/50 text-red-300 p-3 rounded-md text-sm text-center">{error}</p>}
+
+              {myActiveSOS.map(item => {
+                  const status = SOS_STATUS_CONFIG[getSOSStatus(item)];
+                  const responders = item.responder_ids?.length || 0;
+                  return (
+                      <div key={item.id} className="bg-brand-primary p-3 rounded-md space-y-2 text-sm">
+                          <div className="flex justify-between items-center">
+                              <p className="text-xs font-semibold text-text-secondary">YOUR ACTIVE ALERT</p>
+                              <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${status.badgeClass}`}>{status.label}</span>
+                          </div>
+                          <p className="text-text-primary leading-tight">"{item.details}"</p>
+                          <p className="text-xs text-text-secondary">
+                              Sent {new Date(item.created_at).toLocaleTimeString()} · {responders} responder{responders === 1 ? '' : 's'}
+                          </p>
+                          {isSOSTracking(item) && (
+                              <p className="text-xs text-text-secondary">
+                                  Sharing live location ·{' '}
+                                  <button onClick={() => stopSOSTracking(item.id)} className="text-brand-accent font-semibold">Stop sharing</button>
+                              </p>
+                          )}
+                          <div className="flex space-x-2">
+                              <button
+                                  onClick={() => handleCloseSOS(item.id, 'resolved')}
+                                  disabled={closingId === item.id}
+                                  className="flex-1 bg-emerald-600 text-white font-semibold py-2 px-3 rounded-md hover:bg-emerald-500 disabled:opacity-50"
+                              >
+                                  I'm safe now
+                              </button>
+                              <button
+                                  onClick={() => handleCloseSOS(item.id, 'false_alarm')}
+                                  disabled={closingId === item.id}
+                                  className="flex-1 bg-gray-600 text-text-primary font-semibold py-2 px-3 rounded-md hover:bg-gray-500 disabled:opacity-50"
+                              >
+                                  False alarm
+                              </button>
+                          </div>
+                      </div>
+                  );
+              })}
               
               <div className="space-y-2">
                   <label htmlFor="details" className="block text-sm font-medium text-text-secondary">
@@ -1,12 +1,19 @@
-import React, { useState, useContext } from 'react';
+import React, { useState, useContext, useEffect, useRef } from 'react';
 import { supabase } from '../../services/supabaseClient';
+import { enqueueSubmission, isOfflineError } from '../../services/offlineQueue';
+import { uploadVibePhotos } from '../../services/vibePhotos';
 import { AuthContext } from '../../contexts/AuthContext';
 import { useData } from '../../contexts/DataContext';
-import { VibeType, Vibe } from '../../types';
+import { VibeType, Vibe, VibeTag, Location, VibeLocationSource } from '../../types';
+import { getHighAccuracyFix } from '../../utils/geolocation';
+import { MAX_VIBE_NOTE_LENGTH, MAX_VIBE_PHOTOS, VIBE_TAG_LABELS } from '../../utils/vibeDetails';
 
 interface ReportVibeModalProps {
   isOpen: boolean;
   onClose: () => void;
+  pickedLocation: Location | null; // Set when the user chose the spot on the map.
+  onPickOnMap: () => void;
+  onClearPickedLocation: () => void;
 }
 
 const VIBE_CONFIG: Record<string, { emoji: string; textClass: string; bgClass: string; displayName: string; }> = {
@@ -18,48 +25,137 @@ const VIBE_CONFIG: Record<string, { emoji: string; textClass: string; bgClass: s
   [VibeType.Dangerous]: { emoji: '😠', textClass: 'text-fuchsia-400', bgClass: 'bg-fuchsia-500/20', displayName: 'Dangerous' },
 };
 
-const ReportVibeModal: React.FC<ReportVibeModalProps> = ({ isOpen, onClose }) => {
-  const { addLocalVibe, currentLocation, currentAddress, userSettings } = useData();
+const ReportVibeModal: React.FC<ReportVibeModalProps> = ({ isOpen, onClose, pickedLocation, onPickOnMap, onClearPickedLocation }) => {
+  const { addLocalVibe, currentAddress, userSettings } = useData();
   const auth = useContext(AuthContext);
 
   const [toast, setToast] = useState('');
   const [actionLoading, setActionLoading] = useState(false);
   const [isClosing, setIsClosing] = useState(false);
+  // The expanded report; when collapsed, tapping a vibe reports it straight away.
+  const [showDetails, setShowDetails] = useState(false);
+  const [selectedVibe, setSelectedVibe] = useState<VibeType | null>(null);
+  const [note, setNote] = useState('');
+  const [tags, setTags] = useState<VibeTag[]>([]);
+  const [photos, setPhotos] = useState<{ file: File; previewUrl: string }[]>([]);
+  const [postAnonymously, setPostAnonymously] = useState(userSettings.privacy.anonymousByDefault);
+
+  // Each report starts from the user's default and can be overridden just for this one.
+  useEffect(() => {
+    if (isOpen) setPostAnonymously(userSettings.privacy.anonymousByDefault);
+  }, [isOpen, userSettings.privacy.anonymousByDefault]);
+
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+
+  useEffect(() => () => photosRef.current.forEach(photo => URL.revokeObjectURL(photo.previewUrl)), []);
 
   const showToast = (msg: string) => {
     setToast(msg);
     setTimeout(() => setToast(''), 3000);
   };
 
+  const resetDetails = () => {
+    setShowDetails(false);
+    setSelectedVibe(null);
+    setNote('');
+    setTags([]);
+    photos.forEach(photo => URL.revokeObjectURL(photo.previewUrl));
+    setPhotos([]);
+  };
+
   const handleClose = () => {
     setIsClosing(true);
     setTimeout(() => {
         onClose();
         setIsClosing(false);
+        resetDetails();
     }, 300); // Match animation duration
   };
 
-  const reportVibe = (vibeType: VibeType) => {
+  const toggleTag = (tag: VibeTag) => setTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+
+  const handleAddPhotos = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = (event.target.files ? Array.from<File>(event.target.files) : []).filter(file => file.type.startsWith('image/'));
+    event.target.value = '';
+    const room = MAX_VIBE_PHOTOS - photos.length;
+    if (files.length > room) showToast(`You can attach up to ${MAX_VIBE_PHOTOS} photos.`);
+    setPhotos(prev => [...prev, ...files.slice(0, room).map(file => ({ file, previewUrl: URL.createObjectURL(file) }))]);
+  };
+
+  const removePhoto = (index: number) => {
+    URL.revokeObjectURL(photos[index].previewUrl);
+    setPhotos(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const reportVibe = async (vibeType: VibeType) => {
     if (!auth?.user) return showToast("You must be logged in to report a vibe.");
-    if (!currentLocation) return showToast("Could not determine your location to report vibe.");
 
     setActionLoading(true);
-    const locationPayload = `SRID=4326;POINT(${currentLocation.lng} ${currentLocation.lat})`;
-    supabase.from('vibes').insert({ user_id: auth.user.id, vibe_type: vibeType, location: locationPayload }).select().single()
-    .then(({ data, error }) => {
-        if (error) {
-            showToast(`Error: ${error.message}`);
-        } else if (data) {
-            const newVibe: Vibe = {
-                id: data.id, created_at: data.created_at, user_id: auth.user!.id, vibe_type: vibeType,
-                location: currentLocation, 
-                profiles: userSettings.privacy.anonymousByDefault ? undefined : { username: 'You' }
-            };
-            addLocalVibe(newVibe);
-            showToast(`Vibe '${VIBE_CONFIG[vibeType]?.displayName || vibeType}' reported!`);
-            setTimeout(handleClose, 1000); // Close modal after showing success toast
+    try {
+      // A fresh fix rather than the session's starting position, since the user may have moved.
+      let location: Location;
+      let accuracy: number | null = null;
+      if (pickedLocation) {
+        location = pickedLocation;
+      } else {
+        try {
+          const fix = await getHighAccuracyFix();
+          location = fix.location;
+          accuracy = fix.accuracy_m;
+        } catch (err: any) {
+          showToast(`Couldn't get your location (${err.message}). Try again or pick the spot on the map.`);
+          return;
         }
-    }).finally(() => setActionLoading(false));
+      }
+
+      // Photos need a connection; without one the rest of the report is still queued.
+      let photoUrls: string[] = [];
+      let photosSkipped = false;
+      if (photos.length > 0) {
+        try {
+          photoUrls = await uploadVibePhotos(auth.user.id, photos.map(photo => photo.file), postAnonymously);
+        } catch (err: any) {
+          if (!isOfflineError(err) && navigator.onLine) throw err;
+          photosSkipped = true;
+        }
+      }
+
+      const row = {
+        user_id: auth.user.id,
+        vibe_type: vibeType,
+        location: `SRID=4326;POINT(${location.lng} ${location.lat})`,
+        accuracy_m: accuracy,
+        location_source: (pickedLocation ? 'map' : 'gps') as VibeLocationSource,
+        note: note.trim() || null,
+        tags,
+        photo_urls: photoUrls,
+        is_anonymous: postAnonymously,
+      };
+      const { data, error } = await supabase.from('vibes').insert(row).select().single();
+      if (error && isOfflineError(error)) {
+        await enqueueSubmission('vibe', row, location);
+        showToast(photosSkipped
+          ? "You're offline. Your report is queued without its photos and will send when you're back online."
+          : "You're offline. Your report is queued and will send when you're back online.");
+        setTimeout(handleClose, 1500);
+      } else if (error) {
+        showToast(`Error: ${error.message}`);
+      } else if (data) {
+        const newVibe: Vibe = {
+            id: data.id, created_at: data.created_at, user_id: data.user_id ?? null, vibe_type: vibeType, is_anonymous: postAnonymously,
+            location, accuracy_m: accuracy, location_source: row.location_source, note: row.note, tags, photo_urls: photoUrls,
+            profiles: postAnonymously ? undefined : { username: 'You' }
+        };
+        addLocalVibe(newVibe);
+        showToast(`Vibe '${VIBE_CONFIG[vibeType]?.displayName || vibeType}' reported!`);
+        setTimeout(handleClose, 1000); // Close modal after showing success toast
+      }
+    } catch (err: any) {
+      showToast(`Error: ${err.message}`);
+    } finally {
+      setActionLoading(false);
+    }
   };
 
   if (!isOpen && !isClosing) return null;
@@ -78,16 +174,83 @@ const ReportVibeModal: React.FC<ReportVibeModalProps> = ({ isOpen, onClose }) =>
             <div className="text-center">
                 <h2 className="text-2xl font-bold text-text-primary">Report a Vibe</h2>
                 <p className="text-sm text-text-secondary">What's the pulse of your current location?</p>
-                <p className="text-xs text-gray-500 mt-1 truncate">{currentAddress || "Getting your location..."}</p>
+                {pickedLocation ? (
+                    <p className="text-xs text-gray-500 mt-1">
+                        Spot picked on the map ({pickedLocation.lat.toFixed(5)}, {pickedLocation.lng.toFixed(5)})
+                        {' · '}<button onClick={onClearPickedLocation} className="text-brand-accent hover:underline">Use my location</button>
+                    </p>
+                ) : (
+                    <p className="text-xs text-gray-500 mt-1 truncate">
+                        {currentAddress ? `Near ${currentAddress}` : 'At your current location'}
+                        {' · '}<button onClick={onPickOnMap} className="text-brand-accent hover:underline">Pick on map</button>
+                    </p>
+                )}
+                <label className="inline-flex items-center space-x-2 text-xs text-text-secondary mt-2">
+                    <input type="checkbox" checked={postAnonymously} onChange={e => setPostAnonymously(e.target.checked)} className="rounded" />
+                    <span>Post anonymously (only you can see it's yours)</span>
+                </label>
             </div>
             <div className="grid grid-cols-2 lg:grid-cols-3 gap-3 pt-2">
                 {Object.entries(VIBE_CONFIG).map(([vibe, config]) => (
-                    <button key={vibe} onClick={() => reportVibe(vibe as VibeType)} disabled={actionLoading} className={`p-4 rounded-lg text-center font-semibold transition-transform transform hover:scale-105 ${config.bgClass} ${config.textClass} disabled:opacity-50 disabled:cursor-wait`}>
+                    <button
+                        key={vibe}
+                        onClick={() => showDetails ? setSelectedVibe(vibe as VibeType) : reportVibe(vibe as VibeType)}
+                        disabled={actionLoading}
+                        className={`p-4 rounded-lg text-center font-semibold transition-transform transform hover:scale-105 ${config.bgClass} ${config.textClass} ${selectedVibe === vibe ? 'ring-2 ring-brand-accent' : ''} disabled:opacity-50 disabled:cursor-wait`}
+                    >
                         <span className="text-3xl">{config.emoji}</span>
                         <p className="mt-1">{config.displayName}</p>
                     </button>
                 ))}
             </div>
+            {showDetails ? (
+                <div className="space-y-3">
+                    <div className="flex flex-wrap gap-2">
+                        {(Object.keys(VIBE_TAG_LABELS) as VibeTag[]).map(tag => (
+                            <button
+                                key={tag}
+                                onClick={() => toggleTag(tag)}
+                                className={`text-xs px-3 py-1 rounded-full border ${tags.includes(tag) ? 'border-brand-accent text-brand-accent' : 'border-gray-600 text-text-secondary'}`}
+                            >
+                                {VIBE_TAG_LABELS[tag]}
+                            </button>
+                        ))}
+                    </div>
+                    <textarea
+                        value={note}
+                        onChange={e => setNote(e.target.value.slice(0, MAX_VIBE_NOTE_LENGTH))}
+                        placeholder="What's happening? (optional)"
+                        rows={3}
+                        className="w-full bg-brand-primary border border-gray-600 rounded-md p-2 text-sm text-text-primary focus:ring-brand-accent focus:border-brand-accent"
+                    />
+                    <div className="flex items-center gap-2">
+                        {photos.map((photo, index) => (
+                            <div key={photo.previewUrl} className="relative">
+                                <img src={photo.previewUrl} alt={`Photo ${index + 1}`} className="w-16 h-16 object-cover rounded-md" />
+                                <button onClick={() => removePhoto(index)} className="absolute -top-2 -right-2 bg-gray-800 text-white rounded-full w-5 h-5 text-xs leading-none" aria-label={`Remove photo ${index + 1}`}>&times;</button>
+                            </div>
+                        ))}
+                        {photos.length < MAX_VIBE_PHOTOS && (
+                            <label className="w-16 h-16 flex items-center justify-center border border-dashed border-gray-600 rounded-md text-text-secondary text-xs text-center cursor-pointer hover:border-brand-accent">
+                                Add photo
+                                <input type="file" accept="image/*" multiple onChange={handleAddPhotos} className="hidden" />
+                            </label>
+                        )}
+                    </div>
+                    <p className="text-xs text-gray-500">Location and camera data are removed from photos before upload.</p>
+                    <button
+                        onClick={() => selectedVibe && reportVibe(selectedVibe)}
+                        disabled={!selectedVibe || actionLoading}
+                        className="w-full bg-brand-accent text-brand-primary font-bold py-3 px-4 rounded-md hover:bg-cyan-400 disabled:opacity-50"
+                    >
+                        {actionLoading ? 'Sending...' : selectedVibe ? `Report '${VIBE_CONFIG[selectedVibe].displayName}'` : 'Choose a vibe above'}
+                    </button>
+                </div>
+            ) : (
+                <button onClick={() => setShowDetails(true)} className="w-full text-sm text-brand-accent hover:underline">
+                    Add a note, tags or photos
+                </button>
+            )}
             <button onClick={handleClose} className="w-full mt-2 bg-gray-700 text-text-primary font-bold py-3 px-4 rounded-md hover:bg-gray-600">
                 Cancel
             </button>
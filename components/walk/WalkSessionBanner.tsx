@@ -0,0 +1,85 @@
+import React, { useState, useEffect } from 'react';
+import { useWalkSession, WALK_PROMPT_RESPONSE_MS, WALK_ALARM_MS } from '../../contexts/WalkSessionContext';
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${minutes.toString().padStart(hours ? 2 : 1, '0')}:${seconds.toString().padStart(2, '0')}`;
+  return hours ? `${hours}:${mmss}` : mmss;
+};
+
+/**
+ * Shows the walk countdown while it runs, and takes over the screen once a check-in is overdue.
+ */
+const WalkSessionBanner: React.FC = () => {
+  const { session, checkIn, extendWalk, escalateNow, dismiss } = useWalkSession();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!session || session.status === 'escalated') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [session]);
+
+  if (!session) return null;
+
+  const handleCheckIn = () => {
+    if (window.confirm(`Check in and end your walk to ${session.destination.name}?`)) checkIn();
+  };
+
+  if (session.status === 'escalated') {
+    return (
+      <div className="bg-brand-danger/90 text-white text-sm px-4 py-2 flex items-center justify-between">
+        <span>
+          {session.sos_queued
+            ? "No check-in from your walk, so an SOS is queued and will send when you're back online."
+            : "No check-in from your walk, so an SOS was sent. Close it from the SOS screen once you're safe."}
+        </span>
+        <button onClick={dismiss} className="font-semibold underline ml-2">Dismiss</button>
+      </div>
+    );
+  }
+
+  if (session.status === 'active') {
+    return (
+      <div className="bg-brand-accent/90 text-brand-primary text-sm px-4 py-2 flex items-center justify-between">
+        <span className="truncate">
+          Walking to {session.destination.name} · check in within <strong>{formatCountdown(new Date(session.expected_arrival).getTime() - now)}</strong>
+        </span>
+        <span className="flex-shrink-0 ml-2 space-x-3">
+          <button onClick={() => extendWalk(10)} className="font-semibold underline">+10 min</button>
+          <button onClick={handleCheckIn} className="font-semibold underline">I've arrived</button>
+        </span>
+      </div>
+    );
+  }
+
+  const isAlarm = session.status === 'alarm';
+  const stageEnd = new Date(session.status_changed_at).getTime() + (isAlarm ? WALK_ALARM_MS : WALK_PROMPT_RESPONSE_MS);
+
+  return (
+    <div className={`fixed inset-0 z-[2500] flex items-center justify-center p-4 ${isAlarm ? 'bg-brand-danger/90 animate-pulse' : 'bg-black/85'}`}>
+      <div className="bg-brand-secondary border-2 border-brand-danger/60 rounded-lg shadow-xl w-full max-w-sm p-6 text-center space-y-4">
+        <h2 className="text-2xl font-bold text-text-primary">Are you OK?</h2>
+        <p className="text-sm text-text-secondary">
+          You were due at {session.destination.name} by {new Date(session.expected_arrival).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
+          {session.escalation_started_at ? ' Sending an SOS…' : isAlarm ? ' An SOS will be sent in' : ' The alarm will sound in'}
+        </p>
+        <p className="text-4xl font-bold text-brand-danger">{formatCountdown(stageEnd - now)}</p>
+        <button onClick={checkIn} className="w-full bg-emerald-600 text-white font-bold py-3 px-4 rounded-md hover:bg-emerald-500">
+          I'm OK, end my walk
+        </button>
+        <button onClick={() => extendWalk(10)} className="w-full bg-gray-700 text-text-primary font-bold py-3 px-4 rounded-md hover:bg-gray-600">
+          I'm OK, give me 10 more minutes
+        </button>
+        <button onClick={escalateNow} className="w-full bg-brand-danger text-white font-bold py-3 px-4 rounded-md hover:bg-fuchsia-500">
+          Send SOS now
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WalkSessionBanner;
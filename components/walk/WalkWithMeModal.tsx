@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useContext } from 'react';
+import { supabase } from '../../services/supabaseClient';
+import { geocodeDestination, GeocodedPlace } from '../../services/routingService';
+import { AuthContext } from '../../contexts/AuthContext';
+import { useData } from '../../contexts/DataContext';
+import { useWalkSession } from '../../contexts/WalkSessionContext';
+import { parseLocationFromGeoJSON, haversineDistance } from '../../utils/geolocation';
+import type { SafeZone, WalkSession } from '../../types';
+
+interface WalkWithMeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialDestination?: GeocodedPlace | null;
+  initialMinutes?: number;
+}
+
+const DEFAULT_WALK_MINUTES = 20;
+const WALKING_SPEED_KMH = 4.5;
+
+const WalkWithMeModal: React.FC<WalkWithMeModalProps> = ({ isOpen, onClose, initialDestination, initialMinutes }) => {
+  const auth = useContext(AuthContext);
+  const { currentLocation } = useData();
+  const { session, startWalk } = useWalkSession();
+  const [safeZones, setSafeZones] = useState<SafeZone[]>([]);
+  const [destination, setDestination] = useState<WalkSession['destination'] | null>(null);
+  const [minutes, setMinutes] = useState(DEFAULT_WALK_MINUTES);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<GeocodedPlace[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDestination(initialDestination ? { name: initialDestination.name, location: initialDestination.location } : null);
+    setMinutes(initialMinutes ? Math.ceil(initialMinutes) : DEFAULT_WALK_MINUTES);
+    setQuery('');
+    setResults([]);
+    setError(null);
+  }, [isOpen, initialDestination, initialMinutes]);
+
+  useEffect(() => {
+    if (!isOpen || !auth?.user) return;
+    supabase.from('safe_zones').select('*').eq('user_id', auth.user.id).then(({ data, error }) => {
+      if (error) {
+        console.error("Could not fetch safe zones for walk destinations:", error.message);
+        return;
+      }
+      setSafeZones((data || []).map(z => ({ ...z, location: parseLocationFromGeoJSON(z.location) })).filter(z => z.location) as SafeZone[]);
+    });
+  }, [isOpen, auth?.user]);
+
+  // Suggests a time from the straight-line distance; the walker can always adjust it.
+  const chooseDestination = (next: WalkSession['destination']) => {
+    setDestination(next);
+    setResults([]);
+    if (currentLocation) {
+      const estimate = (haversineDistance(currentLocation, next.location) * 1.3 / WALKING_SPEED_KMH) * 60;
+      setMinutes(Math.max(5, Math.ceil(estimate / 5) * 5 + 5));
+    }
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    setIsSearching(true);
+    setError(null);
+    try {
+      const places = await geocodeDestination(query.trim(), currentLocation);
+      setResults(places);
+      if (places.length === 0) setError('No places matched that search.');
+    } catch (err: any) {
+      setError(err.message || 'Could not look up that destination.');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleStart = () => {
+    if (!destination) {
+      setError('Choose where you are walking to.');
+      return;
+    }
+    if (!minutes || minutes < 1) {
+      setError('Set how long the walk should take.');
+      return;
+    }
+    startWalk({ destination, durationMinutes: minutes });
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[2000] p-4" onClick={onClose}>
+      <div
+        className="bg-brand-secondary/80 backdrop-blur-lg border border-brand-accent/20 rounded-lg shadow-xl w-full max-w-md relative animate-fade-in-down p-6 space-y-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-text-primary">Walk With Me</h2>
+          <p className="text-sm text-text-secondary">Check in when you arrive. If you don't, we'll ask if you're OK, sound an alarm, then send an SOS with your last known location.</p>
+        </div>
+
+        {session ? (
+          <p className="text-sm text-yellow-400 text-center">You already have a walk in progress. Check in or cancel it first.</p>
+        ) : (
+          <>
+            {safeZones.length > 0 && (
+              <div>
+                <p className="text-sm font-semibold text-text-primary mb-2">Walk to a safe zone</p>
+                <div className="flex flex-wrap gap-2">
+                  {safeZones.map(zone => (
+                    <button
+                      key={zone.id}
+                      onClick={() => chooseDestination({ name: zone.name, location: zone.location, safeZoneId: zone.id })}
+                      className={`text-xs font-semibold px-3 py-1 rounded-full border ${destination?.safeZoneId === zone.id ? 'bg-brand-accent text-brand-primary border-brand-accent' : 'border-gray-600 text-text-secondary hover:text-text-primary'}`}
+                    >
+                      {zone.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <form onSubmit={handleSearch} className="flex space-x-2">
+              <input
+                type="text"
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                placeholder="Or search for a destination"
+                className="flex-1 bg-brand-primary border border-gray-600 rounded-md px-3 py-2 text-sm text-text-primary focus:ring-brand-accent focus:border-brand-accent"
+              />
+              <button type="submit" disabled={isSearching} className="bg-gray-700 text-text-primary text-sm font-semibold px-3 rounded-md hover:bg-gray-600 disabled:opacity-50">
+                {isSearching ? '...' : 'Search'}
+              </button>
+            </form>
+            {results.length > 0 && (
+              <ul className="max-h-32 overflow-y-auto divide-y divide-gray-700">
+                {results.map(place => (
+                  <li key={`${place.location.lat},${place.location.lng}`}>
+                    <button onClick={() => chooseDestination({ name: place.name, location: place.location })} className="w-full text-left text-xs text-text-secondary hover:text-text-primary py-1.5">
+                      {place.name}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {destination && <p className="text-sm text-text-primary truncate"><span className="text-text-secondary">Heading to:</span> {destination.name}</p>}
+
+            <label className="block text-sm text-text-secondary">
+              I should arrive within
+              <div className="flex items-center space-x-2 mt-1">
+                <input
+                  type="number"
+                  min={1}
+                  max={240}
+                  value={minutes}
+                  onChange={e => setMinutes(parseInt(e.target.value, 10) || 0)}
+                  className="w-24 bg-brand-primary border border-gray-600 rounded-md px-3 py-2 text-text-primary"
+                />
+                <span>minutes</span>
+              </div>
+            </label>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <button onClick={handleStart} className="w-full bg-brand-accent text-brand-primary font-bold py-3 px-4 rounded-md hover:bg-cyan-400">
+              Start Walk
+            </button>
+          </>
+        )}
+        <button onClick={onClose} className="w-full bg-gray-700 text-text-primary font-bold py-3 px-4 rounded-md hover:bg-gray-600">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WalkWithMeModal;
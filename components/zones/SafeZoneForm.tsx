@@ -0,0 +1,147 @@
+import React from 'react';
+import { VibeType } from '../../types';
+import type { Location, SafeZoneRules, TimeWindow, UserSettings } from '../../types';
+import { VIBE_DISPLAY_NAMES } from '../activity/ActivityCard';
+import { defaultZoneRules, WEEKDAY_LABELS } from '../../utils/safeZoneRules';
+import { LocationMarkerIcon } from '../ui/Icons';
+
+// A zone being added (id null) or edited. It travels through router state while the user picks a
+// new location on the map, so it must stay plain data.
+export interface SafeZoneDraft {
+    id: number | null;
+    name: string;
+    radius_km: number;
+    location: Location | null;
+    area: Location[] | null;
+    rules: SafeZoneRules | null;
+}
+
+interface SafeZoneFormProps {
+    draft: SafeZoneDraft;
+    notifications: UserSettings['notifications'];
+    isSaving: boolean;
+    onChange: (draft: SafeZoneDraft) => void;
+    onPickOnMap: () => void;
+    onSubmit: (e: React.FormEvent) => void;
+    onCancel: () => void;
+}
+
+const DEFAULT_SCHEDULE = { days: [1, 2, 3, 4, 5], start: '07:00', end: '09:00' };
+const DEFAULT_QUIET_HOURS: TimeWindow = { start: '22:00', end: '07:00' };
+
+const TimeRange: React.FC<{ value: TimeWindow; onChange: (value: TimeWindow) => void }> = ({ value, onChange }) => (
+    <div className="flex items-center space-x-2 text-sm">
+        <input type="time" value={value.start} onChange={e => onChange({ ...value, start: e.target.value })} required className="bg-gray-700 border-gray-600 rounded-md text-sm" />
+        <span className="text-text-secondary">to</span>
+        <input type="time" value={value.end} onChange={e => onChange({ ...value, end: e.target.value })} required className="bg-gray-700 border-gray-600 rounded-md text-sm" />
+    </div>
+);
+
+const SafeZoneForm: React.FC<SafeZoneFormProps> = ({ draft, notifications, isSaving, onChange, onPickOnMap, onSubmit, onCancel }) => {
+    const rules = draft.rules;
+    const setRules = (patch: Partial<SafeZoneRules>) => rules && onChange({ ...draft, rules: { ...rules, ...patch } });
+
+    const toggleVibeType = (type: VibeType) => {
+        if (!rules) return;
+        setRules({ vibeTypes: rules.vibeTypes.includes(type) ? rules.vibeTypes.filter(t => t !== type) : [...rules.vibeTypes, type] });
+    };
+
+    const toggleDay = (day: number) => {
+        if (!rules?.schedule) return;
+        const days = rules.schedule.days.includes(day) ? rules.schedule.days.filter(d => d !== day) : [...rules.schedule.days, day];
+        setRules({ schedule: { ...rules.schedule, days } });
+    };
+
+    return (
+        <form onSubmit={onSubmit} className="pt-4 border-t border-gray-700 space-y-3">
+            <p className="text-sm font-semibold">{draft.id ? 'Edit Safe Zone' : 'New Safe Zone'}</p>
+            <input id="zoneName" type="text" placeholder="Zone Name" value={draft.name} onChange={e => onChange({ ...draft, name: e.target.value })} required className="block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm text-sm" />
+
+            <div className="flex justify-between items-center">
+                <p className="text-sm text-text-secondary">
+                    {draft.area ? `Area with ${draft.area.length} corners drawn on the map.` : draft.location ? `Circle, ${draft.radius_km} km radius.` : 'No location set.'}
+                </p>
+                <button type="button" onClick={onPickOnMap} className="flex items-center space-x-1 text-xs text-brand-accent hover:underline">
+                    <LocationMarkerIcon className="w-4 h-4" /><span>{draft.location || draft.area ? 'Move on map' : 'Pick on map'}</span>
+                </button>
+            </div>
+            {!draft.area && (
+                <input id="zoneRadius" type="range" min="0.5" max="10" step="0.5" value={draft.radius_km} onChange={e => onChange({ ...draft, radius_km: parseFloat(e.target.value) })} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+            )}
+
+            <label className="flex items-center space-x-2 text-sm">
+                <input type="checkbox" checked={!!rules} onChange={e => onChange({ ...draft, rules: e.target.checked ? defaultZoneRules(notifications) : null })} className="rounded bg-gray-700 border-gray-600 text-brand-accent" />
+                <span>Custom alert rules for this zone</span>
+            </label>
+            {!rules && <p className="text-xs text-text-secondary">This zone follows your notification settings.</p>}
+
+            {rules && (
+                <div className="space-y-3 pl-2 border-l-2 border-gray-700">
+                    <div>
+                        <p className="text-xs font-semibold text-text-secondary mb-1">Alert me about</p>
+                        <div className="flex flex-wrap gap-2">
+                            {Object.values(VibeType).map(type => (
+                                <button
+                                    key={type}
+                                    type="button"
+                                    onClick={() => toggleVibeType(type)}
+                                    className={`text-xs px-2 py-1 rounded-full border ${rules.vibeTypes.includes(type) ? 'border-brand-accent text-brand-accent' : 'border-gray-600 text-text-secondary'}`}
+                                >
+                                    {VIBE_DISPLAY_NAMES[type]}
+                                </button>
+                            ))}
+                            <button
+                                type="button"
+                                onClick={() => setRules({ onSOS: !rules.onSOS })}
+                                className={`text-xs px-2 py-1 rounded-full border ${rules.onSOS ? 'border-brand-danger text-brand-danger' : 'border-gray-600 text-text-secondary'}`}
+                            >
+                                SOS
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="flex items-center space-x-2 text-sm">
+                            <input type="checkbox" checked={!!rules.schedule} onChange={e => setRules({ schedule: e.target.checked ? DEFAULT_SCHEDULE : null })} className="rounded bg-gray-700 border-gray-600 text-brand-accent" />
+                            <span>Only active on a schedule</span>
+                        </label>
+                        {rules.schedule && (
+                            <>
+                                <div className="flex flex-wrap gap-1">
+                                    {WEEKDAY_LABELS.map((label, day) => (
+                                        <button
+                                            key={label}
+                                            type="button"
+                                            onClick={() => toggleDay(day)}
+                                            className={`text-xs w-10 py-1 rounded-md ${rules.schedule!.days.includes(day) ? 'bg-brand-accent text-brand-primary font-semibold' : 'bg-gray-700 text-text-secondary'}`}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <TimeRange value={rules.schedule} onChange={times => setRules({ schedule: { ...rules.schedule!, ...times } })} />
+                            </>
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="flex items-center space-x-2 text-sm">
+                            <input type="checkbox" checked={!!rules.quietHours} onChange={e => setRules({ quietHours: e.target.checked ? DEFAULT_QUIET_HOURS : null })} className="rounded bg-gray-700 border-gray-600 text-brand-accent" />
+                            <span>Quiet hours</span>
+                        </label>
+                        {rules.quietHours && <TimeRange value={rules.quietHours} onChange={quietHours => setRules({ quietHours })} />}
+                    </div>
+
+                    <p className="text-xs text-text-secondary">Times are in {rules.timezone}.</p>
+                </div>
+            )}
+
+            <div className="flex space-x-2">
+                <button type="submit" disabled={isSaving} className="flex-1 bg-brand-accent text-sm rounded-md disabled:opacity-50">{isSaving ? 'Saving...' : 'Save'}</button>
+                <button type="button" onClick={onCancel} className="flex-1 bg-gray-600 text-sm rounded-md">Cancel</button>
+            </div>
+        </form>
+    );
+};
+
+export default SafeZoneForm;
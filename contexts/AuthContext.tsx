@@ -1,10 +1,20 @@
-import React, { createContext, useState, useEffect, ReactNode, useMemo } from 'react';
+import React, { createContext, useState, useEffect, ReactNode, useMemo, useCallback } from 'react';
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from '../services/supabaseClient';
+import type { Profile, UserRole } from '../types';
+import { roleCan, RolePermission } from '../utils/roles';
+import { getPlaceholderUsername } from '../utils/username';
 
 interface AuthContextType {
   session: Session | null;
   user: User | null;
+  profile: Profile | null;
+  role: UserRole; // 'member' until the profile has loaded.
+  can: (permission: RolePermission) => boolean;
+  refreshProfile: () => Promise<void>;
+  // True after opening a password reset link, until a new password is set.
+  isPasswordRecovery: boolean;
+  endPasswordRecovery: () => void;
   loading: boolean;
 }
 
@@ -13,44 +23,54 @@ export const AuthContext = createContext<AuthContextType | undefined>(undefined)
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [session, setSession] = useState<Session | null>(null);
   const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [isPasswordRecovery, setIsPasswordRecovery] = useState(false);
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    // This function ensures a user profile exists in the public.profiles table.
-    const manageUserProfile = async (user: User | null) => {
-      if (!user) return;
+  // Ensures a user profile exists in the public.profiles table and loads it, role included.
+  const manageUserProfile = useCallback(async (user: User | null) => {
+    if (!user) {
+      setProfile(null);
+      return;
+    }
 
-      const { data: profile, error: selectError } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('id', user.id)
-        .single();
+    const { data: existing, error: selectError } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', user.id)
+      .single();
 
-      if (selectError && selectError.code !== 'PGRST116') {
-        console.error("Error checking for profile:", selectError.message);
-        return;
-      }
+    if (selectError && selectError.code !== 'PGRST116') {
+      console.error("Error checking for profile:", selectError.message);
+      return;
+    }
 
-      if (!profile) {
-        const { error: insertError } = await supabase.from('profiles').insert({
-          id: user.id,
-          username: user.email, // Defaults username to their email.
-        });
+    if (existing) {
+      setProfile(existing as Profile);
+      return;
+    }
 
-        if (insertError) {
-          console.error('Error creating user profile:', insertError.message);
-        }
-      }
-    };
+    const { data: created, error: insertError } = await supabase.from('profiles').insert({
+      id: user.id,
+      username: getPlaceholderUsername(user.id), // Replaced during onboarding; never the email, which would be public.
+    }).select().single();
+
+    if (insertError) {
+      console.error('Error creating user profile:', insertError.message);
+      return;
+    }
+    setProfile(created as Profile);
+  }, []);
 
+  useEffect(() => {
     const { data: authListener } = supabase.auth.onAuthStateChange(
-      async (_event, session) => {
+      async (event, session) => {
+        if (event === 'PASSWORD_RECOVERY') setIsPasswordRecovery(true);
+        if (event === 'SIGNED_OUT') setIsPasswordRecovery(false);
         const currentUser = session?.user ?? null;
         setSession(session);
         setUser(currentUser);
-        if (currentUser) {
-          await manageUserProfile(currentUser);
-        }
+        await manageUserProfile(currentUser);
         setLoading(false);
       }
     );
@@ -58,13 +78,25 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     return () => {
       authListener?.subscription.unsubscribe();
     };
-  }, []);
+  }, [manageUserProfile]);
+
+  const refreshProfile = useCallback(() => manageUserProfile(user), [manageUserProfile, user]);
+
+  const role: UserRole = profile?.role ?? 'member';
+  const can = useCallback((permission: RolePermission) => roleCan(role, permission), [role]);
+  const endPasswordRecovery = useCallback(() => setIsPasswordRecovery(false), []);
 
   const value = useMemo(() => ({
     session,
     user,
+    profile,
+    role,
+    can,
+    refreshProfile,
+    isPasswordRecovery,
+    endPasswordRecovery,
     loading,
-  }), [session, user, loading]);
+  }), [session, user, profile, role, can, refreshProfile, isPasswordRecovery, endPasswordRecovery, loading]);
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 };
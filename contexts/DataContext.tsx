@@ -1,19 +1,17 @@
-import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
+import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback, useRef } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from '../services/supabaseClient';
-import type { Vibe, SOS, Event, Location, EventAttendee, AiEvent, LiveBriefing, WeatherInfo, NewsItem, UserSettings } from '../types';
+import type { Vibe, SOS, SOSStatus, SOSStatusChange, SOSTrackPoint, Event, Location, EventAttendee, AiEvent, LiveBriefing, WeatherInfo, NewsItem, UserSettings, MapBounds, ReportTable, VibeVote } from '../types';
 import { AuthContext } from './AuthContext';
+import { parseLocationFromGeoJSON } from '../utils/geolocation';
+import { latLngToTile, tileKey, tileToBounds, tilesInBounds, boundsAround, TileCoords } from '../utils/tiles';
+import { getSOSStatus } from '../utils/sos';
+import { DEFAULT_MAP_LAYERS, mergeMapLayers } from '../utils/mapLayers';
+import { VIBE_DECAY_CONFIG } from '../utils/decay';
+import { OFFLINE_QUEUE_CHANGED_EVENT } from '../services/offlineQueue';
 import { GoogleGenAI } from '@google/genai';
 
 // --- Helper Functions ---
-const parseLocationFromGeoJSON = (loc: any): Location | null => {
-  if (loc && loc.type === 'Point' && loc.coordinates && loc.coordinates.length === 2) {
-    return { lat: loc.coordinates[1], lng: loc.coordinates[0] };
-  }
-  if (loc && typeof loc.lat === 'number' && typeof loc.lng === 'number') {
-    return loc;
-  }
-  return null;
-};
 
 const processRecord = <T extends { location: any }>(record: T): T | null => {
   const parsedLocation = parseLocationFromGeoJSON(record.location);
@@ -24,6 +22,36 @@ const processRecord = <T extends { location: any }>(record: T): T | null => {
   return { ...record, location: parsedLocation };
 };
 
+// SOS rows from the map RPC carry their breadcrumb trail, whose points need parsing too.
+const processSOSRecord = (record: SOS): SOS | null => {
+  const processed = processRecord(record);
+  if (!processed || !processed.track) return processed;
+  return { ...processed, track: processed.track.map(processRecord).filter(Boolean) as SOSTrackPoint[] };
+};
+
+type RecordChange = RealtimePostgresChangesPayload<{ [key: string]: any }>;
+
+// Applies a single realtime change to a list of records keyed by id. The incoming row is merged
+// over any copy we already hold so joined fields (profiles, attendee_count) survive the update.
+const applyRecordChange = <T extends { id: number }>(records: T[], payload: RecordChange, parse: (row: any) => T | null): T[] => {
+  if (payload.eventType === 'DELETE') {
+    const deletedId = payload.old?.id;
+    return records.filter(r => r.id !== deletedId);
+  }
+  const existing = records.find(r => r.id === payload.new.id);
+  const parsed = parse({ ...existing, ...payload.new });
+  if (!parsed) return records;
+  if (existing) return records.map(r => (r.id === parsed.id ? parsed : r));
+  return [parsed, ...records];
+};
+
+// For lists that aren't bounded by the map: changes only touch records already in the list, and
+// new ones arrive through addLocal* or the next refresh.
+const applyListedRecordChange = <T extends { id: number; location: any }>(records: T[], payload: RecordChange): T[] =>
+  applyRecordChange(records, payload, row => records.some(r => r.id === row.id) ? processRecord(row) : null);
+
+const sortEventsByTime = (list: Event[]) => [...list].sort((a, b) => new Date(a.event_time).getTime() - new Date(b.event_time).getTime());
+
 const reconstructAiEvents = (data: any): AiEvent[] | null => {
     if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
     const keys = ["eventName", "description", "date", "locationString", "sourceURL"];
@@ -59,9 +87,15 @@ const DEFAULT_SETTINGS: UserSettings = {
   },
   privacy: {
     anonymousByDefault: false,
+    shareLiveLocationByDefault: true,
   },
   map: {
     defaultView: 'heatmap',
+    tileSource: 'dark',
+    layers: DEFAULT_MAP_LAYERS,
+  },
+  search: {
+    recentQueries: [],
   },
 };
 
@@ -73,7 +107,19 @@ interface DataContextType {
   events: Event[];
   attendees: EventAttendee[];
   loading: boolean;
+  // The user's own records wherever they are, anonymous ones included, newest first.
+  myVibes: Vibe[];
+  mySOS: SOS[];
+  myEvents: Event[];
+  // Current and recently finished events everywhere, independent of the map area.
+  eventList: Event[];
+  eventListLoading: boolean;
+  eventListError: string | null;
+  attendingEventIds: Set<number>;
   error: string | null;
+  // Viewport-bounded loading; resolves false when the area is too large to load.
+  loadArea: (bounds: MapBounds) => Promise<boolean>;
+  loadNearby: (center: Location, radiusKm: number) => Promise<boolean>;
   addLocalVibe: (vibe: Vibe) => void;
   addLocalSOS: (sos: SOS) => void;
   addLocalEvent: (event: Event) => void;
@@ -83,6 +129,15 @@ interface DataContextType {
   unattendEvent: (eventId: number) => Promise<void>;
   deleteVibe: (vibeId: number) => Promise<void>;
   deleteSOS: (sosId: number) => Promise<void>;
+  // SOS lifecycle; both resolve false when the change was rejected and rolled back.
+  respondToSOS: (sosId: number) => Promise<boolean>;
+  closeSOS: (sosId: number, status: Extract<SOSStatus, 'resolved' | 'false_alarm'>) => Promise<boolean>;
+  stopSOSTracking: (sosId: number) => Promise<boolean>;
+  // Confirms or disputes a vibe (null withdraws the vote); resolves to an error message, or null on success.
+  voteOnVibe: (vibeId: number, vote: VibeVote | null, from: Location) => Promise<string | null>;
+  myVibeVotes: Record<number, VibeVote>;
+  // True for the user's own records, including ones posted anonymously (which carry no user_id).
+  isOwnReport: (table: ReportTable, record: { id: number; user_id: string | null }) => boolean;
   // User location and cached AI data
   currentLocation: Location | null;
   currentAddress: string | null;
@@ -108,6 +163,31 @@ const EVENTS_CACHE_DURATION = 15 * 60 * 1000; // 15 minutes
 const BRIEFING_CACHE_KEY = 'hyperapp-briefing-cache';
 const EVENTS_CACHE_KEY = 'hyperapp-events-cache';
 
+// Realtime changes are applied incrementally; a periodic refresh of the loaded tiles corrects anything we missed.
+const RECONCILE_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+// --- Spatial Cache Configuration ---
+const TILE_ZOOM = 13; // Roughly 5km tiles at the equator
+const TILE_PAGE_SIZE = 500;
+const MAX_PAGES_PER_TILE = 10;
+const MAX_TILES_PER_AREA = 24;
+const MAX_CACHED_TILES = 36;
+const NEARBY_RADIUS_KM = 2;
+
+// --- List Configuration ---
+const MY_RECORDS_LIMIT = 200;
+const EVENT_LIST_LIMIT = 200;
+
+// Votes on reports older than the longest-lasting vibe type no longer matter.
+const VOTE_LOOKBACK_MS = Math.max(...Object.values(VIBE_DECAY_CONFIG).map(c => c.expiryHours)) * 60 * 60 * 1000;
+
+interface TileCacheEntry {
+  lastUsed: number;
+  eventIds: number[];
+}
+
+const locationTileKey = (location: Location) => tileKey(latLngToTile(location, TILE_ZOOM));
+
 
 export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const { session, user } = useContext(AuthContext) || {};
@@ -118,6 +198,23 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [events, setEvents] = useState<Event[]>([]);
   const [attendees, setAttendees] = useState<EventAttendee[]>([]);
   const [loading, setLoading] = useState(true);
+  const [myVibes, setMyVibes] = useState<Vibe[]>([]);
+  const [mySOS, setMySOS] = useState<SOS[]>([]);
+  const [myEvents, setMyEvents] = useState<Event[]>([]);
+  const [eventList, setEventList] = useState<Event[]>([]);
+  const [eventListLoading, setEventListLoading] = useState(true);
+  const [eventListError, setEventListError] = useState<string | null>(null);
+  const [attendingEventIds, setAttendingEventIds] = useState<Set<number>>(new Set());
+  const attendeesRef = useRef(attendees);
+  attendeesRef.current = attendees;
+  const eventsRef = useRef(events);
+  eventsRef.current = events;
+  const eventListRef = useRef(eventList);
+  eventListRef.current = eventList;
+
+  // Spatial cache: which map tiles are loaded, and requests currently in flight.
+  const tileCacheRef = useRef(new Map<string, TileCacheEntry>());
+  const inFlightTilesRef = useRef(new Map<string, Promise<void>>());
   const [error, setError] = useState<string | null>(null);
 
   // User location
@@ -135,6 +232,10 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   
   // User settings
   const [userSettings, setUserSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+
+  // The user's anonymous vibes and SOS alerts, as "table:id" keys from report_owners.
+  const [ownedReports, setOwnedReports] = useState<Set<string>>(new Set());
+  const [myVibeVotes, setMyVibeVotes] = useState<Record<number, VibeVote>>({});
   
   // --- Persistent Cache Hydration ---
   useEffect(() => {
@@ -156,32 +257,117 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, []);
 
-  const fetchData = useCallback(async () => {
-    setLoading(true);
-    try {
-      const { data, error: rpcError } = await supabase.rpc('get_all_public_data');
+  // Fetches one tile page by page and replaces whatever we held for it, so rows deleted while we
+  // weren't listening disappear on the next refresh.
+  const loadTile = useCallback(async (tile: TileCoords) => {
+    const key = tileKey(tile);
+    const bounds = tileToBounds(tile);
+    const fetched = { vibes: [] as Vibe[], sos: [] as SOS[], events: [] as Event[], attendees: [] as EventAttendee[] };
+
+    for (let page = 0; page < MAX_PAGES_PER_TILE; page++) {
+      const { data, error: rpcError } = await supabase.rpc('get_public_data_in_bounds', {
+        min_lat: bounds.south, min_lng: bounds.west, max_lat: bounds.north, max_lng: bounds.east,
+        page_size: TILE_PAGE_SIZE, page_offset: page * TILE_PAGE_SIZE,
+      });
       if (rpcError) throw rpcError;
+      const responseData = data || {};
+      const pageVibes = responseData.vibes || [], pageSos = responseData.sos || [], pageEvents = responseData.events || [];
+      fetched.vibes.push(...(pageVibes.map(processRecord).filter(Boolean) as Vibe[]));
+      fetched.sos.push(...(pageSos.map(processSOSRecord).filter(Boolean) as SOS[]));
+      fetched.events.push(...(pageEvents.map(processRecord).filter(Boolean) as Event[]));
+      fetched.attendees.push(...(responseData.attendees || []));
+      if (Math.max(pageVibes.length, pageSos.length, pageEvents.length) < TILE_PAGE_SIZE) break;
+    }
+
+    // Records on a tile edge can be returned for both neighbours; each one belongs to exactly one tile.
+    const inTile = (r: { location: Location }) => locationTileKey(r.location) === key;
+    const tileEvents = fetched.events.filter(inTile);
+    const previousEventIds = new Set(tileCacheRef.current.get(key)?.eventIds || []);
+    const eventIds = new Set(tileEvents.map(e => e.id));
+
+    setVibes(prev => [...prev.filter(v => locationTileKey(v.location) !== key), ...fetched.vibes.filter(inTile)]);
+    setSos(prev => [...prev.filter(s => locationTileKey(s.location) !== key), ...fetched.sos.filter(inTile)]);
+    setEvents(prev => sortEventsByTime([...prev.filter(e => locationTileKey(e.location) !== key), ...tileEvents]));
+    setAttendees(prev => [
+      ...prev.filter(a => !previousEventIds.has(a.event_id) && !eventIds.has(a.event_id)),
+      ...fetched.attendees.filter(a => eventIds.has(a.event_id)),
+    ]);
+    tileCacheRef.current.set(key, { lastUsed: Date.now(), eventIds: [...eventIds] });
+  }, []);
 
-      // Defensive check: Only update state if data is not null.
-      // This prevents wiping out the UI if the RPC returns an empty success response.
-      if (data) {
-        setError(null); // Clear previous errors on a successful fetch
-        const responseData = data || {};
-        setVibes((responseData.vibes || []).map(processRecord).filter(Boolean) as Vibe[]);
-        setSos((responseData.sos || []).map(processRecord).filter(Boolean) as SOS[]);
-        setEvents((responseData.events || []).map(processRecord).filter(Boolean) as Event[]);
-        setAttendees(responseData.attendees || []);
-      } else {
-        console.warn("Received null data from get_all_public_data RPC. Keeping existing data.");
+  const loadTiles = useCallback(async (tiles: TileCoords[]) => {
+    const pending = tiles.map(tile => {
+      const key = tileKey(tile);
+      let request = inFlightTilesRef.current.get(key);
+      if (!request) {
+        request = loadTile(tile).finally(() => inFlightTilesRef.current.delete(key));
+        inFlightTilesRef.current.set(key, request);
       }
+      return request;
+    });
+    try {
+      await Promise.all(pending);
+      setError(null); // Clear previous errors on a successful fetch
     } catch (err: any) {
       // Don't clear data on error, just show the error message.
       setError(`Error fetching data: ${err.message}`);
     } finally {
       setLoading(false);
     }
+  }, [loadTile]);
+
+  // Drops the least recently viewed tiles (and their records) once the cache grows past its cap.
+  const evictTiles = useCallback((keep: Set<string>) => {
+    const cache = tileCacheRef.current;
+    if (cache.size <= MAX_CACHED_TILES) return;
+    const evictable = [...cache.entries()]
+      .filter(([key]) => !keep.has(key))
+      .sort(([, a], [, b]) => a.lastUsed - b.lastUsed)
+      .slice(0, cache.size - MAX_CACHED_TILES);
+    if (evictable.length === 0) return;
+
+    const evictedKeys = new Set(evictable.map(([key]) => key));
+    const evictedEventIds = new Set(evictable.flatMap(([, entry]) => entry.eventIds));
+    evictedKeys.forEach(key => cache.delete(key));
+    const isKept = (r: { location: Location }) => !evictedKeys.has(locationTileKey(r.location));
+    setVibes(prev => prev.filter(isKept));
+    setSos(prev => prev.filter(isKept));
+    setEvents(prev => prev.filter(isKept));
+    setAttendees(prev => prev.filter(a => !evictedEventIds.has(a.event_id)));
   }, []);
-  
+
+  const loadArea = useCallback(async (bounds: MapBounds): Promise<boolean> => {
+    const tiles = tilesInBounds(bounds, TILE_ZOOM);
+    if (tiles.length > MAX_TILES_PER_AREA) return false; // Zoomed out too far to load everything in view.
+
+    const now = Date.now();
+    const visibleKeys = new Set(tiles.map(tileKey));
+    const missing = tiles.filter(tile => {
+      const entry = tileCacheRef.current.get(tileKey(tile));
+      if (entry) entry.lastUsed = now;
+      return !entry;
+    });
+    if (missing.length > 0) await loadTiles(missing);
+    evictTiles(visibleKeys);
+    return true;
+  }, [loadTiles, evictTiles]);
+
+  const loadNearby = useCallback((center: Location, radiusKm: number) => loadArea(boundsAround(center, radiusKm)), [loadArea]);
+
+  const refreshLoadedTiles = useCallback(() => {
+    const tiles = [...tileCacheRef.current.keys()].map(key => {
+      const [zoom, x, y] = key.split('/').map(Number);
+      return { x, y, zoom };
+    });
+    if (tiles.length > 0) loadTiles(tiles);
+  }, [loadTiles]);
+
+  // Realtime rows outside the tiles we hold are ignored; they'll be fetched when that area is viewed.
+  const processHeldRecord = useCallback(<T extends { location: any }>(row: T): T | null => {
+    const record = processRecord(row);
+    return record && tileCacheRef.current.has(locationTileKey(record.location)) ? record : null;
+  }, []);
+
   const fetchUserSettings = useCallback(async (userId: string) => {
     const { data, error } = await supabase.from('user_settings').select('settings').eq('user_id', userId).single();
     if (data && data.settings) {
@@ -190,7 +376,8 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             ...data.settings,
             notifications: { ...DEFAULT_SETTINGS.notifications, ...data.settings.notifications },
             privacy: { ...DEFAULT_SETTINGS.privacy, ...data.settings.privacy },
-            map: { ...DEFAULT_SETTINGS.map, ...data.settings.map },
+            map: { ...DEFAULT_SETTINGS.map, ...data.settings.map, layers: mergeMapLayers(data.settings.map?.layers) },
+            search: { ...DEFAULT_SETTINGS.search, ...data.settings.search },
         };
         setUserSettings(mergedSettings);
     } else if (error && error.code !== 'PGRST116') {
@@ -216,6 +403,77 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, [user, fetchUserSettings]);
 
+  const fetchOwnedReports = useCallback(async () => {
+    const { data, error } = await supabase.from('report_owners').select('source_table, source_id');
+    if (error) {
+      console.error("Error fetching your anonymous reports:", error.message);
+      return;
+    }
+    setOwnedReports(new Set((data || []).map(row => `${row.source_table}:${row.source_id}`)));
+  }, []);
+
+  const fetchMyRecords = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_my_records', { page_size: MY_RECORDS_LIMIT });
+    if (error) {
+      console.error("Error fetching your activity:", error.message);
+      return;
+    }
+    const responseData = data || {};
+    setMyVibes((responseData.vibes || []).map(processRecord).filter(Boolean) as Vibe[]);
+    setMySOS((responseData.sos || []).map(processSOSRecord).filter(Boolean) as SOS[]);
+    setMyEvents((responseData.events || []).map(processRecord).filter(Boolean) as Event[]);
+  }, []);
+
+  const fetchEventList = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_event_list', { page_size: EVENT_LIST_LIMIT });
+    if (error) {
+      setEventListError(`Error fetching events: ${error.message}`);
+    } else {
+      setEventListError(null);
+      const responseData = data || {};
+      setEventList((responseData.events || []).map(processRecord).filter(Boolean) as Event[]);
+      setAttendingEventIds(new Set(responseData.attending || []));
+    }
+    setEventListLoading(false);
+  }, []);
+
+  const refreshMyRecords = useCallback(() => {
+    fetchOwnedReports();
+    fetchMyRecords();
+  }, [fetchOwnedReports, fetchMyRecords]);
+
+  // Queued anonymous reports get their owner row when they're finally sent, so reload after the queue changes.
+  useEffect(() => {
+    if (!user) {
+      setOwnedReports(new Set());
+      setMyVibes([]);
+      setMySOS([]);
+      setMyEvents([]);
+      setAttendingEventIds(new Set());
+      return;
+    }
+    refreshMyRecords();
+    fetchEventList();
+    window.addEventListener(OFFLINE_QUEUE_CHANGED_EVENT, refreshMyRecords);
+    return () => window.removeEventListener(OFFLINE_QUEUE_CHANGED_EVENT, refreshMyRecords);
+  }, [user, refreshMyRecords, fetchEventList]);
+
+  // Votes older than the longest-lived vibe type can't be on a report that still shows.
+  useEffect(() => {
+    if (!user) {
+      setMyVibeVotes({});
+      return;
+    }
+    const since = new Date(Date.now() - VOTE_LOOKBACK_MS).toISOString();
+    supabase.from('vibe_votes').select('vibe_id, vote').eq('user_id', user.id).gte('created_at', since).then(({ data, error }) => {
+      if (error) console.error("Error fetching your vibe votes:", error.message);
+      else setMyVibeVotes(Object.fromEntries((data || []).map(row => [row.vibe_id, row.vote as VibeVote])));
+    });
+  }, [user]);
+
+  const isOwnReport = useCallback((table: ReportTable, record: { id: number; user_id: string | null }) =>
+    !!user && (record.user_id === user.id || ownedReports.has(`${table}:${record.id}`)), [user, ownedReports]);
+
   useEffect(() => {
     if (!session) return;
     navigator.geolocation.getCurrentPosition(async (position) => {
@@ -233,23 +491,121 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }, (err) => {
         console.error("Could not get location:", err);
         setCurrentAddress("Location permission denied.");
+        setLoading(false); // Nothing to load until the map is moved somewhere.
     });
   }, [session]);
 
   useEffect(() => {
-    if (session) {
-      fetchData();
+    if (currentLocation) {
+      loadNearby(currentLocation, NEARBY_RADIUS_KM);
     }
-  }, [session, fetchData]);
+  }, [currentLocation, loadNearby]);
+
+  // A record can be both on the map and in the non-spatial lists, so changes are applied to each.
+  const updateVibeLists = useCallback((update: (list: Vibe[]) => Vibe[]) => {
+    setVibes(update);
+    setMyVibes(update);
+  }, []);
+  const updateSOSLists = useCallback((update: (list: SOS[]) => SOS[]) => {
+    setSos(update);
+    setMySOS(update);
+  }, []);
+  const updateEventLists = useCallback((update: (list: Event[]) => Event[]) => {
+    setEvents(update);
+    setEventList(update);
+    setMyEvents(update);
+  }, []);
+
+  const adjustAttendeeCount = useCallback((eventId: number, delta: number) => {
+    updateEventLists(prev => prev.map(e => e.id === eventId ? { ...e, attendee_count: Math.max(0, (e.attendee_count || 0) + delta) } : e));
+  }, [updateEventLists]);
+
+  const handleAttendeeChange = useCallback((payload: RecordChange) => {
+    if (payload.eventType === 'DELETE') {
+      const known = attendeesRef.current.find(a => a.id === payload.old?.id);
+      // Our own unattendEvent has already removed the row and adjusted the count optimistically.
+      if (!known) return;
+      setAttendees(prev => prev.filter(a => a.id !== known.id));
+      adjustAttendeeCount(known.event_id, -1);
+      return;
+    }
+    const row = payload.new as EventAttendee;
+    if (!eventsRef.current.some(e => e.id === row.event_id) && !eventListRef.current.some(e => e.id === row.event_id)) return;
+    const isSameAttendance = (a: EventAttendee) => a.id === row.id || (a.event_id === row.event_id && a.user_id === row.user_id);
+    const known = attendeesRef.current.some(isSameAttendance);
+    // Replaces the optimistic placeholder (id -1) from attendEvent with the real row.
+    setAttendees(prev => [...prev.filter(a => !isSameAttendance(a)), row]);
+    if (!known && payload.eventType === 'INSERT') adjustAttendeeCount(row.event_id, 1);
+  }, [adjustAttendeeCount]);
+
+  const handleSOSHistoryInsert = useCallback((payload: RecordChange) => {
+    const change = payload.new as SOSStatusChange;
+    updateSOSLists(prev => prev.map(s => {
+      if (s.id !== change.sos_id || s.status_history?.some(h => h.id === change.id)) return s;
+      return { ...s, status_history: [...(s.status_history || []), change] };
+    }));
+  }, [updateSOSLists]);
+
+  const handleSOSResponderInsert = useCallback((payload: RecordChange) => {
+    const { sos_id, user_id } = payload.new as { sos_id: number; user_id: string };
+    updateSOSLists(prev => prev.map(s => {
+      if (s.id !== sos_id || s.responder_ids?.includes(user_id)) return s;
+      return { ...s, responder_ids: [...(s.responder_ids || []), user_id] };
+    }));
+  }, [updateSOSLists]);
+
+  const handleSOSTrackInsert = useCallback((payload: RecordChange) => {
+    const point = processRecord(payload.new as SOSTrackPoint);
+    if (!point) return;
+    updateSOSLists(prev => prev.map(s => {
+      if (s.id !== point.sos_id || s.track?.some(p => p.id === point.id)) return s;
+      return { ...s, track: [...(s.track || []), point] };
+    }));
+  }, [updateSOSLists]);
 
   useEffect(() => {
+    if (!session) return;
+    const refreshAll = () => {
+      refreshLoadedTiles();
+      refreshMyRecords();
+      fetchEventList();
+    };
+    let hasSubscribed = false;
     const changesChannel = supabase.channel('public-changes')
-      .on('postgres_changes', { event: '*', schema: 'public' }, () => fetchData())
-      .subscribe();
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'vibes' },
+        (payload) => {
+          setVibes(prev => applyRecordChange(prev, payload, processHeldRecord) as Vibe[]);
+          setMyVibes(prev => applyListedRecordChange(prev, payload) as Vibe[]);
+        })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'sos' },
+        (payload) => {
+          setSos(prev => applyRecordChange(prev, payload, processHeldRecord) as SOS[]);
+          setMySOS(prev => applyListedRecordChange(prev, payload) as SOS[]);
+        })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'events' },
+        (payload) => {
+          setEvents(prev => sortEventsByTime(applyRecordChange(prev, payload, processHeldRecord) as Event[]));
+          setEventList(prev => sortEventsByTime(applyListedRecordChange(prev, payload) as Event[]));
+          setMyEvents(prev => applyListedRecordChange(prev, payload) as Event[]);
+        })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'event_attendees' }, handleAttendeeChange)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'sos_status_history' }, handleSOSHistoryInsert)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'sos_responders' }, handleSOSResponderInsert)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'sos_track_points' }, handleSOSTrackInsert)
+      .subscribe((status) => {
+        // Changes made while the socket was down are never replayed, so reconcile after a reconnect.
+        if (status === 'SUBSCRIBED') {
+          if (hasSubscribed) refreshAll();
+          hasSubscribed = true;
+        }
+      });
+
+    const reconcileTimer = setInterval(refreshAll, RECONCILE_INTERVAL);
     return () => {
+      clearInterval(reconcileTimer);
       supabase.removeChannel(changesChannel);
     };
-  }, [fetchData]);
+  }, [session, refreshLoadedTiles, refreshMyRecords, fetchEventList, processHeldRecord, handleAttendeeChange, handleSOSHistoryInsert, handleSOSResponderInsert, handleSOSTrackInsert]);
   
   const fetchLiveBriefing = useCallback(async (forceRefresh = false) => {
     const cacheRaw = localStorage.getItem(BRIEFING_CACHE_KEY);
@@ -386,62 +742,152 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     localStorage.removeItem(EVENTS_CACHE_KEY);
   };
   
-  const addLocalVibe = (vibe: Vibe) => setVibes(prev => [vibe, ...prev]);
-  const addLocalSOS = (sosItem: SOS) => setSos(prev => [sosItem, ...prev]);
-  const addLocalEvent = (event: Event) => setEvents(prev => [...prev, event].sort((a,b) => new Date(a.event_time).getTime() - new Date(b.event_time).getTime()));
+  // The realtime INSERT for the same row may arrive before these, so drop any copy we already hold.
+  // Local records are always the user's own, so anonymous ones are remembered as owned.
+  const rememberOwned = (table: ReportTable, record: Vibe | SOS) => {
+    if (record.is_anonymous) setOwnedReports(prev => new Set(prev).add(`${table}:${record.id}`));
+  };
+  const addLocalVibe = (vibe: Vibe) => {
+    rememberOwned('vibes', vibe);
+    updateVibeLists(prev => [vibe, ...prev.filter(v => v.id !== vibe.id)]);
+  };
+  const addLocalSOS = (sosItem: SOS) => {
+    rememberOwned('sos', sosItem);
+    updateSOSLists(prev => [sosItem, ...prev.filter(s => s.id !== sosItem.id)]);
+  };
+  const addLocalEvent = (event: Event) => {
+    setEvents(prev => sortEventsByTime([...prev.filter(e => e.id !== event.id), event]));
+    setEventList(prev => sortEventsByTime([...prev.filter(e => e.id !== event.id), event]));
+    setMyEvents(prev => [event, ...prev.filter(e => e.id !== event.id)]);
+  };
+
+  // Optimistic changes touch several lists; these capture them all so a failed request can restore them.
+  const snapshotVibeLists = () => {
+    const originalVibes = vibes, originalMyVibes = myVibes;
+    return () => { setVibes(originalVibes); setMyVibes(originalMyVibes); };
+  };
+  const snapshotSOSLists = () => {
+    const originalSOS = sos, originalMySOS = mySOS;
+    return () => { setSos(originalSOS); setMySOS(originalMySOS); };
+  };
+  const snapshotEventLists = () => {
+    const originalEvents = events, originalEventList = eventList, originalMyEvents = myEvents;
+    const originalAttendees = attendees, originalAttendingIds = attendingEventIds;
+    return () => {
+      setEvents(originalEvents); setEventList(originalEventList); setMyEvents(originalMyEvents);
+      setAttendees(originalAttendees); setAttendingEventIds(originalAttendingIds);
+    };
+  };
   
   const deleteVibe = async (vibeId: number) => {
-    const originalVibes = vibes;
-    setVibes(prev => prev.filter(v => v.id !== vibeId));
+    const rollback = snapshotVibeLists();
+    updateVibeLists(prev => prev.filter(v => v.id !== vibeId));
     const { error } = await supabase.from('vibes').delete().eq('id', vibeId);
-    if (error) setVibes(originalVibes);
+    if (error) rollback();
   };
   
   const deleteSOS = async (sosId: number) => {
-    const originalSOS = sos;
-    setSos(prev => prev.filter(s => s.id !== sosId));
+    const rollback = snapshotSOSLists();
+    updateSOSLists(prev => prev.filter(s => s.id !== sosId));
     const { error } = await supabase.from('sos').delete().eq('id', sosId);
-    if (error) setSos(originalSOS);
+    if (error) rollback();
+  };
+
+  // Status changes go through RPCs so the database can enforce who may make them and record the history.
+  const respondToSOS = async (sosId: number) => {
+    const userId = session?.user?.id; if (!userId) return false;
+    const rollback = snapshotSOSLists();
+    updateSOSLists(prev => prev.map(s => s.id !== sosId ? s : {
+      ...s,
+      status: getSOSStatus(s) === 'open' ? 'acknowledged' : getSOSStatus(s),
+      responder_ids: s.responder_ids?.includes(userId) ? s.responder_ids : [...(s.responder_ids || []), userId],
+    }));
+    const { error } = await supabase.rpc('respond_to_sos', { target_sos_id: sosId });
+    if (error) { console.error("Could not respond to SOS:", error.message); rollback(); }
+    return !error;
+  };
+
+  const closeSOS = async (sosId: number, status: Extract<SOSStatus, 'resolved' | 'false_alarm'>) => {
+    const rollback = snapshotSOSLists();
+    updateSOSLists(prev => prev.map(s => s.id === sosId ? { ...s, status, resolved: true, status_updated_at: new Date().toISOString(), tracking_expires_at: null } : s));
+    const { error } = await supabase.rpc('set_sos_status', { target_sos_id: sosId, new_status: status });
+    if (error) { console.error("Could not update SOS status:", error.message); rollback(); }
+    return !error;
+  };
+
+  const stopSOSTracking = async (sosId: number) => {
+    const rollback = snapshotSOSLists();
+    updateSOSLists(prev => prev.map(s => s.id === sosId ? { ...s, tracking_expires_at: null } : s));
+    const { error } = await supabase.rpc('stop_sos_tracking', { target_sos_id: sosId });
+    if (error) { console.error("Could not stop live tracking:", error.message); rollback(); }
+    return !error;
+  };
+
+  // The counts come back from the RPC; other clients get them through the vibe's realtime UPDATE.
+  const voteOnVibe = async (vibeId: number, vote: VibeVote | null, from: Location) => {
+    const previousVote = myVibeVotes[vibeId];
+    const setVote = (value: VibeVote | undefined) => setMyVibeVotes(prev => {
+      const { [vibeId]: _, ...rest } = prev;
+      return value ? { ...rest, [vibeId]: value } : rest;
+    });
+    setVote(vote ?? undefined);
+    const { data, error } = await supabase.rpc('vote_on_vibe', { target_vibe_id: vibeId, p_vote: vote ?? 0, p_lat: from.lat, p_lng: from.lng });
+    if (error) {
+      console.error("Could not vote on vibe:", error.message);
+      setVote(previousVote);
+      return error.message;
+    }
+    updateVibeLists(prev => prev.map(v => v.id === vibeId
+      ? { ...v, confirm_count: data.confirm_count, dispute_count: data.dispute_count, credibility: data.credibility }
+      : v));
+    return null;
   };
 
   const deleteEvent = async (eventId: number) => {
-    const originalEvents = events;
-    setEvents(prev => prev.filter(e => e.id !== eventId));
+    const rollback = snapshotEventLists();
+    updateEventLists(prev => prev.filter(e => e.id !== eventId));
     const { error } = await supabase.from('events').delete().eq('id', eventId);
-    if (error) setEvents(originalEvents);
+    if (error) rollback();
   };
 
   const updateEvent = async (updatedEvent: Event) => {
-      const originalEvents = events;
-      setEvents(prev => prev.map(e => e.id === updatedEvent.id ? updatedEvent : e));
+      const rollback = snapshotEventLists();
+      updateEventLists(prev => prev.map(e => e.id === updatedEvent.id ? updatedEvent : e));
       const { error } = await supabase.from('events').update({
           title: updatedEvent.title, description: updatedEvent.description, event_time: updatedEvent.event_time, end_time: updatedEvent.end_time
       }).eq('id', updatedEvent.id);
-      if (error) setEvents(originalEvents);
+      if (error) rollback();
   };
   
   const attendEvent = async (eventId: number) => {
       const userId = session?.user?.id; if (!userId) return;
-      const originalEvents = events, originalAttendees = attendees;
-      setEvents(prev => prev.map(e => e.id === eventId ? { ...e, attendee_count: (e.attendee_count || 0) + 1 } : e));
+      const rollback = snapshotEventLists();
+      updateEventLists(prev => prev.map(e => e.id === eventId ? { ...e, attendee_count: (e.attendee_count || 0) + 1 } : e));
       setAttendees(prev => [...prev, { id: -1, event_id: eventId, user_id: userId, created_at: new Date().toISOString() }]);
+      setAttendingEventIds(prev => new Set(prev).add(eventId));
       const { error } = await supabase.from('event_attendees').insert({ event_id: eventId, user_id: userId });
-      if (error) { setEvents(originalEvents); setAttendees(originalAttendees); }
+      if (error) rollback();
   };
 
   const unattendEvent = async (eventId: number) => {
     const userId = session?.user?.id; if (!userId) return;
-    const originalEvents = events, originalAttendees = attendees;
-    setEvents(prev => prev.map(e => e.id === eventId ? { ...e, attendee_count: Math.max(0, (e.attendee_count || 1) - 1) } : e));
+    const rollback = snapshotEventLists();
+    updateEventLists(prev => prev.map(e => e.id === eventId ? { ...e, attendee_count: Math.max(0, (e.attendee_count || 1) - 1) } : e));
     setAttendees(prev => prev.filter(a => !(a.event_id === eventId && a.user_id === userId)));
+    setAttendingEventIds(prev => {
+      const next = new Set(prev);
+      next.delete(eventId);
+      return next;
+    });
     const { error } = await supabase.from('event_attendees').delete().eq('event_id', eventId).eq('user_id', userId);
-    if (error) { setEvents(originalEvents); setAttendees(originalAttendees); }
+    if (error) rollback();
   };
 
   const value = {
-    vibes, sos, events, attendees, loading, error,
+    vibes, sos, events, attendees, loading, error, loadArea, loadNearby,
+    myVibes, mySOS, myEvents, eventList, eventListLoading, eventListError, attendingEventIds,
     addLocalVibe, addLocalSOS, addLocalEvent, updateEvent, deleteEvent, attendEvent, unattendEvent,
-    deleteVibe, deleteSOS,
+    deleteVibe, deleteSOS, respondToSOS, closeSOS, stopSOSTracking, voteOnVibe, myVibeVotes, isOwnReport,
     currentLocation, currentAddress,
     liveBriefing, liveBriefingLoading, liveBriefingError, fetchLiveBriefing,
     aiEvents, aiEventsLoading, aiEventsError, fetchAiEvents, clearAiCache,
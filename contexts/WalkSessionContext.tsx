@@ -0,0 +1,342 @@
+import React, { createContext, useState, useEffect, useContext, useCallback, useRef, ReactNode } from 'react';
+import { AuthContext } from './AuthContext';
+import { useData } from './DataContext';
+import { useNotification } from './NotificationContext';
+import { sendSOS, queueSOS, isDuplicateWalkSOSError } from '../services/sosService';
+import { createServerWalk, extendServerWalk, saveServerWalkLocation, endServerWalk } from '../services/walkService';
+import { isOfflineError } from '../services/offlineQueue';
+import { startLocalAlarm } from '../utils/alarm';
+import type { WalkSession, WalkSessionStatus, Location } from '../types';
+
+const WALK_SESSION_KEY = 'hyperapp-walk-session';
+export const WALK_PROMPT_RESPONSE_MS = 2 * 60 * 1000; // How long the "Are you OK?" prompt waits.
+export const WALK_ALARM_MS = 60 * 1000; // How long the local alarm sounds before the automatic SOS.
+const ESCALATION_RETRY_MS = 30 * 1000;
+// Another tab that started sending the SOS this recently is left to finish.
+const ESCALATION_LOCK_MS = 2 * 60 * 1000;
+const LOCATION_SAVE_INTERVAL_MS = 15 * 1000;
+const SERVER_LOCATION_SAVE_INTERVAL_MS = 60 * 1000;
+
+interface StartWalkParams {
+  destination: WalkSession['destination'];
+  durationMinutes: number;
+}
+
+interface WalkSessionContextType {
+  session: WalkSession | null;
+  startWalk: (params: StartWalkParams) => void;
+  checkIn: () => Promise<void>;
+  extendWalk: (minutes: number) => void;
+  escalateNow: () => void;
+  dismiss: () => void;
+}
+
+export const WalkSessionContext = createContext<WalkSessionContextType | undefined>(undefined);
+
+export const useWalkSession = () => {
+  const context = useContext(WalkSessionContext);
+  if (!context) throw new Error('useWalkSession must be used within a WalkSessionProvider');
+  return context;
+};
+
+const readStoredSession = (): WalkSession | null => {
+  try {
+    const raw = localStorage.getItem(WALK_SESSION_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    console.error("Could not read the walk session:", e);
+    localStorage.removeItem(WALK_SESSION_KEY);
+    return null;
+  }
+};
+
+const withStatus = (session: WalkSession, status: WalkSessionStatus, changedAt: number): WalkSession =>
+  ({ ...session, status, status_changed_at: new Date(changedAt).toISOString() });
+
+const getEscalationLockExpiry = (session: WalkSession): number =>
+  session.escalation_started_at ? new Date(session.escalation_started_at).getTime() + ESCALATION_LOCK_MS : 0;
+
+// Each stage's deadline is chained from the previous one rather than from when the tab noticed it,
+// so a page reopened long after the arrival time catches up instead of restarting the countdown.
+const getStageDeadline = (session: WalkSession): number | null => {
+  const changedAt = new Date(session.status_changed_at).getTime();
+  switch (session.status) {
+    case 'active': return new Date(session.expected_arrival).getTime();
+    case 'prompting': return changedAt + WALK_PROMPT_RESPONSE_MS;
+    case 'alarm': return Math.max(changedAt + WALK_ALARM_MS, getEscalationLockExpiry(session));
+    default: return null;
+  }
+};
+
+const getPositionOnce = (): Promise<Location | null> => new Promise(resolve => {
+  if (!('geolocation' in navigator)) return resolve(null);
+  navigator.geolocation.getCurrentPosition(
+    p => resolve({ lat: p.coords.latitude, lng: p.coords.longitude }),
+    () => resolve(null),
+    { enableHighAccuracy: true, timeout: 10000, maximumAge: 30000 },
+  );
+});
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Runs the "Walk with me" check-in timer. The session lives in localStorage so it survives reloads
+ * and is shared between tabs; if the walker doesn't check in by the expected arrival they are
+ * prompted, then a local alarm sounds, then an SOS is sent from their last known location.
+ * The walk is also recorded on the server (walk_sessions.sql), which sends the SOS itself if this
+ * device never does.
+ */
+export const WalkSessionProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const auth = useContext(AuthContext);
+  const { addLocalSOS, currentLocation, userSettings } = useData();
+  const { showNotification } = useNotification();
+  const userId = auth?.user?.id;
+  const [session, setSession] = useState<WalkSession | null>(readStoredSession);
+  const escalatingRef = useRef(false);
+  // The server row for a walk started in this tab, while it's still being created.
+  const pendingServerWalkRef = useRef<{ walkId: string; serverId: Promise<number | null> } | null>(null);
+
+  // Another account's walk (e.g. after switching users on a shared device) is never resumed.
+  const ownSession = session && session.user_id === userId ? session : null;
+
+  const updateSession = useCallback((next: WalkSession | null | ((prev: WalkSession | null) => WalkSession | null)) => {
+    setSession(prev => {
+      const value = typeof next === 'function' ? next(prev) : next;
+      if (value) localStorage.setItem(WALK_SESSION_KEY, JSON.stringify(value));
+      else localStorage.removeItem(WALK_SESSION_KEY);
+      return value;
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === WALK_SESSION_KEY) setSession(e.newValue ? JSON.parse(e.newValue) : null);
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const startWalk = useCallback(({ destination, durationMinutes }: StartWalkParams) => {
+    if (!userId) return;
+    const now = Date.now();
+    const walk: WalkSession = {
+      id: `${now}`,
+      user_id: userId,
+      destination,
+      started_at: new Date(now).toISOString(),
+      expected_arrival: new Date(now + durationMinutes * 60 * 1000).toISOString(),
+      status: 'active',
+      status_changed_at: new Date(now).toISOString(),
+      last_location: currentLocation,
+      last_location_at: currentLocation ? new Date(now).toISOString() : null,
+    };
+    updateSession(walk);
+    // Asked now, while there's a user gesture, so the check-in prompt can reach a background tab.
+    if ('Notification' in window && Notification.permission === 'default') Notification.requestPermission();
+
+    const serverId = createServerWalk(walk, userSettings.privacy.anonymousByDefault)
+      .then(id => {
+        // The walk was dismissed, or replaced from another tab, before the server had it: end it there too.
+        const stored = readStoredSession();
+        if (stored?.id !== walk.id) {
+          endServerWalk(id).catch(err => console.error("Could not end the walk on the server:", err));
+          return null;
+        }
+        // Another tab may have extended it in the meantime.
+        if (stored.expected_arrival !== walk.expected_arrival) {
+          extendServerWalk(id, stored.expected_arrival).catch(err => console.error("Could not extend the walk on the server:", err));
+        }
+        updateSession(prev => prev && prev.id === walk.id ? { ...prev, server_id: id } : prev);
+        return id;
+      })
+      .catch(err => {
+        console.error("Could not record the walk on the server:", err);
+        showNotification("Your walk couldn't be saved online, so only this device is watching it. Keep the app open.", 'error');
+        return null;
+      })
+      .finally(() => {
+        if (pendingServerWalkRef.current?.walkId === walk.id) pendingServerWalkRef.current = null;
+      });
+    pendingServerWalkRef.current = { walkId: walk.id, serverId };
+  }, [userId, currentLocation, userSettings.privacy.anonymousByDefault, updateSession, showNotification]);
+
+  // Waits for the server row when the walk is still being created, so check-ins and extensions
+  // made in the meantime reach the server too.
+  const getServerId = useCallback(async (walk: WalkSession): Promise<number | null> => {
+    if (walk.server_id) return walk.server_id;
+    const pending = pendingServerWalkRef.current;
+    return pending?.walkId === walk.id ? pending.serverId : null;
+  }, []);
+
+  // The walk only ends once the server has stopped watching it too, or it could still send an SOS.
+  const checkIn = useCallback(async () => {
+    const current = readStoredSession();
+    if (!current) return;
+    const serverId = await getServerId(current);
+    if (serverId) {
+      try {
+        const serverWalk = await endServerWalk(serverId);
+        if (serverWalk?.status === 'escalated') {
+          updateSession(prev => prev && prev.id === current.id ? { ...withStatus(prev, 'escalated', Date.now()), escalated_sos_id: serverWalk.sos_id } : prev);
+          showNotification("An SOS was already sent because you didn't check in. Close it from the SOS screen now that you're safe.", 'error');
+          return;
+        }
+      } catch (err) {
+        console.error("Could not end the walk on the server:", err);
+        showNotification("Couldn't end your walk. Check your connection and try again, or an SOS may still be sent.", 'error');
+        return;
+      }
+    }
+    updateSession(null);
+    showNotification("Checked in. Glad you made it safely.", 'info');
+  }, [getServerId, updateSession, showNotification]);
+
+  const extendWalk = useCallback((minutes: number) => {
+    const current = readStoredSession();
+    if (!current || current.status === 'escalated') return;
+    const now = Date.now();
+    const base = Math.max(now, new Date(current.expected_arrival).getTime());
+    const expectedArrival = new Date(base + minutes * 60 * 1000).toISOString();
+    updateSession(prev => prev && prev.id === current.id && prev.status !== 'escalated'
+      ? { ...withStatus(prev, 'active', now), expected_arrival: expectedArrival }
+      : prev);
+    getServerId(current)
+      .then(serverId => serverId && extendServerWalk(serverId, expectedArrival))
+      .catch(err => {
+        console.error("Could not extend the walk on the server:", err);
+        showNotification("Couldn't save the extra time online. Keep the app open so you can check in.", 'error');
+      });
+  }, [getServerId, updateSession, showNotification]);
+
+  const dismiss = useCallback(() => updateSession(null), [updateSession]);
+
+  const escalate = useCallback(async (target: WalkSession) => {
+    // Another tab may already have sent it, or be sending it.
+    const stored = readStoredSession();
+    if (escalatingRef.current || !stored || stored.id !== target.id || stored.status === 'escalated') return;
+    if (getEscalationLockExpiry(stored) > Date.now()) return;
+    escalatingRef.current = true;
+    updateSession(prev => prev && prev.id === target.id ? { ...prev, escalation_started_at: new Date().toISOString() } : prev);
+
+    let location = target.last_location || await getPositionOnce() || currentLocation;
+    let locationNote = target.last_location_at ? `Last known location at ${formatTime(target.last_location_at)}.` : 'Location taken when the alert was sent.';
+    if (!location) {
+      location = target.destination.location;
+      locationNote = 'No location was available; this is where they were heading.';
+    }
+    const params = {
+      userId: target.user_id,
+      details: `Automatic SOS from "Walk with me": no check-in from a walk to ${target.destination.name} that was due at ${formatTime(target.expected_arrival)}. ${locationNote}`,
+      location,
+      liveTracking: true,
+      anonymous: userSettings.privacy.anonymousByDefault,
+      walkSessionId: await getServerId(stored),
+    };
+
+    // The walk is marked escalated only once its SOS has been sent or safely queued.
+    const markEscalated = (changes: Partial<WalkSession>) => updateSession(prev => prev && prev.id === target.id
+      ? { ...withStatus(prev, 'escalated', Date.now()), escalation_started_at: null, ...changes }
+      : prev);
+    const retryLater = () => updateSession(prev => prev && prev.id === target.id
+      // Back to the alarm stage with a deadline ESCALATION_RETRY_MS from now.
+      ? { ...withStatus(prev, 'alarm', Date.now() - WALK_ALARM_MS + ESCALATION_RETRY_MS), escalation_started_at: null }
+      : prev);
+
+    try {
+      const { sos } = await sendSOS(params);
+      addLocalSOS(sos);
+      markEscalated({ escalated_sos_id: sos.id });
+      showNotification("You didn't check in, so an SOS has been sent with your location.", 'error');
+    } catch (err: any) {
+      if (isDuplicateWalkSOSError(err)) {
+        // The server's worker sent it while this device was away.
+        markEscalated({});
+        showNotification("You didn't check in, so an SOS has been sent with your last known location.", 'error');
+      } else if (isOfflineError(err)) {
+        try {
+          await queueSOS(params);
+          markEscalated({ sos_queued: true });
+          showNotification("You didn't check in. You're offline, so the SOS is queued and will send as soon as you reconnect.", 'error');
+        } catch (queueError) {
+          console.error("Could not queue the automatic SOS, retrying:", queueError);
+          retryLater();
+        }
+      } else {
+        console.error("Automatic SOS failed, retrying:", err);
+        retryLater();
+      }
+    } finally {
+      escalatingRef.current = false;
+    }
+  }, [addLocalSOS, currentLocation, userSettings.privacy.anonymousByDefault, getServerId, updateSession, showNotification]);
+
+  const escalateNow = useCallback(() => {
+    if (ownSession && ownSession.status !== 'escalated') escalate(ownSession);
+  }, [ownSession, escalate]);
+
+  // Advances to the next stage when the current one's deadline passes.
+  useEffect(() => {
+    if (!ownSession) return;
+    const deadline = getStageDeadline(ownSession);
+    if (deadline === null) return;
+    const timer = setTimeout(() => {
+      if (ownSession.status === 'active') updateSession(withStatus(ownSession, 'prompting', deadline));
+      else if (ownSession.status === 'prompting') updateSession(withStatus(ownSession, 'alarm', deadline));
+      else escalate(ownSession);
+    }, Math.max(0, deadline - Date.now()));
+    return () => clearTimeout(timer);
+  }, [ownSession, updateSession, escalate]);
+
+  const stage = ownSession?.status;
+
+  useEffect(() => {
+    if (stage !== 'prompting' || !('Notification' in window) || Notification.permission !== 'granted') return;
+    navigator.serviceWorker?.ready.then(registration => registration.showNotification('Are you OK?', {
+      body: "You haven't checked in from your walk. Open the app to check in, or an SOS will be sent.",
+      tag: 'walk-check-in',
+      requireInteraction: true,
+      data: { url: '/' },
+    })).catch(e => console.error("Could not show the check-in prompt:", e));
+  }, [stage]);
+
+  useEffect(() => {
+    if (stage !== 'alarm') return;
+    return startLocalAlarm();
+  }, [stage]);
+
+  // Keeps the last known location fresh for as long as the walk can still escalate, here and, less
+  // often, on the server for its worker to use.
+  const isWatching = !!stage && stage !== 'escalated';
+  const serverIdRef = useRef<number | null | undefined>(null);
+  serverIdRef.current = ownSession?.server_id;
+  useEffect(() => {
+    if (!isWatching || !('geolocation' in navigator)) return;
+    let lastSaved = 0;
+    let lastServerSave = 0;
+    const watchId = navigator.geolocation.watchPosition(position => {
+      const now = Date.now();
+      if (now - lastSaved < LOCATION_SAVE_INTERVAL_MS) return;
+      lastSaved = now;
+      const location = { lat: position.coords.latitude, lng: position.coords.longitude };
+      const recordedAt = new Date(position.timestamp).toISOString();
+      updateSession(prev => prev && prev.status !== 'escalated'
+        ? { ...prev, last_location: location, last_location_at: recordedAt }
+        : prev);
+      const serverId = serverIdRef.current;
+      if (serverId && now - lastServerSave >= SERVER_LOCATION_SAVE_INTERVAL_MS) {
+        lastServerSave = now;
+        saveServerWalkLocation(serverId, location, recordedAt)
+          .catch(err => console.error("Could not save the walk location on the server:", err));
+      }
+    }, err => console.error("Walk location tracking error:", err), { enableHighAccuracy: true, maximumAge: 10000, timeout: 30000 });
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [isWatching, updateSession]);
+
+  const value = { session: ownSession, startWalk, checkIn, extendWalk, escalateNow, dismiss };
+
+  return (
+    <WalkSessionContext.Provider value={value}>
+      {children}
+    </WalkSessionContext.Provider>
+  );
+};
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback, useContext } from 'react';
+import { AuthContext } from '../contexts/AuthContext';
+import { supabase } from '../services/supabaseClient';
+import {
+  QueuedSubmission, OFFLINE_QUEUE_CHANGED_EVENT, OFFLINE_SYNC_AUTH_REQUIRED, getQueuedSubmissions, discardQueuedSubmission,
+  flushOfflineQueue, requestBackgroundSync, saveSyncCredentials,
+} from '../services/offlineQueue';
+import { notifyContactsForQueuedSOS } from '../services/sosService';
+
+/**
+ * Tracks submissions waiting for a connection and makes sure they are retried: through the service
+ * worker's Background Sync when available, otherwise from the page whenever it comes back online.
+ */
+export const useOfflineQueue = () => {
+  const auth = useContext(AuthContext);
+  const [pending, setPending] = useState<QueuedSubmission[]>([]);
+  const accessToken = auth?.session?.access_token;
+
+  const refresh = useCallback(async () => {
+    try {
+      setPending(await getQueuedSubmissions());
+    } catch (e) {
+      console.error("Could not read the offline queue:", e);
+    }
+  }, []);
+
+  const retry = useCallback(async () => {
+    if (!navigator.onLine || (await getQueuedSubmissions()).length === 0) return;
+    if (await requestBackgroundSync()) return;
+    await flushOfflineQueue(notifyContactsForQueuedSOS);
+  }, []);
+
+  // The service worker sends with the user's token, so keep its copy current across refreshes.
+  useEffect(() => {
+    if (!accessToken) return;
+    saveSyncCredentials(accessToken)
+      .then(() => retry())
+      .catch(e => console.error("Could not store sync credentials:", e));
+  }, [accessToken, retry]);
+
+  useEffect(() => {
+    refresh();
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === OFFLINE_QUEUE_CHANGED_EVENT) refresh();
+      // The new token reaches the worker through the effect above, which then retries the queue.
+      if (event.data?.type === OFFLINE_SYNC_AUTH_REQUIRED) {
+        supabase.auth.refreshSession().then(({ error }) => {
+          if (error) console.error("Could not refresh the session for queued submissions:", error.message);
+        });
+      }
+    };
+    window.addEventListener(OFFLINE_QUEUE_CHANGED_EVENT, refresh);
+    window.addEventListener('online', retry);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+    return () => {
+      window.removeEventListener(OFFLINE_QUEUE_CHANGED_EVENT, refresh);
+      window.removeEventListener('online', retry);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+    };
+  }, [refresh, retry]);
+
+  return { pending, retry, discard: discardQueuedSubmission };
+};
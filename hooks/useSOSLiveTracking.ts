@@ -0,0 +1,64 @@
+import { useEffect, useContext } from 'react';
+import { supabase } from '../services/supabaseClient';
+import { AuthContext } from '../contexts/AuthContext';
+import { useData } from '../contexts/DataContext';
+import { haversineDistance } from '../utils/geolocation';
+import { isSOSTracking } from '../utils/sos';
+import type { Location, SOS } from '../types';
+
+// A new point is sent once the person has moved far enough, or as a heartbeat when they haven't.
+const MIN_POINT_INTERVAL_MS = 10 * 1000;
+const MIN_POINT_DISTANCE_KM = 0.02;
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Streams the user's position into their active SOS while live tracking is on. Tracking stops when
+ * the alert is closed, when sharing is turned off, or when `tracking_expires_at` passes.
+ * @returns The SOS currently being tracked, if any.
+ */
+export const useSOSLiveTracking = (): SOS | null => {
+  const auth = useContext(AuthContext);
+  const { sos, isOwnReport } = useData();
+  const userId = auth?.user?.id;
+  const trackedSOS = sos.find(s => isOwnReport('sos', s) && isSOSTracking(s)) || null;
+  const trackedId = trackedSOS?.id;
+  const expiresAt = trackedSOS?.tracking_expires_at;
+
+  useEffect(() => {
+    if (!userId || !trackedId || !expiresAt) return;
+    if (!('geolocation' in navigator)) return;
+
+    let lastSent: { location: Location; time: number } | null = null;
+
+    const watchId = navigator.geolocation.watchPosition(async (position) => {
+      const location = { lat: position.coords.latitude, lng: position.coords.longitude };
+      const now = Date.now();
+      if (lastSent) {
+        const elapsed = now - lastSent.time;
+        const hasMoved = haversineDistance(lastSent.location, location) >= MIN_POINT_DISTANCE_KM;
+        if (elapsed < MIN_POINT_INTERVAL_MS || (!hasMoved && elapsed < HEARTBEAT_INTERVAL_MS)) return;
+      }
+      lastSent = { location, time: now };
+
+      const { error } = await supabase.from('sos_track_points').insert({
+        sos_id: trackedId,
+        user_id: userId,
+        location: `SRID=4326;POINT(${location.lng} ${location.lat})`,
+        accuracy_m: position.coords.accuracy,
+        recorded_at: new Date(position.timestamp).toISOString(),
+      });
+      if (error) console.error("Could not send live location:", error.message);
+    }, (err) => {
+      console.error("Live location tracking error:", err);
+    }, { enableHighAccuracy: true, maximumAge: 5000, timeout: 30000 });
+
+    const stopTimer = setTimeout(() => navigator.geolocation.clearWatch(watchId), new Date(expiresAt).getTime() - Date.now());
+
+    return () => {
+      clearTimeout(stopTimer);
+      navigator.geolocation.clearWatch(watchId);
+    };
+  }, [userId, trackedId, expiresAt]);
+
+  return trackedSOS;
+};
@@ -3,18 +3,27 @@ import { useNavigate, useLocation as useReactRouterLocation } from 'react-router
 import { supabase } from '../services/supabaseClient';
 import { AuthContext } from '../contexts/AuthContext';
 import { useData } from '../contexts/DataContext';
-import { Profile, SafeZone, Location, Vibe, SOS, Event as CommunityEvent } from '../types';
-import { TrashIcon, PlusCircleIcon, LocationMarkerIcon, UserGroupIcon, FireIcon, ExclamationTriangleIcon } from '../components/ui/Icons';
+import { Profile, SafeZone, Vibe, SOS, Event as CommunityEvent } from '../types';
+import { TrashIcon, PencilSquareIcon, PlusCircleIcon, LocationMarkerIcon, UserGroupIcon, FireIcon, ExclamationTriangleIcon, ArrowDownTrayIcon, ShieldCheckIcon } from '../components/ui/Icons';
 import { VIBE_DISPLAY_NAMES } from '../components/activity/ActivityCard';
+import TrustedContactsCard from '../components/contacts/TrustedContactsCard';
 import { timeAgo } from '../utils/time';
+import { parseLocationFromGeoJSON, parsePolygonFromGeoJSON, toPolygonEWKT } from '../utils/geolocation';
+import { describeZoneRules, validateZoneRules } from '../utils/safeZoneRules';
+import SafeZoneForm, { SafeZoneDraft } from '../components/zones/SafeZoneForm';
+import { boundsAround } from '../utils/tiles';
+import { precacheArea, isOfflineTilesSupported, TilePrecacheProgress } from '../services/offlineTiles';
+import { getSOSStatus, isSOSActive, SOS_STATUS_CONFIG } from '../utils/sos';
+import { ROLE_LABELS } from '../utils/roles';
+import { validateUsername } from '../utils/username';
 
 type UserActivityItem =
   | (Vibe & { itemType: 'vibe' })
   | (SOS & { itemType: 'sos' })
   | (CommunityEvent & { itemType: 'event' });
 
-const PersonalActivityCard: React.FC<{ item: UserActivityItem; onDelete: () => void; }> = ({ item, onDelete }) => {
-    let icon, title, details;
+const PersonalActivityCard: React.FC<{ item: UserActivityItem; onDelete: () => void; onResolve: () => void; }> = ({ item, onDelete, onResolve }) => {
+    let icon, title, details, history;
     const canDelete = item.itemType === 'vibe' || item.itemType === 'sos';
 
     switch (item.itemType) {
@@ -25,8 +34,9 @@ const PersonalActivityCard: React.FC<{ item: UserActivityItem; onDelete: () => v
             break;
         case 'sos':
             icon = <ExclamationTriangleIcon className="w-5 h-5 text-brand-danger" />;
-            title = `You sent an SOS alert.`;
+            title = `You sent an SOS alert. (${SOS_STATUS_CONFIG[getSOSStatus(item)].label})`;
             details = `"${item.details}" • ${timeAgo(item.created_at)}`;
+            history = item.status_history?.map(h => `${SOS_STATUS_CONFIG[h.status].label} ${new Date(h.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`).join(' → ');
             break;
         case 'event':
             icon = <UserGroupIcon className="w-5 h-5 text-brand-accent" />;
@@ -41,7 +51,14 @@ const PersonalActivityCard: React.FC<{ item: UserActivityItem; onDelete: () => v
             <div className="flex-grow">
                 <p className="font-semibold text-sm">{title}</p>
                 <p className="text-xs text-text-secondary">{details}</p>
+                {history && <p className="text-xs text-gray-500 mt-0.5">{history}</p>}
+                {item.hidden_at && <p className="text-xs text-red-400 mt-0.5">Hidden by a moderator. Only you can see it.</p>}
             </div>
+            {item.itemType === 'sos' && isSOSActive(item) && (
+                <button onClick={onResolve} className="text-xs font-semibold bg-emerald-600 text-white px-2 py-1 rounded-md hover:bg-emerald-500">
+                    Resolve
+                </button>
+            )}
             {canDelete && (
                 <button onClick={onDelete} className="text-gray-500 hover:text-brand-danger p-1">
                     <TrashIcon className="w-4 h-4" />
@@ -60,7 +77,7 @@ const Card: React.FC<{children: React.ReactNode, className?: string}> = ({ child
 
 const Account: React.FC = () => {
   const auth = useContext(AuthContext);
-  const { vibes, sos, events, attendees, deleteVibe, deleteSOS } = useData();
+  const { myVibes, mySOS, myEvents: myCreatedEvents, eventList, attendingEventIds, deleteVibe, deleteSOS, closeSOS, userSettings } = useData();
   const navigate = useNavigate();
   const reactRouterLocation = useReactRouterLocation();
 
@@ -77,10 +94,9 @@ const Account: React.FC = () => {
 
   // Page-specific state
   const [safeZones, setSafeZones] = useState<SafeZone[]>([]);
-  const [isAddingZone, setIsAddingZone] = useState(false);
-  const [newZoneName, setNewZoneName] = useState('');
-  const [newZoneRadius, setNewZoneRadius] = useState(1);
-  const [newZoneLocation, setNewZoneLocation] = useState<Location | null>(null);
+  const [zoneDraft, setZoneDraft] = useState<SafeZoneDraft | null>(null);
+  const [isSavingZone, setIsSavingZone] = useState(false);
+  const [zoneDownloads, setZoneDownloads] = useState<Record<number, TilePrecacheProgress>>({});
   const [activityFilter, setActivityFilter] = useState<'all' | 'vibe' | 'sos' | 'event'>('all');
   const [eventsTab, setEventsTab] = useState<'attending' | 'created'>('attending');
   
@@ -92,7 +108,7 @@ const Account: React.FC = () => {
       try {
         const { data, error, status } = await supabase
           .from('profiles')
-          .select(`username, full_name, avatar_url, bio`)
+          .select(`username, full_name, avatar_url, bio, banned_at`)
           .eq('id', auth.user.id)
           .single();
         if (error && status !== 406) throw error;
@@ -112,32 +128,34 @@ const Account: React.FC = () => {
     getProfile();
   }, [auth?.user]);
   
-  // Handle location state for new safe zones
+  // Handle the map picker returning a location for a new or edited safe zone
   useEffect(() => {
-    if (reactRouterLocation.state?.newZoneLocation) {
-        setNewZoneLocation(reactRouterLocation.state.newZoneLocation);
-        setIsAddingZone(true);
-        window.history.replaceState({}, document.title);
+    const state = reactRouterLocation.state;
+    if (!state?.newZoneLocation && !state?.newZoneArea && !state?.zoneDraft) return;
+    const draft: SafeZoneDraft = { ...(state.zoneDraft ?? { id: null, name: '', radius_km: 1, location: null, area: null, rules: null }) };
+    if (state.newZoneLocation) {
+        draft.location = { lat: state.newZoneLocation.lat, lng: state.newZoneLocation.lng };
+        draft.area = null;
+    } else if (state.newZoneArea) {
+        draft.area = state.newZoneArea;
+        draft.location = null;
     }
+    setZoneDraft(draft);
+    window.history.replaceState({}, document.title);
   }, [reactRouterLocation.state]);
 
   // Fetch Safe Zones
   useEffect(() => {
     const fetchSafeZones = async () => {
         if (!auth?.user) return;
-        const { data, error } = await supabase.from('safe_zones').select('*').eq('user_id', auth.user.id);
+        const { data, error } = await supabase.from('safe_zones').select('*').eq('user_id', auth.user.id).eq('kind', 'zone');
         if (error) { alert(error.message); } else if (data) { setSafeZones(data); }
     };
     fetchSafeZones();
   }, [auth?.user]);
 
   // Data Memoization for user-specific content
-  const myVibes = useMemo(() => vibes.filter(v => v.user_id === auth?.user?.id), [vibes, auth?.user]);
-  const mySOS = useMemo(() => sos.filter(s => s.user_id === auth?.user?.id), [sos, auth?.user]);
-  const myCreatedEvents = useMemo(() => events.filter(e => e.user_id === auth?.user?.id), [events, auth?.user]);
-  
-  const attendingEventIds = useMemo(() => new Set(attendees.filter(a => a.user_id === auth?.user?.id).map(a => a.event_id)), [attendees, auth?.user]);
-  const myAttendingEvents = useMemo(() => events.filter(e => attendingEventIds.has(e.id)), [events, attendingEventIds]);
+  const myAttendingEvents = useMemo(() => eventList.filter(e => attendingEventIds.has(e.id)), [eventList, attendingEventIds]);
 
   const personalActivityFeed = useMemo(() => {
     const combined: UserActivityItem[] = [
@@ -163,9 +181,11 @@ const Account: React.FC = () => {
   const handleUpdateProfile = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!auth?.user) return;
+    const usernameError = validateUsername(username);
+    if (usernameError) return alert(usernameError);
     setLoading(true);
     try {
-      const updates = { id: auth.user.id, username, full_name: fullName, bio, updated_at: new Date() };
+      const updates = { id: auth.user.id, username: username.trim(), full_name: fullName, bio, updated_at: new Date() };
       const { error } = await supabase.from('profiles').upsert(updates);
       if (error) throw error;
       // FIX: The object passed to `setProfile` must be a valid `Profile`. The original `updates`
@@ -173,6 +193,7 @@ const Account: React.FC = () => {
       // it to a string and ensures the update is safe. The ternary also handles the edge
       // case where the previous state might be null.
       setProfile(prev => prev ? { ...prev, ...updates, updated_at: updates.updated_at.toISOString() } : prev);
+      auth.refreshProfile();
       alert('Profile updated!');
       setIsEditing(false);
     } catch (error: any) {
@@ -211,14 +232,70 @@ const Account: React.FC = () => {
     }
   }
 
-  const handleAddSafeZone = async (e: React.FormEvent) => {
+  const handleResolveSOS = async (sosId: number) => {
+    if (!window.confirm("Mark this SOS alert as resolved?")) return;
+    if (!(await closeSOS(sosId, 'resolved'))) alert("Could not resolve the alert. Please try again.");
+  };
+
+  const handleEditSafeZone = (zone: SafeZone) => {
+      setZoneDraft({
+          id: zone.id,
+          name: zone.name,
+          radius_km: zone.radius_km,
+          location: parseLocationFromGeoJSON(zone.location),
+          area: zone.area ? parsePolygonFromGeoJSON(zone.area) : null,
+          rules: zone.rules ?? null,
+      });
+  };
+
+  const handleSaveSafeZone = async (e: React.FormEvent) => {
       e.preventDefault();
-      if (!auth?.user || !newZoneName || !newZoneRadius || !newZoneLocation) return alert("Please provide a name, radius, and location.");
-      const { data, error } = await supabase.from('safe_zones').insert({ user_id: auth.user.id, name: newZoneName, radius_km: newZoneRadius, location: `SRID=4326;POINT(${newZoneLocation.lng} ${newZoneLocation.lat})` }).select().single();
-      if (error) { alert(error.message); } 
-      else if (data) { setSafeZones(prev => [...prev, data]); setIsAddingZone(false); setNewZoneName(''); setNewZoneRadius(1); setNewZoneLocation(null); }
+      if (!auth?.user || !zoneDraft) return;
+      const { id, name, radius_km, location, area, rules } = zoneDraft;
+      if (!name.trim()) return alert("Please provide a name for the zone.");
+      if (!area && (!radius_km || !location)) return alert("Please provide a name, radius, and location.");
+      const rulesError = rules && validateZoneRules(rules);
+      if (rulesError) return alert(rulesError);
+
+      let geometry;
+      if (area) {
+          // The database replaces the centre and radius with the area's centroid and bounding radius.
+          const center = {
+              lat: area.reduce((sum, v) => sum + v.lat, 0) / area.length,
+              lng: area.reduce((sum, v) => sum + v.lng, 0) / area.length,
+          };
+          geometry = { radius_km: 0, location: `SRID=4326;POINT(${center.lng} ${center.lat})`, area: toPolygonEWKT(area) };
+      } else {
+          geometry = { radius_km, location: `SRID=4326;POINT(${location!.lng} ${location!.lat})`, area: null };
+      }
+      const zone = { name: name.trim(), rules, ...geometry };
+
+      setIsSavingZone(true);
+      const { data, error } = id
+          ? await supabase.from('safe_zones').update(zone).eq('id', id).select().single()
+          : await supabase.from('safe_zones').insert({ ...zone, user_id: auth.user.id }).select().single();
+      setIsSavingZone(false);
+      if (error) { alert(area && /safe_zones_area_valid/.test(error.message) ? "That area's edges cross each other. Please draw it again without overlapping lines." : error.message); }
+      else if (data) { setSafeZones(prev => id ? prev.map(z => z.id === id ? data : z) : [...prev, data]); setZoneDraft(null); }
   };
   
+  const handleDownloadSafeZone = async (zone: SafeZone) => {
+      const center = parseLocationFromGeoJSON(zone.location);
+      if (!center) return alert("This safe zone has no valid location.");
+      const onProgress = (progress: TilePrecacheProgress) => setZoneDownloads(prev => ({ ...prev, [zone.id]: progress }));
+      onProgress({ done: 0, total: 0, failed: 0 });
+      try {
+          const result = await precacheArea(boundsAround(center, zone.radius_km), userSettings.map.tileSource, onProgress);
+          alert(result.failed > 0
+              ? `Downloaded "${zone.name}" with ${result.failed} of ${result.total} tiles missing. Try again on a better connection.`
+              : `"${zone.name}" is now available offline.`);
+      } catch (error: any) {
+          alert(error.message);
+      } finally {
+          setZoneDownloads(prev => { const { [zone.id]: _, ...rest } = prev; return rest; });
+      }
+  };
+
   const handleDeleteSafeZone = async (zoneId: number) => {
       if (window.confirm("Delete this safe zone?")) {
           const { error } = await supabase.from('safe_zones').delete().eq('id', zoneId);
@@ -267,10 +344,26 @@ const Account: React.FC = () => {
                         <div className="flex-grow">
                             <h1 className="text-2xl font-bold">{fullName || 'New User'}</h1>
                             <p className="text-brand-accent">@{username}</p>
+                            {auth?.role && auth.role !== 'member' && (
+                                <p className="inline-flex items-center space-x-1 text-xs font-semibold text-emerald-300 mt-1">
+                                    <ShieldCheckIcon className="w-4 h-4" />
+                                    <span>{ROLE_LABELS[auth.role]}</span>
+                                </p>
+                            )}
                             <p className="text-sm text-text-secondary mt-1">{bio || 'No bio yet.'}</p>
                         </div>
                         <button onClick={() => handleEditToggle()} className="bg-gray-700 text-sm font-semibold px-4 py-2 rounded-md hover:bg-gray-600">Edit Profile</button>
                     </div>
+                    {profile?.banned_at && (
+                        <p className="mt-3 bg-red-900/50 text-red-300 p-3 rounded-md text-sm">
+                            Your account has been suspended by a moderator. You can still send SOS alerts, but not post vibes, events or reports.
+                        </p>
+                    )}
+                    {auth?.can('moderate') && (
+                        <button onClick={() => navigate('/moderation')} className="mt-3 w-full bg-brand-primary/50 text-sm font-semibold px-4 py-2 rounded-md hover:bg-brand-primary">
+                            Open the moderation queue
+                        </button>
+                    )}
                 </Card>
 
                 <Card className="space-y-3">
@@ -304,7 +397,7 @@ const Account: React.FC = () => {
                     <div className="space-y-2 max-h-60 overflow-y-auto pr-2">
                         {personalActivityFeed.length > 0 ? (
                             personalActivityFeed.map(item => (
-                                <PersonalActivityCard key={`${item.itemType}-${item.id}`} item={item} onDelete={() => handleDeleteActivity(item)} />
+                                <PersonalActivityCard key={`${item.itemType}-${item.id}`} item={item} onDelete={() => handleDeleteActivity(item)} onResolve={() => handleResolveSOS(item.id)} />
                             ))
                         ) : (
                             <p className="text-center text-gray-500 py-4">No activity to show for this filter.</p>
@@ -337,24 +430,43 @@ const Account: React.FC = () => {
                     <div className="space-y-2">
                         {safeZones.map(zone => (
                             <div key={zone.id} className="flex justify-between items-center bg-gray-700 p-3 rounded-md">
-                                <p className="font-medium">{zone.name}</p>
-                                <button onClick={() => handleDeleteSafeZone(zone.id)} className="text-text-secondary hover:text-brand-danger p-1"><TrashIcon className="w-5 h-5"/></button>
+                                <div>
+                                    <p className="font-medium">{zone.name}</p>
+                                    <p className="text-xs text-text-secondary">{zone.area ? 'Drawn area' : `${zone.radius_km} km radius`}</p>
+                                    <p className="text-xs text-text-secondary">{describeZoneRules(zone.rules, VIBE_DISPLAY_NAMES)}</p>
+                                    {zoneDownloads[zone.id] && (
+                                        <p className="text-xs text-text-secondary">Downloading map… {zoneDownloads[zone.id].done}/{zoneDownloads[zone.id].total || '?'}</p>
+                                    )}
+                                </div>
+                                <div className="flex items-center">
+                                    {isOfflineTilesSupported() && (
+                                        <button onClick={() => handleDownloadSafeZone(zone)} disabled={!!zoneDownloads[zone.id]} className="text-text-secondary hover:text-brand-accent p-1 disabled:opacity-50" aria-label="Download map for offline use"><ArrowDownTrayIcon className="w-5 h-5"/></button>
+                                    )}
+                                    <button onClick={() => handleEditSafeZone(zone)} className="text-text-secondary hover:text-brand-accent p-1" aria-label="Edit safe zone"><PencilSquareIcon className="w-5 h-5"/></button>
+                                    <button onClick={() => handleDeleteSafeZone(zone.id)} className="text-text-secondary hover:text-brand-danger p-1"><TrashIcon className="w-5 h-5"/></button>
+                                </div>
                             </div>
                         ))}
                         {safeZones.length === 0 && <p className="text-text-secondary text-sm text-center py-4">No safe zones created.</p>}
                     </div>
-                    {isAddingZone ? (
-                        <form onSubmit={handleAddSafeZone} className="pt-4 border-t border-gray-700 space-y-3">
-                            <input id="zoneName" type="text" placeholder="Zone Name" value={newZoneName} onChange={e => setNewZoneName(e.target.value)} required className="block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm text-sm" />
-                            <input id="zoneRadius" type="range" min="0.5" max="10" step="0.5" value={newZoneRadius} onChange={e => setNewZoneRadius(parseFloat(e.target.value))} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
-                            <div className="flex space-x-2"><button type="submit" className="flex-1 bg-brand-accent text-sm rounded-md">Save</button><button type="button" onClick={() => setIsAddingZone(false)} className="flex-1 bg-gray-600 text-sm rounded-md">Cancel</button></div>
-                        </form>
+                    {zoneDraft ? (
+                        <SafeZoneForm
+                            draft={zoneDraft}
+                            notifications={userSettings.notifications}
+                            isSaving={isSavingZone}
+                            onChange={setZoneDraft}
+                            onPickOnMap={() => navigate('/', { state: { settingZone: true, zoneDraft } })}
+                            onSubmit={handleSaveSafeZone}
+                            onCancel={() => setZoneDraft(null)}
+                        />
                     ) : (
                         <button onClick={() => navigate('/', { state: { settingZone: true } })} className="w-full mt-2 flex items-center justify-center space-x-2 bg-gray-600 font-bold py-2 px-4 rounded-md hover:bg-gray-500">
                             <PlusCircleIcon className="w-5 h-5" /><span>Add Safe Zone</span>
                         </button>
                     )}
                 </Card>
+
+                {auth?.user && <TrustedContactsCard userId={auth.user.id} />}
             </>
         )}
     </div>
@@ -1,9 +1,10 @@
-import React, { useMemo, useContext, useState, useEffect } from 'react';
+import React, { useContext, useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useData } from '../contexts/DataContext';
 import { AuthContext } from '../contexts/AuthContext';
 import type { Event, AiEvent } from '../types';
-import { PlusCircleIcon, PencilSquareIcon, UserGroupIcon, SparklesIcon } from '../components/ui/Icons';
+import { PlusCircleIcon, PencilSquareIcon, UserGroupIcon, SparklesIcon, ShieldCheckIcon } from '../components/ui/Icons';
+import ReportContentModal, { ReportTarget } from '../components/moderation/ReportContentModal';
 
 interface EventCardProps {
     event: Event;
@@ -11,9 +12,10 @@ interface EventCardProps {
     isAttending: boolean;
     onAttend: (eventId: number) => Promise<void>;
     onLeave: (eventId: number) => Promise<void>;
+    onReport: (event: Event) => void;
 }
 
-const EventCard: React.FC<EventCardProps> = ({ event, currentUserId, isAttending, onAttend, onLeave }) => {
+const EventCard: React.FC<EventCardProps> = ({ event, currentUserId, isAttending, onAttend, onLeave, onReport }) => {
     const [localIsAttending, setLocalIsAttending] = useState(isAttending);
     const [localAttendeeCount, setLocalAttendeeCount] = useState(event.attendee_count || 0);
     const [actionLoading, setActionLoading] = useState(false);
@@ -49,16 +51,31 @@ const EventCard: React.FC<EventCardProps> = ({ event, currentUserId, isAttending
             <div className="flex justify-between items-start">
                 <div>
                     <h3 className="text-xl font-bold">{event.title}</h3>
-                    <p className="text-sm text-text-secondary">by {event.profiles?.username || 'anonymous'}</p>
+                    <p className="text-sm text-text-secondary flex items-center space-x-1">
+                        <span>by {event.profiles?.username || 'anonymous'}</span>
+                        {event.is_verified && (
+                            <span className="inline-flex items-center space-x-0.5 text-emerald-300 font-semibold" title="Posted by a verified organisation">
+                                <ShieldCheckIcon className="w-4 h-4" />
+                                <span>Verified</span>
+                            </span>
+                        )}
+                    </p>
                 </div>
-                {isOwner && (
+                {isOwner ? (
                     <div className="flex space-x-2">
                         <Link to={`/edit-event/${event.id}`} className="p-2 text-text-secondary hover:text-text-primary">
                             <PencilSquareIcon className="w-5 h-5" />
                         </Link>
                     </div>
+                ) : (
+                    <button onClick={() => onReport(event)} className="text-xs text-text-secondary hover:text-brand-danger p-2">
+                        Report
+                    </button>
                 )}
             </div>
+            {event.hidden_at && (
+                <p className="text-xs bg-red-900/50 text-red-300 p-2 rounded-md">Hidden by a moderator. Only you can see this event.</p>
+            )}
             <p className="text-text-secondary">{event.description}</p>
             <div>
                 <p className="font-semibold text-brand-accent">
@@ -123,31 +140,29 @@ const AiEventCard: React.FC<{ event: AiEvent }> = ({ event }) => {
 
 const Events: React.FC = () => {
     const { 
-        events, attendees, loading, error, attendEvent, unattendEvent,
+        eventList, attendingEventIds, eventListLoading: loading, eventListError: error, attendEvent, unattendEvent,
         aiEvents, aiEventsLoading, aiEventsError, fetchAiEvents
     } = useData();
     const { user } = useContext(AuthContext) || {};
     const navigate = useNavigate();
+    const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+
+    const handleReport = (event: Event) => setReportTarget({ type: 'event', id: event.id, label: event.title, authorId: event.user_id });
 
     useEffect(() => {
         // Fetch AI events on mount if cache is stale or empty
         fetchAiEvents();
     }, [fetchAiEvents]);
 
-    const userAttendees = useMemo(() => {
-        if (!user || !attendees) return new Set<number>();
-        return new Set(attendees.filter(a => a.user_id === user.id).map(a => a.event_id));
-    }, [user, attendees]);
-    
     const now = new Date();
     const twelveHoursAgo = new Date(now.getTime() - 12 * 60 * 60 * 1000);
 
-    const upcomingEvents = events.filter(e => {
+    const upcomingEvents = eventList.filter(e => {
         const endDate = e.end_time ? new Date(e.end_time) : new Date(new Date(e.event_time).getTime() + 2 * 60 * 60 * 1000);
         return endDate >= now;
     }).sort((a,b) => new Date(a.event_time).getTime() - new Date(b.event_time).getTime());
     
-    const pastEvents = events.filter(e => {
+    const pastEvents = eventList.filter(e => {
         const endDate = e.end_time ? new Date(e.end_time) : new Date(new Date(e.event_time).getTime() + 2 * 60 * 60 * 1000);
         return endDate < now && endDate > twelveHoursAgo;
     }).sort((a,b) => new Date(b.event_time).getTime() - new Date(a.event_time).getTime());
@@ -178,9 +193,10 @@ const Events: React.FC = () => {
                                     key={event.id}
                                     event={event}
                                     currentUserId={user?.id || ''}
-                                    isAttending={userAttendees.has(event.id)}
+                                    isAttending={attendingEventIds.has(event.id)}
                                     onAttend={attendEvent}
                                     onLeave={unattendEvent}
+                                    onReport={handleReport}
                                 />
                             ))
                         ) : (
@@ -223,9 +239,10 @@ const Events: React.FC = () => {
                                     key={event.id}
                                     event={event}
                                     currentUserId={user?.id || ''}
-                                    isAttending={userAttendees.has(event.id)}
+                                    isAttending={attendingEventIds.has(event.id)}
                                     onAttend={attendEvent}
                                     onLeave={unattendEvent}
+                                    onReport={handleReport}
                                 />
                             ))
                         ) : (
@@ -234,6 +251,7 @@ const Events: React.FC = () => {
                     </div>
                 </>
             )}
+            <ReportContentModal target={reportTarget} onClose={() => setReportTarget(null)} />
         </div>
     );
 };
@@ -1,32 +1,95 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../services/supabaseClient';
+import {
+  OAUTH_PROVIDERS, getAuthRedirectUrl, takeAuthRedirectError, isEmailNotConfirmedError,
+  sendMagicLink, requestPasswordReset, resendConfirmationEmail, signInWithProvider,
+} from '../services/auth';
+import type { Provider } from '@supabase/supabase-js';
+
+type LoginMode = 'signIn' | 'signUp' | 'magicLink' | 'forgotPassword';
+
+const MODE_COPY: Record<LoginMode, { subtitle: string; submit: string }> = {
+  signIn: { subtitle: 'Welcome back', submit: 'Sign In' },
+  signUp: { subtitle: 'Create an account', submit: 'Sign Up' },
+  magicLink: { subtitle: 'Sign in with a link sent to your email', submit: 'Email me a sign-in link' },
+  forgotPassword: { subtitle: 'Reset your password', submit: 'Email me a reset link' },
+};
 
 const Login: React.FC = () => {
-  const [isLogin, setIsLogin] = useState(true);
+  const [mode, setMode] = useState<LoginMode>('signIn');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [message, setMessage] = useState<string | null>(null);
+  // Set when the address still needs confirming, to offer a fresh confirmation email.
+  const [unconfirmedEmail, setUnconfirmedEmail] = useState<string | null>(null);
   const navigate = useNavigate();
 
+  useEffect(() => {
+    const redirectError = takeAuthRedirectError();
+    if (redirectError) setError(redirectError);
+  }, []);
+
+  const switchMode = (next: LoginMode) => {
+    setMode(next);
+    setError(null);
+    setMessage(null);
+    setUnconfirmedEmail(null);
+  };
+
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError(null);
     setMessage(null);
+    setUnconfirmedEmail(null);
 
     try {
-      if (isLogin) {
-        const { error } = await supabase.auth.signInWithPassword({ email, password });
-        if (error) throw error;
-        // FIX: Navigate to the home page on successful login
-        navigate('/', { replace: true });
-      } else {
-        const { error } = await supabase.auth.signUp({ email, password });
-        if (error) throw error;
-        setMessage('Check your email for the confirmation link!');
+      switch (mode) {
+        case 'signIn': {
+          const { error } = await supabase.auth.signInWithPassword({ email, password });
+          if (error) {
+            if (isEmailNotConfirmedError(error)) {
+              setUnconfirmedEmail(email);
+              setMessage(`Please confirm your email first. We sent a confirmation link to ${email}.`);
+              return;
+            }
+            throw error;
+          }
+          // FIX: Navigate to the home page on successful login
+          navigate('/', { replace: true });
+          break;
+        }
+        case 'signUp': {
+          const { data, error } = await supabase.auth.signUp({
+            email,
+            password,
+            options: { emailRedirectTo: getAuthRedirectUrl('/') },
+          });
+          if (error) throw error;
+          // With email confirmation on, an existing address comes back as a user with no identities.
+          if (data.user && data.user.identities?.length === 0) {
+            setError('An account with this email already exists. Sign in, or reset your password if you forgot it.');
+            return;
+          }
+          if (data.session) {
+            navigate('/', { replace: true });
+            return;
+          }
+          setUnconfirmedEmail(email);
+          setMessage('Check your email for the confirmation link!');
+          break;
+        }
+        case 'magicLink':
+          await sendMagicLink(email);
+          setMessage(`Check your email: we sent a sign-in link to ${email}. Open it on this device.`);
+          break;
+        case 'forgotPassword':
+          await requestPasswordReset(email);
+          setMessage(`If an account exists for ${email}, a password reset link is on its way. Open it on this device.`);
+          break;
       }
     } catch (err: any) {
       setError(err.error_description || err.message);
@@ -35,14 +98,48 @@ const Login: React.FC = () => {
     }
   };
 
+  const handleResendConfirmation = async () => {
+    if (!unconfirmedEmail) return;
+    setLoading(true);
+    setError(null);
+    try {
+      await resendConfirmationEmail(unconfirmedEmail);
+      setMessage(`A new confirmation link has been sent to ${unconfirmedEmail}.`);
+    } catch (err: any) {
+      setError(err.error_description || err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOAuth = async (provider: Provider) => {
+    setError(null);
+    try {
+      await signInWithProvider(provider);
+    } catch (err: any) {
+      setError(err.error_description || err.message);
+    }
+  };
+
+  const needsPassword = mode === 'signIn' || mode === 'signUp';
+
   return (
     <div className="min-h-screen bg-brand-primary flex items-center justify-center p-4">
       <div className="w-full max-w-md bg-brand-secondary/50 backdrop-blur-sm border border-gray-700/50 rounded-lg shadow-lg p-8">
         <h1 className="text-3xl font-bold text-center text-text-primary mb-2">HyperAPP</h1>
-        <p className="text-center text-text-secondary mb-8">{isLogin ? 'Welcome back' : 'Create an account'}</p>
-        
+        <p className="text-center text-text-secondary mb-8">{MODE_COPY[mode].subtitle}</p>
+
         {error && <p className="bg-red-500/20 text-red-400 p-3 rounded-md mb-4 text-center">{error}</p>}
-        {message && <p className="bg-blue-500/20 text-blue-300 p-3 rounded-md mb-4 text-center">{message}</p>}
+        {message && (
+          <div className="bg-blue-500/20 text-blue-300 p-3 rounded-md mb-4 text-center">
+            <p>{message}</p>
+            {unconfirmedEmail && (
+              <button onClick={handleResendConfirmation} disabled={loading} className="text-brand-accent font-bold text-sm mt-2 focus:outline-none disabled:opacity-50">
+                Resend confirmation email
+              </button>
+            )}
+          </div>
+        )}
 
         <form onSubmit={handleAuth}>
           <div className="mb-4">
@@ -58,31 +155,72 @@ const Login: React.FC = () => {
               required
             />
           </div>
-          <div className="mb-6">
-            <label className="block text-text-secondary text-sm font-bold mb-2" htmlFor="password">
-              Password
-            </label>
-            <input
-              id="password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="w-full bg-gray-800 text-text-primary border border-gray-600 rounded-md py-2 px-3 focus:outline-none focus:ring-2 focus:ring-brand-accent"
-              required
-            />
-          </div>
+          {needsPassword && (
+            <div className="mb-6">
+              <div className="flex justify-between items-center mb-2">
+                <label className="block text-text-secondary text-sm font-bold" htmlFor="password">
+                  Password
+                </label>
+                {mode === 'signIn' && (
+                  <button type="button" onClick={() => switchMode('forgotPassword')} className="text-xs text-brand-accent focus:outline-none">
+                    Forgot password?
+                  </button>
+                )}
+              </div>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full bg-gray-800 text-text-primary border border-gray-600 rounded-md py-2 px-3 focus:outline-none focus:ring-2 focus:ring-brand-accent"
+                required
+                minLength={mode === 'signUp' ? 6 : undefined}
+              />
+            </div>
+          )}
           <button
             type="submit"
             disabled={loading}
             className="w-full bg-brand-accent text-brand-primary font-bold py-2 px-4 rounded-md hover:bg-cyan-400 focus:outline-none focus:ring-2 focus:ring-brand-accent disabled:bg-gray-500"
           >
-            {loading ? 'Processing...' : (isLogin ? 'Sign In' : 'Sign Up')}
+            {loading ? 'Processing...' : MODE_COPY[mode].submit}
           </button>
         </form>
+
+        {mode === 'signIn' && (
+          <button onClick={() => switchMode('magicLink')} className="w-full text-center text-sm text-text-secondary mt-4 focus:outline-none hover:text-text-primary">
+            Sign in without a password
+          </button>
+        )}
+        {(mode === 'magicLink' || mode === 'forgotPassword') && (
+          <button onClick={() => switchMode('signIn')} className="w-full text-center text-sm text-text-secondary mt-4 focus:outline-none hover:text-text-primary">
+            Back to sign in with a password
+          </button>
+        )}
+
+        {OAUTH_PROVIDERS.length > 0 && (
+          <div className="mt-6 space-y-2">
+            <div className="flex items-center text-xs text-text-secondary">
+              <div className="flex-grow border-t border-gray-700" />
+              <span className="px-2">or continue with</span>
+              <div className="flex-grow border-t border-gray-700" />
+            </div>
+            {OAUTH_PROVIDERS.map(({ provider, label }) => (
+              <button
+                key={provider}
+                onClick={() => handleOAuth(provider)}
+                className="w-full bg-gray-700 text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-600 focus:outline-none"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
         <p className="text-center text-text-secondary text-sm mt-6">
-          {isLogin ? "Don't have an account?" : "Already have an account?"}
-          <button onClick={() => setIsLogin(!isLogin)} className="text-brand-accent font-bold ml-1 focus:outline-none">
-            {isLogin ? 'Sign Up' : 'Sign In'}
+          {mode === 'signUp' ? "Already have an account?" : "Don't have an account?"}
+          <button onClick={() => switchMode(mode === 'signUp' ? 'signIn' : 'signUp')} className="text-brand-accent font-bold ml-1 focus:outline-none">
+            {mode === 'signUp' ? 'Sign In' : 'Sign Up'}
           </button>
         </p>
       </div>
@@ -90,4 +228,4 @@ const Login: React.FC = () => {
   );
 };
 
-export default Login;
\ No newline at end of file
+export default Login;
@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { fetchModerationQueue, fetchModerationLog, moderateContent, FLAG_REASON_LABELS, FLAG_TARGET_LABELS } from '../services/moderation';
+import type { ModerationAction, ModerationLogEntry, ModerationQueueItem } from '../types';
+import { timeAgo } from '../utils/time';
+import { ShieldCheckIcon } from '../components/ui/Icons';
+
+const Card: React.FC<{children: React.ReactNode, className?: string}> = ({ children, className }) => (
+    <div className={`bg-brand-secondary/40 backdrop-blur-sm border border-gray-700/50 rounded-lg p-4 ${className}`}>
+        {children}
+    </div>
+);
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+    hide: 'Hid', restore: 'Restored', ban: 'Banned the author of', unban: 'Unbanned the author of', dismiss: 'Dismissed flags on',
+};
+
+const QueueItemCard: React.FC<{ item: ModerationQueueItem; busy: boolean; onAction: (item: ModerationQueueItem, action: ModerationAction) => void }> = ({ item, busy, onAction }) => {
+    const isProfile = item.target_type === 'profile';
+    const button = (action: ModerationAction, label: string, className: string) => (
+        <button onClick={() => onAction(item, action)} disabled={busy} className={`text-xs font-semibold px-3 py-1 rounded-md disabled:opacity-50 ${className}`}>
+            {label}
+        </button>
+    );
+
+    return (
+        <div className="bg-brand-primary/50 p-3 rounded-lg space-y-2">
+            <div className="flex justify-between items-start gap-2">
+                <div className="min-w-0">
+                    <p className="font-semibold text-sm">
+                        {FLAG_TARGET_LABELS[item.target_type]} #{isProfile ? item.target_id.slice(0, 8) : item.target_id}
+                        {item.is_hidden && <span className="ml-2 text-xs text-red-400">hidden</span>}
+                    </p>
+                    <p className="text-sm text-text-secondary break-words">{item.preview ?? 'This item has been deleted.'}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                        {isProfile ? 'User' : 'By'} {item.author_username ? `@${item.author_username}` : 'unknown'}
+                        {item.author_banned && <span className="text-red-400"> · banned</span>}
+                    </p>
+                </div>
+                <div className="flex-shrink-0 text-right">
+                    <p className="text-lg font-bold text-brand-danger">{item.flag_count}</p>
+                    <p className="text-xs text-gray-500">{timeAgo(item.last_flagged_at)}</p>
+                </div>
+            </div>
+            <div className="flex flex-wrap gap-1">
+                {item.reasons.map(reason => (
+                    <span key={reason} className="text-xs bg-gray-700 text-gray-300 rounded-full px-2 py-0.5">{FLAG_REASON_LABELS[reason] || reason}</span>
+                ))}
+            </div>
+            {item.details.length > 0 && (
+                <ul className="text-xs text-gray-400 italic space-y-0.5">
+                    {item.details.slice(0, 3).map((detail, index) => <li key={index}>"{detail}"</li>)}
+                </ul>
+            )}
+            <div className="flex flex-wrap gap-2 pt-1">
+                {item.is_hidden
+                    ? button('restore', 'Restore', 'bg-emerald-600 text-white hover:bg-emerald-500')
+                    : button('hide', isProfile ? 'Reset username' : 'Hide', 'bg-brand-danger text-white hover:bg-red-700')}
+                {item.author_id && (item.author_banned
+                    ? button('unban', 'Unban', 'bg-gray-600 text-white hover:bg-gray-500')
+                    : button('ban', 'Ban user', 'bg-red-900 text-white hover:bg-red-800'))}
+                {button('dismiss', 'Dismiss', 'bg-gray-600 text-white hover:bg-gray-500')}
+            </div>
+        </div>
+    );
+};
+
+const Moderation: React.FC = () => {
+    const [queue, setQueue] = useState<ModerationQueueItem[]>([]);
+    const [log, setLog] = useState<ModerationLogEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [busyTarget, setBusyTarget] = useState<string | null>(null);
+
+    const loadQueue = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const [items, entries] = await Promise.all([fetchModerationQueue(), fetchModerationLog()]);
+            setQueue(items);
+            setLog(entries);
+        } catch (err: any) {
+            console.error('Error loading moderation queue:', err);
+            setError(err.message || 'Could not load the moderation queue.');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadQueue();
+    }, [loadQueue]);
+
+    const handleAction = async (item: Pick<ModerationQueueItem, 'target_type' | 'target_id'>, action: ModerationAction) => {
+        let note: string | null = null;
+        if (action === 'hide' || action === 'ban') {
+            note = window.prompt(`${action === 'ban' ? 'Ban this user' : 'Hide this item'}? Add a note for the audit log (optional):`, '');
+            if (note === null) return;
+        }
+        const key = `${item.target_type}-${item.target_id}`;
+        setBusyTarget(key);
+        try {
+            await moderateContent(item.target_type, item.target_id, action, note || undefined);
+            await loadQueue();
+        } catch (err: any) {
+            console.error('Error applying moderation action:', err);
+            alert(`Could not apply the action: ${err.message}`);
+        } finally {
+            setBusyTarget(null);
+        }
+    };
+
+    return (
+        <div className="p-4 space-y-6">
+            <div className="flex justify-between items-center">
+                <h1 className="text-3xl font-bold flex items-center space-x-2">
+                    <ShieldCheckIcon className="w-8 h-8 text-brand-accent" />
+                    <span>Moderation</span>
+                </h1>
+                <button onClick={loadQueue} disabled={loading} className="bg-gray-700 text-sm font-semibold px-4 py-2 rounded-md hover:bg-gray-600 disabled:opacity-50">
+                    Refresh
+                </button>
+            </div>
+
+            {error && <p className="bg-red-500/20 text-red-300 p-3 rounded-md text-center">{error}</p>}
+
+            <Card className="space-y-3">
+                <h2 className="text-xl font-semibold">Flagged ({queue.length})</h2>
+                {loading && queue.length === 0 ? (
+                    <p className="text-center py-4 text-text-secondary">Loading flags...</p>
+                ) : queue.length > 0 ? (
+                    queue.map(item => (
+                        <QueueItemCard
+                            key={`${item.target_type}-${item.target_id}`}
+                            item={item}
+                            busy={busyTarget === `${item.target_type}-${item.target_id}`}
+                            onAction={handleAction}
+                        />
+                    ))
+                ) : (
+                    <p className="text-center py-4 text-text-secondary">Nothing waiting for review.</p>
+                )}
+            </Card>
+
+            <Card className="space-y-2">
+                <h2 className="text-xl font-semibold">Audit log</h2>
+                {log.length > 0 ? (
+                    log.map(entry => (
+                        <div key={entry.id} className="text-sm border-b border-gray-700/50 pb-2 last:border-none">
+                            <p>
+                                <span className="text-brand-accent">@{entry.profiles?.username || 'unknown'}</span>
+                                {' '}{ACTION_LABELS[entry.action]} {FLAG_TARGET_LABELS[entry.target_type].toLowerCase()} #{entry.target_type === 'profile' ? entry.target_id.slice(0, 8) : entry.target_id}
+                            </p>
+                            {entry.note && <p className="text-xs text-gray-400 italic">"{entry.note}"</p>}
+                            <div className="flex justify-between items-center">
+                                <p className="text-xs text-gray-500">{timeAgo(entry.created_at)}</p>
+                                {/* Acted-on items leave the queue, so they are undone from here. */}
+                                {(entry.action === 'hide' || entry.action === 'ban') && (
+                                    <button
+                                        onClick={() => handleAction(entry, entry.action === 'hide' ? 'restore' : 'unban')}
+                                        disabled={busyTarget === `${entry.target_type}-${entry.target_id}`}
+                                        className="text-xs text-brand-accent hover:underline disabled:opacity-50"
+                                    >
+                                        {entry.action === 'hide' ? 'Restore' : 'Unban'}
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))
+                ) : (
+                    <p className="text-center py-4 text-text-secondary">No actions yet.</p>
+                )}
+            </Card>
+        </div>
+    );
+};
+
+export default Moderation;
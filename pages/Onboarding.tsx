@@ -0,0 +1,295 @@
+import React, { useState, useContext } from 'react';
+import { useNavigate, Navigate } from 'react-router-dom';
+import { supabase } from '../services/supabaseClient';
+import { AuthContext } from '../contexts/AuthContext';
+import { useData } from '../contexts/DataContext';
+import { usePushManager } from '../hooks/usePushNotifications';
+import { validateUsername, isPlaceholderUsername } from '../utils/username';
+import type { Location } from '../types';
+import { LocationMarkerIcon, MicrophoneIcon, ShieldCheckIcon, BellAlertIcon } from '../components/ui/Icons';
+
+type OnboardingStep = 'username' | 'permissions' | 'safeZone' | 'preferences';
+type PermissionStatus = 'unknown' | 'granted' | 'denied';
+
+const STEPS: OnboardingStep[] = ['username', 'permissions', 'safeZone', 'preferences'];
+const ZONE_RADII_KM = [0.25, 0.5, 1, 2];
+
+const PermissionRow: React.FC<{ icon: React.ReactNode; title: string; description: string; status: PermissionStatus; onRequest: () => void }> = ({ icon, title, description, status, onRequest }) => (
+    <div className="bg-brand-primary/50 p-3 rounded-lg flex items-start space-x-3">
+        <div className="flex-shrink-0 mt-0.5">{icon}</div>
+        <div className="flex-grow">
+            <p className="font-semibold text-sm">{title}</p>
+            <p className="text-xs text-text-secondary">{description}</p>
+            {status === 'denied' && <p className="text-xs text-red-400 mt-1">Blocked. You can allow it later in your browser's site settings.</p>}
+        </div>
+        {status === 'granted' ? (
+            <span className="text-xs font-semibold text-emerald-400">Allowed</span>
+        ) : (
+            <button onClick={onRequest} className="text-xs font-semibold bg-brand-accent text-brand-primary px-3 py-1 rounded-md hover:bg-cyan-400">
+                Allow
+            </button>
+        )}
+    </div>
+);
+
+// First-run setup. PrivateRoutes sends signed-in users here until profiles.onboarded_at is set.
+const Onboarding: React.FC = () => {
+    const auth = useContext(AuthContext);
+    const { userSettings, updateUserSettings } = useData();
+    const { isSubscribed, subscribe, error: pushError } = usePushManager(auth?.user?.id);
+    const navigate = useNavigate();
+
+    const [step, setStep] = useState<OnboardingStep>('username');
+    const [username, setUsername] = useState(isPlaceholderUsername(auth?.profile?.username) ? '' : auth?.profile?.username || '');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const [locationStatus, setLocationStatus] = useState<PermissionStatus>('unknown');
+    const [micStatus, setMicStatus] = useState<PermissionStatus>('unknown');
+    const [currentLocation, setCurrentLocation] = useState<Location | null>(null);
+
+    const [zoneName, setZoneName] = useState('Home');
+    const [zoneRadiusKm, setZoneRadiusKm] = useState(0.5);
+    const [zoneSaved, setZoneSaved] = useState(false);
+
+    const [anonymousByDefault, setAnonymousByDefault] = useState(userSettings.privacy.anonymousByDefault);
+    const [shareLiveLocationByDefault, setShareLiveLocationByDefault] = useState(userSettings.privacy.shareLiveLocationByDefault);
+
+    if (auth?.loading) {
+        return <div className="h-screen w-screen flex items-center justify-center bg-brand-primary text-text-primary">Loading Session...</div>;
+    }
+    if (!auth?.session) return <Navigate to="/login" replace />;
+    if (auth.profile?.onboarded_at) return <Navigate to="/" replace />;
+
+    const goTo = (next: OnboardingStep) => {
+        setError(null);
+        setStep(next);
+    };
+
+    const handleSaveUsername = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const usernameError = validateUsername(username);
+        if (usernameError) return setError(usernameError);
+        setSaving(true);
+        setError(null);
+        const { error } = await supabase.from('profiles').update({ username: username.trim(), updated_at: new Date().toISOString() }).eq('id', auth.user!.id);
+        setSaving(false);
+        if (error) {
+            setError(error.code === '23505' ? 'That username is taken. Please pick another.' : error.message);
+            return;
+        }
+        goTo('permissions');
+    };
+
+    const requestLocation = () => {
+        navigator.geolocation.getCurrentPosition(
+            (position) => {
+                setCurrentLocation({ lat: position.coords.latitude, lng: position.coords.longitude });
+                setLocationStatus('granted');
+            },
+            () => setLocationStatus('denied'),
+            { enableHighAccuracy: true, timeout: 15000 }
+        );
+    };
+
+    const requestMicrophone = async () => {
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            stream.getTracks().forEach(track => track.stop()); // Only asking for permission here.
+            setMicStatus('granted');
+        } catch (err) {
+            console.warn('Microphone permission not granted:', err);
+            setMicStatus('denied');
+        }
+    };
+
+    const handleSaveZone = async () => {
+        if (!zoneName.trim()) return setError('Please give your safe zone a name.');
+        if (!currentLocation) return setError('Allow location access on the previous step to place your safe zone here.');
+        setSaving(true);
+        setError(null);
+        const { error } = await supabase.from('safe_zones').insert({
+            user_id: auth.user!.id,
+            name: zoneName.trim(),
+            radius_km: zoneRadiusKm,
+            location: `SRID=4326;POINT(${currentLocation.lng} ${currentLocation.lat})`,
+            area: null,
+        });
+        setSaving(false);
+        if (error) return setError(error.message);
+        setZoneSaved(true);
+        goTo('preferences');
+    };
+
+    const handleEnablePush = async () => {
+        if (await subscribe()) {
+            await updateUserSettings({ notifications: { ...userSettings.notifications, safeZoneAlerts: true } });
+        }
+    };
+
+    const handleFinish = async () => {
+        setSaving(true);
+        setError(null);
+        await updateUserSettings({ privacy: { ...userSettings.privacy, anonymousByDefault, shareLiveLocationByDefault } });
+        const { error } = await supabase.from('profiles').update({ onboarded_at: new Date().toISOString() }).eq('id', auth.user!.id);
+        if (error) {
+            setSaving(false);
+            setError(error.message);
+            return;
+        }
+        await auth.refreshProfile();
+        setSaving(false);
+        navigate('/', { replace: true });
+    };
+
+    const stepIndex = STEPS.indexOf(step);
+
+    return (
+        <div className="min-h-screen bg-brand-primary flex items-center justify-center p-4">
+            <div className="w-full max-w-md bg-brand-secondary/50 backdrop-blur-sm border border-gray-700/50 rounded-lg shadow-lg p-8 space-y-5">
+                <div>
+                    <h1 className="text-3xl font-bold text-center text-text-primary mb-2">Welcome to HyperAPP</h1>
+                    <div className="flex justify-center space-x-2">
+                        {STEPS.map((s, index) => (
+                            <span key={s} className={`h-1.5 w-8 rounded-full ${index <= stepIndex ? 'bg-brand-accent' : 'bg-gray-600'}`} />
+                        ))}
+                    </div>
+                </div>
+
+                {error && <p className="bg-red-500/20 text-red-400 p-3 rounded-md text-center text-sm">{error}</p>}
+
+                {step === 'username' && (
+                    <form onSubmit={handleSaveUsername} className="space-y-4">
+                        <div>
+                            <h2 className="text-xl font-semibold">Choose a username</h2>
+                            <p className="text-sm text-text-secondary">It's shown next to the vibes, alerts and events you post, so don't use your real name or email unless you want to.</p>
+                        </div>
+                        <input
+                            type="text"
+                            value={username}
+                            onChange={(e) => setUsername(e.target.value)}
+                            placeholder="e.g. night_owl"
+                            autoComplete="username"
+                            className="w-full bg-gray-800 text-text-primary border border-gray-600 rounded-md py-2 px-3 focus:outline-none focus:ring-2 focus:ring-brand-accent"
+                            required
+                        />
+                        <button type="submit" disabled={saving} className="w-full bg-brand-accent text-brand-primary font-bold py-2 px-4 rounded-md hover:bg-cyan-400 disabled:bg-gray-500">
+                            {saving ? 'Saving...' : 'Continue'}
+                        </button>
+                    </form>
+                )}
+
+                {step === 'permissions' && (
+                    <div className="space-y-4">
+                        <div>
+                            <h2 className="text-xl font-semibold">Permissions</h2>
+                            <p className="text-sm text-text-secondary">Your browser will ask for these when they're first needed. Allowing them now means no delay in an emergency.</p>
+                        </div>
+                        <PermissionRow
+                            icon={<LocationMarkerIcon className="w-5 h-5 text-brand-accent" />}
+                            title="Location"
+                            description="Centres the map on you, places your vibe reports and SOS alerts, and powers Walk With Me. It's only shared when you post."
+                            status={locationStatus}
+                            onRequest={requestLocation}
+                        />
+                        <PermissionRow
+                            icon={<MicrophoneIcon className="w-5 h-5 text-brand-accent" />}
+                            title="Microphone"
+                            description="Lets you dictate an SOS and talk to the Live Assistant hands-free. Nothing is recorded otherwise."
+                            status={micStatus}
+                            onRequest={requestMicrophone}
+                        />
+                        <button onClick={() => goTo('safeZone')} className="w-full bg-brand-accent text-brand-primary font-bold py-2 px-4 rounded-md hover:bg-cyan-400">
+                            Continue
+                        </button>
+                    </div>
+                )}
+
+                {step === 'safeZone' && (
+                    <div className="space-y-4">
+                        <div>
+                            <h2 className="text-xl font-semibold flex items-center space-x-2">
+                                <ShieldCheckIcon className="w-5 h-5 text-brand-accent" />
+                                <span>Your first safe zone</span>
+                            </h2>
+                            <p className="text-sm text-text-secondary">You'll be alerted about dangerous vibes and SOS alerts inside it. This one is centred where you are now; you can draw more, or exact areas, from your profile.</p>
+                        </div>
+                        <input
+                            type="text"
+                            value={zoneName}
+                            onChange={(e) => setZoneName(e.target.value)}
+                            className="w-full bg-gray-800 text-text-primary border border-gray-600 rounded-md py-2 px-3 focus:outline-none focus:ring-2 focus:ring-brand-accent"
+                        />
+                        <div className="flex gap-2">
+                            {ZONE_RADII_KM.map(radius => (
+                                <button
+                                    key={radius}
+                                    onClick={() => setZoneRadiusKm(radius)}
+                                    className={`flex-1 text-sm py-1 rounded-md border ${zoneRadiusKm === radius ? 'border-brand-accent text-brand-accent' : 'border-gray-600 text-text-secondary'}`}
+                                >
+                                    {radius < 1 ? `${radius * 1000} m` : `${radius} km`}
+                                </button>
+                            ))}
+                        </div>
+                        {!currentLocation && (
+                            <button onClick={requestLocation} className="w-full text-sm text-brand-accent">Use my current location</button>
+                        )}
+                        <div className="flex gap-3">
+                            <button onClick={() => goTo('preferences')} className="flex-1 bg-gray-600 text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-500">
+                                Skip
+                            </button>
+                            <button onClick={handleSaveZone} disabled={saving || !currentLocation} className="flex-1 bg-brand-accent text-brand-primary font-bold py-2 px-4 rounded-md hover:bg-cyan-400 disabled:bg-gray-500">
+                                {saving ? 'Saving...' : 'Save zone'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {step === 'preferences' && (
+                    <div className="space-y-4">
+                        <div>
+                            <h2 className="text-xl font-semibold">Privacy and alerts</h2>
+                            <p className="text-sm text-text-secondary">
+                                {zoneSaved ? `"${zoneName.trim()}" is set up. ` : ''}You can change any of these later in Settings.
+                            </p>
+                        </div>
+                        <label className="flex items-start space-x-3 bg-brand-primary/50 p-3 rounded-lg cursor-pointer">
+                            <input type="checkbox" checked={anonymousByDefault} onChange={e => setAnonymousByDefault(e.target.checked)} className="rounded mt-1" />
+                            <span>
+                                <span className="block font-semibold text-sm">Post anonymously by default</span>
+                                <span className="block text-xs text-text-secondary">Vibes and SOS alerts are stored without your name. You can change this for each report.</span>
+                            </span>
+                        </label>
+                        <label className="flex items-start space-x-3 bg-brand-primary/50 p-3 rounded-lg cursor-pointer">
+                            <input type="checkbox" checked={shareLiveLocationByDefault} onChange={e => setShareLiveLocationByDefault(e.target.checked)} className="rounded mt-1" />
+                            <span>
+                                <span className="block font-semibold text-sm">Share live location with SOS</span>
+                                <span className="block text-xs text-text-secondary">Responders can follow you for an hour after you send an alert.</span>
+                            </span>
+                        </label>
+                        <div className="bg-brand-primary/50 p-3 rounded-lg flex items-start space-x-3">
+                            <BellAlertIcon className="w-5 h-5 text-brand-accent flex-shrink-0 mt-0.5" />
+                            <div className="flex-grow">
+                                <p className="font-semibold text-sm">Push notifications</p>
+                                <p className="text-xs text-text-secondary">Get alerted about reports in your safe zones even when the app is closed.</p>
+                                {pushError && <p className="text-xs text-red-400 mt-1">{pushError}</p>}
+                            </div>
+                            {isSubscribed ? (
+                                <span className="text-xs font-semibold text-emerald-400">On</span>
+                            ) : (
+                                <button onClick={handleEnablePush} className="text-xs font-semibold bg-brand-accent text-brand-primary px-3 py-1 rounded-md hover:bg-cyan-400">
+                                    Turn on
+                                </button>
+                            )}
+                        </div>
+                        <button onClick={handleFinish} disabled={saving} className="w-full bg-brand-accent text-brand-primary font-bold py-2 px-4 rounded-md hover:bg-cyan-400 disabled:bg-gray-500">
+                            {saving ? 'Finishing...' : 'Start using HyperAPP'}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default Onboarding;
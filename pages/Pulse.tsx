@@ -4,7 +4,9 @@ import { useData } from '../contexts/DataContext';
 import { VibeType, NewsItem, WeatherInfo } from '../types';
 import { LocationMarkerIcon, LightBulbIcon, MicrophoneIcon, SunIcon, CloudIcon, CloudRainIcon, BoltIcon, SnowflakeIcon } from '../components/ui/Icons';
 import { getNearbyPlacesList } from '../services/osmApiService';
-import { haversineDistance } from '../../utils/geolocation';
+import { haversineDistance } from '../utils/geolocation';
+import { summarizeVibes, isVibeExpired } from '../utils/decay';
+import { getCredibilityLevel } from '../utils/credibility';
 import { GoogleGenAI } from '@google/genai';
 import LiveAssistantModal from '../components/services/LiveAssistantModal';
 
@@ -89,6 +91,7 @@ interface AreaVibeStats {
   dominant: { type: VibeType; percentage: number } | null;
   breakdown: Record<string, number>;
   total: number;
+  disputed: number; // Reports most voters disputed; they still count, but for less.
 }
 
 const Pulse: React.FC = () => {
@@ -137,24 +140,19 @@ const Pulse: React.FC = () => {
   useEffect(() => {
     if (!currentLocation) return;
     const nearbyVibes = vibes.filter(vibe => haversineDistance(currentLocation, vibe.location) <= 1);
-    if (nearbyVibes.length === 0) {
-        setAreaVibeStats({ dominant: null, breakdown: {}, total: 0 });
+    // Each report counts by its freshness and credibility, so old or disputed reports can't dominate the breakdown.
+    const { weights, totalWeight, count } = summarizeVibes(nearbyVibes);
+    const disputed = nearbyVibes.filter(vibe => !isVibeExpired(vibe) && getCredibilityLevel(vibe) === 'disputed').length;
+    if (count === 0) {
+        setAreaVibeStats({ dominant: null, breakdown: {}, total: 0, disputed: 0 });
     } else {
-        const vibeCounts = nearbyVibes.reduce<Record<string, number>>((acc, vibe) => {
-            acc[vibe.vibe_type] = (acc[vibe.vibe_type] || 0) + 1;
-            return acc;
-        }, {});
-        const total = nearbyVibes.length;
         const breakdown = Object.fromEntries(
-            // FIX: Add type assertion to 'count' to resolve arithmetic operation error.
-            Object.entries(vibeCounts).map(([type, count]) => [type, ((count as number) / total) * 100])
+            Object.entries(weights).map(([type, weight]) => [type, (weight / totalWeight) * 100])
         );
-        // FIX: Add type assertions to 'countA' and 'countB' to resolve arithmetic operation error in sort.
-        const dominantVibeEntry = Object.entries(vibeCounts).sort(([, countA], [, countB]) => (countB as number) - (countA as number))[0];
+        const dominantVibeEntry = Object.entries(weights).sort(([, weightA], [, weightB]) => weightB - weightA)[0];
         setAreaVibeStats({
-            // FIX: Add type assertion to 'dominantVibeEntry[1]' to resolve arithmetic operation error.
-            dominant: { type: dominantVibeEntry[0] as VibeType, percentage: ((dominantVibeEntry[1] as number) / total) * 100 },
-            breakdown, total
+            dominant: { type: dominantVibeEntry[0] as VibeType, percentage: (dominantVibeEntry[1] / totalWeight) * 100 },
+            breakdown, total: count, disputed
         });
     }
   }, [vibes, currentLocation]);
@@ -242,7 +240,7 @@ const Pulse: React.FC = () => {
                         <h2 className="text-lg font-semibold text-text-primary">
                             Dominant Vibe: <span className={VIBE_CONFIG[areaVibeStats.dominant.type]?.textClass}>{VIBE_CONFIG[areaVibeStats.dominant.type]?.displayName}</span>
                         </h2>
-                        <p className="text-xs text-text-secondary">({areaVibeStats.dominant.percentage.toFixed(0)}% of reports in this area)</p>
+                        <p className="text-xs text-text-secondary">({areaVibeStats.dominant.percentage.toFixed(0)}% of recent reports in this area, weighted by freshness and credibility)</p>
                     </div>
                 </div>
             ) : (
@@ -260,7 +258,10 @@ const Pulse: React.FC = () => {
                     return <div key={type} className={config.barClass} style={{ width: `${(percentage as number).toFixed(1)}%` }} title={`${config.displayName}: ${(percentage as number).toFixed(1)}%`}></div>
                  })}
               </div>
-              <p className="text-xs text-gray-500 text-right mt-1">Based on {areaVibeStats.total} report{areaVibeStats.total > 1 ? 's' : ''}</p>
+              <p className="text-xs text-gray-500 text-right mt-1">
+                Based on {areaVibeStats.total} recent report{areaVibeStats.total > 1 ? 's' : ''}
+                {areaVibeStats.disputed > 0 && ` · ${areaVibeStats.disputed} disputed, counted less`}
+              </p>
             </div>
           ) : (
             <p className="text-text-secondary text-sm">No vibes reported in this area yet.</p>
@@ -0,0 +1,111 @@
+import React, { useState, useContext, useEffect } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { supabase } from '../services/supabaseClient';
+import { AuthContext } from '../contexts/AuthContext';
+import { takeAuthRedirectError } from '../services/auth';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+// Where the password reset email lands. Opening the link signs the user in with a recovery
+// session, which is allowed to set a new password.
+const ResetPassword: React.FC = () => {
+  const auth = useContext(AuthContext);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    setLinkError(takeAuthRedirectError());
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Your password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('The passwords do not match.');
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+      auth?.endPasswordRecovery();
+      alert('Your password has been updated.');
+      navigate('/', { replace: true });
+    } catch (err: any) {
+      setError(err.error_description || err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (auth?.loading) {
+    return <div className="h-screen w-screen flex items-center justify-center bg-brand-primary text-text-primary">Loading Session...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-brand-primary flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-brand-secondary/50 backdrop-blur-sm border border-gray-700/50 rounded-lg shadow-lg p-8">
+        <h1 className="text-3xl font-bold text-center text-text-primary mb-2">HyperAPP</h1>
+        <p className="text-center text-text-secondary mb-8">Choose a new password</p>
+
+        {!auth?.session ? (
+          <div className="space-y-4 text-center">
+            <p className="bg-red-500/20 text-red-400 p-3 rounded-md">
+              {linkError || 'This reset link is invalid or has expired. Reset links only work in the browser they were requested from.'}
+            </p>
+            <Link to="/login" className="inline-block text-brand-accent font-bold">Request a new link</Link>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            {error && <p className="bg-red-500/20 text-red-400 p-3 rounded-md mb-4 text-center">{error}</p>}
+            <div className="mb-4">
+              <label className="block text-text-secondary text-sm font-bold mb-2" htmlFor="new-password">
+                New password
+              </label>
+              <input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full bg-gray-800 text-text-primary border border-gray-600 rounded-md py-2 px-3 focus:outline-none focus:ring-2 focus:ring-brand-accent"
+                required
+              />
+            </div>
+            <div className="mb-6">
+              <label className="block text-text-secondary text-sm font-bold mb-2" htmlFor="confirm-password">
+                Confirm new password
+              </label>
+              <input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="w-full bg-gray-800 text-text-primary border border-gray-600 rounded-md py-2 px-3 focus:outline-none focus:ring-2 focus:ring-brand-accent"
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-brand-accent text-brand-primary font-bold py-2 px-4 rounded-md hover:bg-cyan-400 focus:outline-none focus:ring-2 focus:ring-brand-accent disabled:bg-gray-500"
+            >
+              {loading ? 'Saving...' : 'Set new password'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
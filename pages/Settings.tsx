@@ -4,6 +4,8 @@ import { supabase } from '../services/supabaseClient';
 import { useData } from '../contexts/DataContext';
 import { usePushManager } from '../hooks/usePushNotifications';
 import { AuthContext } from '../contexts/AuthContext';
+import { TILE_SOURCES } from '../utils/tileSources';
+import { clearOfflineTiles, isOfflineTilesSupported } from '../services/offlineTiles';
 
 const Settings: React.FC = () => {
     const navigate = useNavigate();
@@ -43,6 +45,12 @@ const Settings: React.FC = () => {
         }
     };
 
+    const handleClearOfflineMaps = async () => {
+        if (!window.confirm("Remove all downloaded map areas from this device?")) return;
+        await clearOfflineTiles();
+        alert("Downloaded map areas have been removed.");
+    };
+
     const handleSignOut = async () => {
         await supabase.auth.signOut();
         navigate('/login', { replace: true });
@@ -128,14 +136,14 @@ const Settings: React.FC = () => {
                     <SettingToggle
                         id="onDangerousVibe"
                         label='"Dangerous" Vibe Alerts'
-                        description="Get notified when a 'Dangerous' vibe is reported in your safe zones."
+                        description="Get notified when a 'Dangerous' vibe is reported in safe zones without their own alert rules."
                         isChecked={userSettings.notifications.onDangerousVibe}
                         onToggle={(val) => handleSettingToggle('notifications', 'onDangerousVibe', val)}
                     />
                     <SettingToggle
                         id="onSOS"
                         label="SOS Alerts"
-                        description="Get notified for new SOS alerts in your safe zones."
+                        description="Get notified for new SOS alerts in safe zones without their own alert rules."
                         isChecked={userSettings.notifications.onSOS}
                         onToggle={(val) => handleSettingToggle('notifications', 'onSOS', val)}
                     />
@@ -146,9 +154,16 @@ const Settings: React.FC = () => {
                  <SettingToggle
                     id="anonymousByDefault"
                     label="Post Anonymously by Default"
-                    description="When enabled, new vibes you report will not show your username."
+                    description="Vibes and SOS alerts you post are stored without your name by default. You can change this for each report."
                     isChecked={userSettings.privacy.anonymousByDefault}
                     onToggle={(val) => handleSettingToggle('privacy', 'anonymousByDefault', val)}
+                />
+                 <SettingToggle
+                    id="shareLiveLocationByDefault"
+                    label="Share Live Location with SOS"
+                    description="When you send an SOS, keep sharing your location for the next hour. You can change this for each alert."
+                    isChecked={userSettings.privacy.shareLiveLocationByDefault}
+                    onToggle={(val) => handleSettingToggle('privacy', 'shareLiveLocationByDefault', val)}
                 />
                  <button onClick={clearAiCache} className="w-full bg-gray-700 text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-600">
                     Clear Local AI Cache
@@ -163,6 +178,21 @@ const Settings: React.FC = () => {
                     selectedValue={userSettings.map.defaultView}
                     onChange={(val) => handleSettingToggle('map', 'defaultView', val)}
                 />
+                <RadioGroup
+                    legend="Map Style"
+                    name="tileSource"
+                    options={Object.entries(TILE_SOURCES).map(([value, source]) => ({ value, label: source.label }))}
+                    selectedValue={userSettings.map.tileSource}
+                    onChange={(val) => handleSettingToggle('map', 'tileSource', val)}
+                />
+                {isOfflineTilesSupported() && (
+                    <div>
+                        <p className="text-sm text-text-secondary">Download your safe zones from your profile to keep the map working there offline.</p>
+                        <button onClick={handleClearOfflineMaps} className="w-full mt-2 bg-gray-700 text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-600">
+                            Clear Downloaded Map Areas
+                        </button>
+                    </div>
+                )}
             </SettingCard>
 
             <SettingCard title="Account">
@@ -0,0 +1,106 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useParams } from 'react-router-dom';
+import { fetchSharedSOS } from '../services/sosService';
+import { getTileSource } from '../utils/tileSources';
+import { SOS_STATUS_CONFIG, isSOSActive } from '../utils/sos';
+import { timeAgo } from '../utils/time';
+import type { SharedSOS as SharedSOSData } from '../types';
+
+declare const L: any;
+
+const REFRESH_MS = 15 * 1000;
+
+// Where a trusted contact's alert link lands. It opens without an account and follows the
+// sender's live location and the alert's status until the alert is closed.
+const SharedSOS: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [sos, setSOS] = useState<SharedSOSData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const mapContainerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<any>(null);
+  const layersRef = useRef<any>(null);
+  const hasCenteredRef = useRef(false);
+
+  useEffect(() => {
+    if (!token) return;
+    let isCancelled = false;
+    const load = async () => {
+      try {
+        const data = await fetchSharedSOS(token);
+        if (isCancelled) return;
+        setSOS(data);
+        setError(data ? null : "This link isn't valid. Ask the sender to share it again.");
+      } catch (err: any) {
+        console.error("Could not load the shared SOS:", err);
+        if (!isCancelled) setError("Couldn't load the latest update. Retrying...");
+      } finally {
+        if (!isCancelled) setLoading(false);
+      }
+    };
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+    return () => { isCancelled = true; clearInterval(timer); };
+  }, [token]);
+
+  const location = sos?.location;
+  useEffect(() => {
+    if (!location || !mapContainerRef.current) return;
+    if (!mapRef.current) {
+      const source = getTileSource(undefined);
+      mapRef.current = L.map(mapContainerRef.current, { center: [location.lat, location.lng], zoom: 16 });
+      L.tileLayer(source.url, { attribution: source.attribution, subdomains: source.subdomains || 'abc', maxZoom: source.maxZoom }).addTo(mapRef.current);
+    }
+    const map = mapRef.current;
+    if (layersRef.current) map.removeLayer(layersRef.current);
+    const trail = (sos?.track || []).map(p => [p.location.lat, p.location.lng]);
+    const layers = [L.circleMarker([location.lat, location.lng], { radius: 9, color: '#FF00C1', fillColor: '#FF00C1', fillOpacity: 0.9 })];
+    if (trail.length > 1) layers.unshift(L.polyline(trail, { color: '#FF00C1', weight: 3, opacity: 0.8 }));
+    layersRef.current = L.layerGroup(layers).addTo(map);
+    // Centred once, so a contact panning around isn't pulled back on every update.
+    if (!hasCenteredRef.current) {
+      map.setView([location.lat, location.lng], 16);
+      hasCenteredRef.current = true;
+    }
+  }, [location, sos?.track]);
+
+  useEffect(() => () => {
+    mapRef.current?.remove();
+    mapRef.current = null;
+  }, []);
+
+  if (loading) {
+    return <div className="h-screen w-screen flex items-center justify-center bg-brand-primary text-text-primary">Loading alert...</div>;
+  }
+
+  const isActive = !!sos && isSOSActive(sos);
+  const isTracking = isActive && !!sos.tracking_expires_at && new Date(sos.tracking_expires_at).getTime() > Date.now();
+  const lastUpdate = sos?.track.length ? sos.track[sos.track.length - 1].recorded_at : sos?.created_at;
+
+  return (
+    <div className="h-screen w-screen flex flex-col bg-brand-primary text-text-primary">
+      <header className="p-4 border-b border-gray-700/50 space-y-1">
+        <h1 className="text-xl font-bold">HyperAPP SOS</h1>
+        {sos && (
+          <>
+            <p className="text-sm text-text-secondary">"{sos.details}"</p>
+            <p className="text-sm">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${SOS_STATUS_CONFIG[sos.status].badgeClass}`}>{SOS_STATUS_CONFIG[sos.status].label}</span>
+              {isActive && lastUpdate && <span className="ml-2 text-text-secondary">Location updated {timeAgo(lastUpdate)}{isTracking ? ' · live' : ''}</span>}
+            </p>
+          </>
+        )}
+        {error && <p className="text-sm text-brand-danger">{error}</p>}
+      </header>
+      {sos && !isActive ? (
+        <div className="flex-1 flex items-center justify-center p-6 text-center text-text-secondary">
+          This alert was closed {timeAgo(sos.status_updated_at)}, so its location is no longer shared.
+        </div>
+      ) : (
+        <div ref={mapContainerRef} className="flex-1" />
+      )}
+    </div>
+  );
+};
+
+export default SharedSOS;
@@ -0,0 +1,101 @@
+// services/auth.ts
+import type { Provider } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+
+const PROVIDER_LABELS: Partial<Record<Provider, string>> = {
+  google: 'Google',
+  apple: 'Apple',
+  github: 'GitHub',
+  facebook: 'Facebook',
+  azure: 'Microsoft',
+  discord: 'Discord',
+  twitter: 'X',
+};
+
+export interface OAuthProviderOption {
+  provider: Provider;
+  label: string;
+}
+
+/**
+ * The OAuth buttons shown on the login page, from the comma-separated OAUTH_PROVIDERS setting
+ * (e.g. "google,apple"). Each provider must also be enabled in the Supabase dashboard.
+ */
+export const OAUTH_PROVIDERS: OAuthProviderOption[] = (process.env.OAUTH_PROVIDERS || '')
+  .split(',')
+  .map(name => name.trim().toLowerCase())
+  .filter(Boolean)
+  .map(name => ({
+    provider: name as Provider,
+    label: PROVIDER_LABELS[name as Provider] || name.charAt(0).toUpperCase() + name.slice(1),
+  }));
+
+/**
+ * Where an auth email or OAuth provider should send the user back to. The app uses a HashRouter,
+ * so the route goes in the hash; with the PKCE flow Supabase adds its `?code=` before the hash,
+ * which leaves the route intact. Every such URL must be allowed under Authentication > URL Configuration.
+ */
+export const getAuthRedirectUrl = (route = '/'): string =>
+  `${window.location.origin}${window.location.pathname}#${route}`;
+
+// Read once at startup, before the router rewrites the URL, so the login page can explain a failed link.
+const readRedirectError = (): string | null => {
+  const query = new URLSearchParams(window.location.search);
+  const hash = window.location.hash.startsWith('#error') ? new URLSearchParams(window.location.hash.slice(1)) : null;
+  const code = query.get('error_code') || hash?.get('error_code');
+  if (code === 'otp_expired') return 'That link has expired or was already used. Please request a new one.';
+  const description = query.get('error_description') || hash?.get('error_description');
+  return description ? description.replace(/\+/g, ' ') : null;
+};
+
+let redirectError = readRedirectError();
+
+/**
+ * Returns the error from a failed email or OAuth redirect, if the app was opened by one, and forgets it.
+ */
+export const takeAuthRedirectError = (): string | null => {
+  const error = redirectError;
+  redirectError = null;
+  return error;
+};
+
+/**
+ * Whether a sign-in failed only because the address hasn't been confirmed yet.
+ */
+export const isEmailNotConfirmedError = (error: any): boolean =>
+  error?.code === 'email_not_confirmed' || /email not confirmed/i.test(error?.message || '');
+
+export const sendMagicLink = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: getAuthRedirectUrl('/') },
+  });
+  if (error) throw error;
+};
+
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.resetPasswordForEmail(email, {
+    redirectTo: getAuthRedirectUrl('/reset-password'),
+  });
+  if (error) throw error;
+};
+
+export const resendConfirmationEmail = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.resend({
+    type: 'signup',
+    email,
+    options: { emailRedirectTo: getAuthRedirectUrl('/') },
+  });
+  if (error) throw error;
+};
+
+/**
+ * Redirects to the provider's sign-in page; the browser comes back to the app afterwards.
+ */
+export const signInWithProvider = async (provider: Provider): Promise<void> => {
+  const { error } = await supabase.auth.signInWithOAuth({
+    provider,
+    options: { redirectTo: getAuthRedirectUrl('/') },
+  });
+  if (error) throw error;
+};
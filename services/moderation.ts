@@ -0,0 +1,61 @@
+// services/moderation.ts
+import { supabase } from './supabaseClient';
+import type { FlagReason, FlagTargetType, ModerationAction, ModerationLogEntry, ModerationQueueItem } from '../types';
+
+export const FLAG_REASON_LABELS: Record<FlagReason, string> = {
+  spam: 'Spam or advertising',
+  abusive: 'Abusive or harassing',
+  fake: 'False or misleading',
+  offensive_name: 'Offensive username',
+  other: 'Something else',
+};
+
+export const FLAG_TARGET_LABELS: Record<FlagTargetType, string> = {
+  vibe: 'Vibe',
+  sos: 'SOS alert',
+  event: 'Event',
+  profile: 'User',
+};
+
+/**
+ * Flags a record or user for the moderators. Flagging the same thing twice is treated as success.
+ */
+export const flagContent = async (targetType: FlagTargetType, targetId: string | number, reason: FlagReason, details?: string): Promise<void> => {
+  const { error } = await supabase.from('content_flags').insert({
+    target_type: targetType,
+    target_id: String(targetId),
+    reason,
+    details: details?.trim() || null,
+  });
+  // 23505: this user has already flagged this target.
+  if (error && error.code !== '23505') throw error;
+};
+
+export const fetchModerationQueue = async (): Promise<ModerationQueueItem[]> => {
+  const { data, error } = await supabase.rpc('get_moderation_queue');
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchModerationLog = async (limit = 50): Promise<ModerationLogEntry[]> => {
+  const { data, error } = await supabase
+    .from('moderation_actions')
+    .select('*, profiles(username)')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Applies an action to a flagged target; the database closes its open flags and writes the audit entry.
+ */
+export const moderateContent = async (targetType: FlagTargetType, targetId: string, action: ModerationAction, note?: string): Promise<void> => {
+  const { error } = await supabase.rpc('moderate_content', {
+    p_target_type: targetType,
+    p_target_id: targetId,
+    p_action: action,
+    p_note: note || null,
+  });
+  if (error) throw error;
+};
@@ -0,0 +1,164 @@
+// services/offlineQueue.ts
+//
+// Submissions made without a connection are kept in IndexedDB and replayed later, by the service
+// worker through Background Sync where the browser supports it, or by the page when it comes back
+// online otherwise. The database layout is shared with sw.js; keep the two in step.
+import { supabase, supabaseUrl, supabaseAnonKey } from './supabaseClient';
+import type { Location } from '../types';
+
+const OFFLINE_DB_NAME = 'hyperapp-offline';
+const OFFLINE_DB_VERSION = 1;
+const SUBMISSIONS_STORE = 'submissions';
+const META_STORE = 'meta';
+export const OFFLINE_SYNC_TAG = 'hyperapp-offline-queue';
+export const OFFLINE_QUEUE_CHANGED_EVENT = 'hyperapp-offline-queue-changed';
+// Posted by the service worker when its stored access token has expired.
+export const OFFLINE_SYNC_AUTH_REQUIRED = 'hyperapp-offline-sync-auth-required';
+
+export type QueuedSubmissionKind = 'sos' | 'vibe';
+
+const SUBMISSION_TABLES: Record<QueuedSubmissionKind, string> = { sos: 'sos', vibe: 'vibes' };
+
+export interface QueuedSubmission {
+  id?: number;
+  kind: QueuedSubmissionKind;
+  row: Record<string, any>; // The exact row to insert, with `created_at` set to when it was captured.
+  location: Location;
+  capturedAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export type SubmissionSentHandler = (item: QueuedSubmission, saved: any) => void | Promise<void>;
+
+const openOfflineDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(SUBMISSIONS_STORE)) db.createObjectStore(SUBMISSIONS_STORE, { keyPath: 'id', autoIncrement: true });
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runInStore = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openOfflineDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const notifyQueueChanged = () => window.dispatchEvent(new Event(OFFLINE_QUEUE_CHANGED_EVENT));
+
+/**
+ * Whether a failed request looks like a lost connection rather than a rejected submission.
+ */
+export const isOfflineError = (error: { message?: string } | null | undefined): boolean =>
+  !navigator.onLine || /failed to fetch|network|load failed/i.test(error?.message || '');
+
+/**
+ * Whether a request was refused because the session had expired. That says nothing about the
+ * submission itself, so it stays queued until it can be sent with a fresh token.
+ */
+export const isAuthError = (status: number): boolean => status === 401;
+
+/**
+ * Whether the submission already exists: a walk's automatic SOS can be sent by the server while the
+ * device's queued copy waits, and only one is allowed.
+ */
+export const isConflictError = (status: number): boolean => status === 409;
+
+export const isBackgroundSyncSupported = (): boolean =>
+  'serviceWorker' in navigator && 'SyncManager' in window;
+
+/**
+ * Asks the service worker to replay the queue once there is a connection.
+ * @returns false when Background Sync isn't available and the page has to retry itself.
+ */
+export const requestBackgroundSync = async (): Promise<boolean> => {
+  if (!isBackgroundSyncSupported()) return false;
+  try {
+    const registration: any = await navigator.serviceWorker.ready;
+    await registration.sync.register(OFFLINE_SYNC_TAG);
+    return true;
+  } catch (e) {
+    console.warn("Background sync registration failed:", e);
+    return false;
+  }
+};
+
+/**
+ * Stores what the service worker needs to talk to Supabase on the user's behalf.
+ */
+export const saveSyncCredentials = (accessToken: string) =>
+  runInStore(META_STORE, 'readwrite', store => store.put({ supabaseUrl, anonKey: supabaseAnonKey, accessToken }, 'credentials'));
+
+export const getQueuedSubmissions = (): Promise<QueuedSubmission[]> =>
+  runInStore(SUBMISSIONS_STORE, 'readonly', store => store.getAll() as IDBRequest<QueuedSubmission[]>);
+
+/**
+ * Persists a submission for later delivery and schedules a replay.
+ */
+export const enqueueSubmission = async (kind: QueuedSubmissionKind, row: Record<string, any>, location: Location): Promise<QueuedSubmission> => {
+  const capturedAt = row.created_at || new Date().toISOString();
+  const item: QueuedSubmission = { kind, row: { ...row, created_at: capturedAt }, location, capturedAt, attempts: 0 };
+  item.id = await runInStore(SUBMISSIONS_STORE, 'readwrite', store => store.add(item)) as number;
+  notifyQueueChanged();
+  await requestBackgroundSync();
+  return item;
+};
+
+export const discardQueuedSubmission = async (id: number) => {
+  await runInStore(SUBMISSIONS_STORE, 'readwrite', store => store.delete(id));
+  notifyQueueChanged();
+};
+
+const insertSubmission = (item: QueuedSubmission) =>
+  supabase.from(SUBMISSION_TABLES[item.kind]).insert(item.row).select().single();
+
+/**
+ * Sends every queued submission from the page, oldest first. Used when Background Sync isn't available.
+ * Stops at the first connection error, or when the session can't be refreshed; rejected submissions
+ * stay queued with their error for the user to see.
+ * @param onSent - Called after each submission is saved, e.g. to notify trusted contacts of a queued SOS.
+ * @returns The number of submissions sent.
+ */
+export const flushOfflineQueue = async (onSent?: SubmissionSentHandler): Promise<number> => {
+  const items = (await getQueuedSubmissions()).sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+  let sent = 0;
+  for (const item of items) {
+    let { data, error, status } = await insertSubmission(item);
+    if (error && isAuthError(status)) {
+      // Left untouched, not marked rejected, if the session can't be renewed right now.
+      const { error: refreshError } = await supabase.auth.refreshSession();
+      if (refreshError) break;
+      ({ data, error, status } = await insertSubmission(item));
+      if (error && isAuthError(status)) break;
+    }
+    if (error && isConflictError(status)) {
+      await runInStore(SUBMISSIONS_STORE, 'readwrite', store => store.delete(item.id!));
+      continue;
+    }
+    if (error) {
+      await runInStore(SUBMISSIONS_STORE, 'readwrite', store => store.put({ ...item, attempts: item.attempts + 1, lastError: error.message }));
+      if (isOfflineError(error)) break;
+      continue;
+    }
+    await runInStore(SUBMISSIONS_STORE, 'readwrite', store => store.delete(item.id!));
+    sent++;
+    try {
+      await onSent?.(item, data);
+    } catch (e) {
+      console.error("Post-send handler failed for queued submission:", e);
+    }
+  }
+  notifyQueueChanged();
+  return sent;
+};
@@ -0,0 +1,51 @@
+// services/offlineTiles.ts
+//
+// "Download this area": the service worker fetches every map tile for an area into a dedicated
+// cache and serves tiles from it first, so the map keeps working there without a connection.
+// The cache name is shared with sw.js.
+import type { MapBounds, TileSourceId } from '../types';
+import { getTileSource, getTileUrlsForArea } from '../utils/tileSources';
+
+const TILE_CACHE_NAME = 'hyperapp-tiles-v1';
+const OFFLINE_MIN_ZOOM = 12;
+const OFFLINE_MAX_ZOOM = 17;
+const MAX_OFFLINE_TILES = 2500; // Roughly 40MB of tiles; deeper zoom levels are dropped for larger areas.
+
+export interface TilePrecacheProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+export const isOfflineTilesSupported = (): boolean => 'serviceWorker' in navigator && 'caches' in window;
+
+/**
+ * Downloads the tiles covering `bounds` for the given tile source.
+ * @param onProgress - Called as batches complete.
+ * @returns The final counts once every tile has been attempted.
+ */
+export const precacheArea = async (
+  bounds: MapBounds,
+  sourceId: TileSourceId,
+  onProgress?: (progress: TilePrecacheProgress) => void,
+): Promise<TilePrecacheProgress> => {
+  if (!isOfflineTilesSupported()) throw new Error('Offline maps are not supported in this browser.');
+  const registration = await navigator.serviceWorker.ready;
+  if (!registration.active) throw new Error('The offline service is not running yet. Please reload and try again.');
+
+  const urls = getTileUrlsForArea(getTileSource(sourceId), bounds, OFFLINE_MIN_ZOOM, OFFLINE_MAX_ZOOM, MAX_OFFLINE_TILES);
+  const channel = new MessageChannel();
+  return new Promise((resolve) => {
+    channel.port1.onmessage = (event) => {
+      const { type, ...progress } = event.data || {};
+      if (type === 'precache-progress') onProgress?.(progress);
+      if (type === 'precache-done') {
+        channel.port1.close();
+        resolve(progress);
+      }
+    };
+    registration.active!.postMessage({ type: 'precache-tiles', urls }, [channel.port2]);
+  });
+};
+
+export const clearOfflineTiles = (): Promise<boolean> => caches.delete(TILE_CACHE_NAME);
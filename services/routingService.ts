@@ -0,0 +1,73 @@
+// services/routingService.ts
+//
+// Walking directions sit behind a small provider interface so the public OSRM demo server can be
+// swapped for a self-hosted OSRM (set ROUTING_URL) or any other engine, e.g. a Valhalla adapter.
+import type { Location } from '../types';
+
+export interface WalkingRoute {
+  id: string;
+  path: Location[];
+  distanceKm: number;
+  durationMin: number;
+}
+
+export interface RoutingProvider {
+  name: string;
+  /**
+   * @returns Up to `maxRoutes` alternatives, best first according to the engine.
+   */
+  getWalkingRoutes: (from: Location, to: Location, maxRoutes: number) => Promise<WalkingRoute[]>;
+}
+
+export interface GeocodedPlace {
+  name: string;
+  location: Location;
+}
+
+const DEFAULT_OSRM_URL = 'https://routing.openstreetmap.de/routed-foot';
+
+/**
+ * Creates a provider for any server speaking the OSRM HTTP API.
+ * @param baseUrl - Server root, without the `/route/v1` part.
+ * @param profile - The routing profile the server was built with.
+ */
+export const createOsrmProvider = (baseUrl: string, profile: string = 'foot'): RoutingProvider => ({
+  name: 'OSRM',
+  getWalkingRoutes: async (from, to, maxRoutes) => {
+    const coords = `${from.lng},${from.lat};${to.lng},${to.lat}`;
+    const url = `${baseUrl.replace(/\/$/, '')}/route/v1/${profile}/${coords}?alternatives=${Math.max(0, maxRoutes - 1)}&overview=full&geometries=geojson`;
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Routing service responded with status ${response.status}`);
+    const data = await response.json();
+    if (data.code !== 'Ok') throw new Error(data.message || 'No walking route found.');
+    return (data.routes || []).slice(0, maxRoutes).map((route: any, index: number) => ({
+      id: `osrm-${index}`,
+      path: route.geometry.coordinates.map(([lng, lat]: [number, number]) => ({ lat, lng })),
+      distanceKm: route.distance / 1000,
+      durationMin: route.duration / 60,
+    }));
+  },
+});
+
+let routingProvider: RoutingProvider = createOsrmProvider(process.env.ROUTING_URL || DEFAULT_OSRM_URL);
+
+export const getRoutingProvider = (): RoutingProvider => routingProvider;
+
+export const setRoutingProvider = (provider: RoutingProvider) => {
+  routingProvider = provider;
+};
+
+/**
+ * Looks up a destination by name with Nominatim, preferring matches around `near`.
+ */
+export const geocodeDestination = async (query: string, near?: Location | null): Promise<GeocodedPlace[]> => {
+  const params = new URLSearchParams({ format: 'json', q: query, limit: '5' });
+  if (near) {
+    const delta = 0.2; // Roughly 20km; a bias, not a hard limit.
+    params.set('viewbox', `${near.lng - delta},${near.lat + delta},${near.lng + delta},${near.lat - delta}`);
+  }
+  const response = await fetch(`https://nominatim.openstreetmap.org/search?${params}`);
+  if (!response.ok) throw new Error(`Geocoding service responded with status ${response.status}`);
+  const results = await response.json();
+  return results.map((r: any) => ({ name: r.display_name, location: { lat: parseFloat(r.lat), lng: parseFloat(r.lon) } }));
+};
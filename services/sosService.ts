@@ -0,0 +1,187 @@
+// services/sosService.ts
+import { supabase } from './supabaseClient';
+import type { SOS, SharedSOS, Location, TrustedContact } from '../types';
+import { parseLocationFromGeoJSON } from '../utils/geolocation';
+import { SOS_TRACKING_DURATION_MS } from '../utils/sos';
+import { enqueueSubmission, QueuedSubmission } from './offlineQueue';
+
+/**
+ * The message fanned out to each trusted contact when an SOS is sent.
+ */
+export interface ContactAlert {
+  sosId: number;
+  details: string;
+  location: Location; // For local adapters; the Edge Function links contacts to the live SOS page instead.
+  sentAt: string;
+}
+
+/**
+ * Delivers a single alert to a single contact. Implementations should throw when delivery fails.
+ */
+export interface ContactDeliveryAdapter {
+  deliver: (contact: TrustedContact, alert: ContactAlert) => Promise<void>;
+}
+
+export interface ContactDeliveryResult {
+  contact: TrustedContact;
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * The production adapter: hands each delivery to the `notify-trusted-contact` Edge Function,
+ * which holds the push, email and SMS provider credentials, looks up the sender's name and logs
+ * the delivery in sos_contact_notifications.
+ */
+export const edgeFunctionDeliveryAdapter: ContactDeliveryAdapter = {
+  deliver: async (contact, alert) => {
+    const { error } = await supabase.functions.invoke('notify-trusted-contact', {
+      body: { contactId: contact.id, alert },
+    });
+    if (error) throw error;
+  },
+};
+
+/**
+ * A local adapter that records deliveries instead of sending them, for tests and offline development.
+ */
+export const createStubDeliveryAdapter = () => {
+  const deliveries: { contact: TrustedContact; alert: ContactAlert }[] = [];
+  const adapter: ContactDeliveryAdapter = {
+    deliver: async (contact, alert) => {
+      console.info(`[stub] SOS ${alert.sosId} -> ${contact.name} via ${contact.channel}`);
+      deliveries.push({ contact, alert });
+    },
+  };
+  return { adapter, deliveries };
+};
+
+let deliveryAdapter: ContactDeliveryAdapter = edgeFunctionDeliveryAdapter;
+
+export const setContactDeliveryAdapter = (adapter: ContactDeliveryAdapter) => {
+  deliveryAdapter = adapter;
+};
+
+/**
+ * Notifies every trusted contact of the sender. Individual failures are logged, never thrown,
+ * so one unreachable contact can't stop the others from being alerted. A contact already alerted
+ * about this SOS is refused by the Edge Function and comes back as a failed result.
+ * @returns One result per contact.
+ */
+export const notifyTrustedContacts = async (userId: string, alert: ContactAlert): Promise<ContactDeliveryResult[]> => {
+  const { data: contacts, error } = await supabase.from('trusted_contacts').select('*').eq('user_id', userId);
+  if (error) {
+    console.error("Could not load trusted contacts:", error.message);
+    return [];
+  }
+
+  return Promise.all((contacts as TrustedContact[]).map(async (contact): Promise<ContactDeliveryResult> => {
+    try {
+      await deliveryAdapter.deliver(contact, alert);
+      return { contact, ok: true };
+    } catch (err: any) {
+      console.error(`Could not notify trusted contact ${contact.name}:`, err);
+      return { contact, ok: false, error: err?.message || 'Delivery failed' };
+    }
+  }));
+};
+
+export interface SendSOSParams {
+  userId: string;
+  details: string;
+  location: Location;
+  liveTracking?: boolean; // Share live location until the alert is closed or tracking times out.
+  anonymous?: boolean; // Hide the sender from the community; trusted contacts are still told who it is.
+  walkSessionId?: number | null; // The server-side walk this is the automatic SOS for; a walk gets at most one.
+}
+
+export interface SendSOSResult {
+  sos: SOS;
+  contactResults: ContactDeliveryResult[];
+}
+
+// The database clamps tracking_expires_at to an hour after created_at, so the saved row, not this
+// one, says when sharing really ends.
+const buildSOSRow = ({ userId, details, location, liveTracking = false, anonymous = false, walkSessionId = null }: SendSOSParams) => ({
+  user_id: userId,
+  is_anonymous: anonymous,
+  details,
+  location: `SRID=4326;POINT(${location.lng} ${location.lat})`,
+  tracking_expires_at: liveTracking ? new Date(Date.now() + SOS_TRACKING_DURATION_MS).toISOString() : null,
+  ...(walkSessionId ? { walk_session_id: walkSessionId } : {}),
+});
+
+/**
+ * Whether sendSOS failed because the walk's SOS already exists, e.g. sent by the server's worker.
+ */
+export const isDuplicateWalkSOSError = (error: { code?: string } | null | undefined): boolean => error?.code === '23505';
+
+const buildContactAlert = (sosId: number, details: string, location: Location, sentAt: string): ContactAlert => ({
+  sosId,
+  details,
+  location,
+  sentAt,
+});
+
+/**
+ * Broadcasts an SOS to the community and then notifies the sender's trusted contacts directly.
+ * Throws only if the SOS itself could not be saved.
+ */
+export const sendSOS = async (params: SendSOSParams): Promise<SendSOSResult> => {
+  const { userId, details, location } = params;
+  const { data, error } = await supabase
+    .from('sos')
+    .insert(buildSOSRow(params))
+    .select()
+    .single();
+  if (error) throw error;
+  if (!data) throw new Error('The SOS was sent but could not be read back.');
+
+  const sos: SOS = {
+    id: data.id,
+    created_at: data.created_at,
+    user_id: data.user_id ?? null,
+    is_anonymous: data.is_anonymous,
+    details: data.details,
+    status: data.status || 'open',
+    status_updated_at: data.status_updated_at,
+    tracking_expires_at: data.tracking_expires_at,
+    location,
+    profiles: params.anonymous ? undefined : { username: 'You' },
+  };
+
+  const contactResults = await notifyTrustedContacts(userId, buildContactAlert(sos.id, details, location, sos.created_at));
+  return { sos, contactResults };
+};
+
+/**
+ * Saves an SOS that couldn't be sent for delivery once the device is back online.
+ * The capture time and location are kept, so the alert arrives as it was when the user sent it.
+ */
+export const queueSOS = (params: SendSOSParams): Promise<QueuedSubmission> =>
+  enqueueSubmission('sos', { ...buildSOSRow(params), created_at: new Date().toISOString() }, params.location);
+
+/**
+ * Finishes a queued SOS after the page has replayed it: trusted contacts are notified as usual.
+ */
+export const notifyContactsForQueuedSOS = async (item: QueuedSubmission, saved: any) => {
+  if (item.kind !== 'sos' || !saved) return;
+  await notifyTrustedContacts(item.row.user_id, buildContactAlert(saved.id, saved.details, item.location, item.capturedAt));
+};
+
+/**
+ * Loads the SOS behind a trusted contact's live link. Works signed out.
+ * @returns null when the link is unknown.
+ */
+export const fetchSharedSOS = async (token: string): Promise<SharedSOS | null> => {
+  const { data, error } = await supabase.rpc('get_shared_sos', { p_token: token });
+  if (error) throw error;
+  if (!data) return null;
+  return {
+    ...data,
+    location: parseLocationFromGeoJSON(data.location),
+    track: (data.track || [])
+      .map((p: any) => ({ location: parseLocationFromGeoJSON(p.location), recorded_at: p.recorded_at }))
+      .filter((p: any) => p.location),
+  };
+};
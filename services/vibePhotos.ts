@@ -0,0 +1,32 @@
+// services/vibePhotos.ts
+import { supabase } from './supabaseClient';
+import { stripImageMetadata } from '../utils/images';
+import type { Vibe } from '../types';
+
+const VIBE_PHOTOS_BUCKET = 'vibe-photos';
+
+/**
+ * Strips metadata from each photo and uploads it to the user's folder in the vibe-photos bucket.
+ * Photos for an anonymous report go to a random folder instead, since the URL would name the user.
+ * @returns The public URLs, in the order the files were given.
+ */
+export const uploadVibePhotos = async (userId: string, files: File[], anonymous = false): Promise<string[]> => {
+  const folder = anonymous ? `anonymous/${crypto.randomUUID()}` : userId;
+  const batch = Date.now();
+  return Promise.all(files.map(async (file, index) => {
+    const image = await stripImageMetadata(file);
+    const filePath = `${folder}/${batch}-${index}.jpg`;
+    const { error } = await supabase.storage.from(VIBE_PHOTOS_BUCKET).upload(filePath, image, { contentType: 'image/jpeg' });
+    if (error) throw error;
+    return supabase.storage.from(VIBE_PHOTOS_BUCKET).getPublicUrl(filePath).data.publicUrl;
+  }));
+};
+
+/**
+ * The report's photo URLs that point into the vibe-photos bucket. Anything else is dropped before
+ * rendering, since the column is free text as far as other clients are concerned.
+ */
+export const getVibePhotoUrls = (vibe: Vibe): string[] => {
+  const bucketUrl = supabase.storage.from(VIBE_PHOTOS_BUCKET).getPublicUrl('').data.publicUrl.replace(/\/?$/, '/');
+  return (vibe.photo_urls || []).filter(url => url.startsWith(bucketUrl));
+};
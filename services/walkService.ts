@@ -0,0 +1,49 @@
+// services/walkService.ts
+import { supabase } from './supabaseClient';
+import type { Location, WalkSession } from '../types';
+
+const toPoint = (location: Location) => `SRID=4326;POINT(${location.lng} ${location.lat})`;
+
+/**
+ * Records a walk on the server, whose worker sends the automatic SOS if the device never does.
+ * @returns The id of the walk_sessions row.
+ */
+export const createServerWalk = async (session: WalkSession, anonymous: boolean): Promise<number> => {
+  const { data, error } = await supabase.from('walk_sessions').insert({
+    destination_name: session.destination.name,
+    destination: toPoint(session.destination.location),
+    expected_arrival: session.expected_arrival,
+    is_anonymous: anonymous,
+    last_location: session.last_location ? toPoint(session.last_location) : null,
+    last_location_at: session.last_location_at,
+  }).select('id').single();
+  if (error) throw error;
+  return data.id;
+};
+
+export const extendServerWalk = async (serverId: number, expectedArrival: string) => {
+  const { error } = await supabase.from('walk_sessions').update({ expected_arrival: expectedArrival }).eq('id', serverId).eq('status', 'active');
+  if (error) throw error;
+};
+
+export const saveServerWalkLocation = async (serverId: number, location: Location, recordedAt: string) => {
+  const { error } = await supabase.from('walk_sessions')
+    .update({ last_location: toPoint(location), last_location_at: recordedAt })
+    .eq('id', serverId)
+    .eq('status', 'active');
+  if (error) throw error;
+};
+
+/**
+ * Ends a walk so the server won't escalate it.
+ * @returns null once ended, or the walk as the server has it when it had already ended another way,
+ * e.g. escalated by the worker while the device was away.
+ */
+export const endServerWalk = async (serverId: number): Promise<{ status: string; sos_id: number | null } | null> => {
+  const { data, error } = await supabase.from('walk_sessions').update({ status: 'ended' }).eq('id', serverId).eq('status', 'active').select('id');
+  if (error) throw error;
+  if (data && data.length > 0) return null;
+  const { data: walk, error: fetchError } = await supabase.from('walk_sessions').select('status, sos_id').eq('id', serverId).maybeSingle();
+  if (fetchError) throw fetchError;
+  return walk;
+};
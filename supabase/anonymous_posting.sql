@@ -0,0 +1,312 @@
+-- supabase/anonymous_posting.sql
+--
+-- Anonymous vibes and SOS alerts. An anonymous report is stored with a null user_id, so neither
+-- get_public_data_in_bounds nor Realtime can tie it to anyone; its author is kept in the private
+-- report_owners table, which only they can read. Ownership checks for SOS (closing, live tracking,
+-- contact delivery logs) go through report_owner() so they keep working for anonymous alerts.
+-- Run after steps 3 to 6 and safe_zone_alerts.sql: it replaces functions and policies they define,
+-- so re-run it if you re-run any of them.
+-- Safe to run multiple times.
+
+ALTER TABLE public.vibes ADD COLUMN IF NOT EXISTS is_anonymous boolean NOT NULL DEFAULT false;
+ALTER TABLE public.sos ADD COLUMN IF NOT EXISTS is_anonymous boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.vibes ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE public.sos ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE public.sos_track_points ALTER COLUMN user_id DROP NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.report_owners (
+    source_table text not null check (source_table IN ('vibes', 'sos')),
+    source_id bigint not null,
+    user_id uuid references public.profiles(id) on delete cascade not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    primary key (source_table, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS report_owners_user_id_idx ON public.report_owners (user_id);
+
+-- Written only by the trigger below. Deliberately not added to the Realtime publication.
+ALTER TABLE public.report_owners ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own anonymous reports" ON public.report_owners;
+CREATE POLICY "Users can view their own anonymous reports" ON public.report_owners
+FOR SELECT USING (auth.uid() = user_id);
+
+-- The author of a vibe or SOS, whether it was posted under their name or anonymously.
+CREATE OR REPLACE FUNCTION public.report_owner(p_table text, p_id bigint)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        CASE p_table
+            WHEN 'vibes' THEN (SELECT user_id FROM public.vibes WHERE id = p_id)
+            WHEN 'sos' THEN (SELECT user_id FROM public.sos WHERE id = p_id)
+        END,
+        (SELECT user_id FROM public.report_owners WHERE source_table = p_table AND source_id = p_id)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.owns_report(p_table text, p_id bigint)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT auth.uid() IS NOT NULL AND public.report_owner(p_table, p_id) = auth.uid();
+$$;
+
+-- Only the caller can learn that they own a record; other users' ownership stays hidden.
+REVOKE EXECUTE ON FUNCTION public.report_owner(text, bigint) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.owns_report(text, bigint) TO authenticated;
+
+-- Moves the author of an anonymous report into report_owners before the row is written, so the
+-- row itself (and every Realtime payload for it) never carries a user id.
+CREATE OR REPLACE FUNCTION public.hide_anonymous_author()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    author uuid := COALESCE(auth.uid(), NEW.user_id);
+BEGIN
+    IF NOT NEW.is_anonymous THEN
+        RETURN NEW;
+    END IF;
+    IF author IS NULL THEN
+        RAISE EXCEPTION 'Anonymous reports need a signed-in author';
+    END IF;
+    IF NEW.user_id IS NOT NULL AND NEW.user_id IS DISTINCT FROM author THEN
+        RAISE EXCEPTION 'You can only post anonymously as yourself';
+    END IF;
+
+    INSERT INTO public.report_owners (source_table, source_id, user_id)
+    VALUES (TG_TABLE_NAME, NEW.id, author);
+    NEW.user_id := NULL;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS hide_anonymous_author ON public.vibes;
+CREATE TRIGGER hide_anonymous_author
+BEFORE INSERT ON public.vibes
+FOR EACH ROW EXECUTE FUNCTION public.hide_anonymous_author();
+
+DROP TRIGGER IF EXISTS hide_anonymous_author ON public.sos;
+CREATE TRIGGER hide_anonymous_author
+BEFORE INSERT ON public.sos
+FOR EACH ROW EXECUTE FUNCTION public.hide_anonymous_author();
+
+-- Rows are checked after the trigger has cleared user_id, so anonymous inserts need their own policy.
+-- The trigger has already recorded the caller as the author.
+DROP POLICY IF EXISTS "Users can post anonymous vibes" ON public.vibes;
+CREATE POLICY "Users can post anonymous vibes" ON public.vibes
+FOR INSERT TO authenticated WITH CHECK (is_anonymous AND user_id IS NULL AND auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Users can post anonymous SOS alerts" ON public.sos;
+CREATE POLICY "Users can post anonymous SOS alerts" ON public.sos
+FOR INSERT TO authenticated WITH CHECK (is_anonymous AND user_id IS NULL AND auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Users can delete their anonymous vibes" ON public.vibes;
+CREATE POLICY "Users can delete their anonymous vibes" ON public.vibes
+FOR DELETE TO authenticated USING (is_anonymous AND public.owns_report('vibes', id));
+
+DROP POLICY IF EXISTS "Users can delete their anonymous SOS alerts" ON public.sos;
+CREATE POLICY "Users can delete their anonymous SOS alerts" ON public.sos
+FOR DELETE TO authenticated USING (is_anonymous AND public.owns_report('sos', id));
+
+-- Photos for anonymous vibes are uploaded under anonymous/<random id>/ rather than the user's folder.
+DROP POLICY IF EXISTS "Users can upload anonymous vibe photos" ON storage.objects;
+CREATE POLICY "Users can upload anonymous vibe photos" ON storage.objects
+FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'vibe-photos' AND (storage.foldername(name))[1] = 'anonymous');
+
+-- Deleting a report forgets its author.
+CREATE OR REPLACE FUNCTION public.forget_report_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM public.report_owners WHERE source_table = TG_TABLE_NAME AND source_id = OLD.id;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS forget_report_owner ON public.vibes;
+CREATE TRIGGER forget_report_owner
+AFTER DELETE ON public.vibes
+FOR EACH ROW EXECUTE FUNCTION public.forget_report_owner();
+
+DROP TRIGGER IF EXISTS forget_report_owner ON public.sos;
+CREATE TRIGGER forget_report_owner
+AFTER DELETE ON public.sos
+FOR EACH ROW EXECUTE FUNCTION public.forget_report_owner();
+
+-- The following replace definitions from sos_lifecycle.sql, sos_tracking.sql, trusted_contacts.sql
+-- and safe_zone_alerts.sql, checking ownership with report_owner() instead of sos.user_id.
+
+-- Status changes made by the author of an anonymous alert are recorded without their id.
+CREATE OR REPLACE FUNCTION public.record_sos_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+        INSERT INTO public.sos_status_history (sos_id, status, changed_by)
+        VALUES (
+            NEW.id, NEW.status,
+            CASE WHEN NEW.is_anonymous AND public.report_owner('sos', NEW.id) = auth.uid() THEN NULL ELSE auth.uid() END
+        );
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.respond_to_sos(target_sos_id bigint)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target public.sos%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO target FROM public.sos WHERE id = target_sos_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'SOS % not found', target_sos_id;
+    END IF;
+    IF public.report_owner('sos', target_sos_id) = auth.uid() THEN
+        RAISE EXCEPTION 'You cannot respond to your own SOS';
+    END IF;
+    IF target.status NOT IN ('open', 'acknowledged') THEN
+        RAISE EXCEPTION 'This SOS is no longer active';
+    END IF;
+
+    INSERT INTO public.sos_responders (sos_id, user_id)
+    VALUES (target_sos_id, auth.uid())
+    ON CONFLICT (sos_id, user_id) DO NOTHING;
+
+    IF target.status = 'open' THEN
+        UPDATE public.sos SET status = 'acknowledged' WHERE id = target_sos_id;
+    END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_sos_status(target_sos_id bigint, new_status text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF new_status NOT IN ('resolved', 'false_alarm') THEN
+        RAISE EXCEPTION 'Invalid SOS status: %', new_status;
+    END IF;
+
+    UPDATE public.sos
+    SET status = new_status
+    WHERE id = target_sos_id
+      AND public.report_owner('sos', id) = auth.uid()
+      AND status IN ('open', 'acknowledged');
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'SOS % is not an active alert of yours', target_sos_id;
+    END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.stop_sos_tracking(target_sos_id bigint)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.sos SET tracking_expires_at = NULL
+    WHERE id = target_sos_id AND public.report_owner('sos', id) = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'SOS % is not an alert of yours', target_sos_id;
+    END IF;
+END;
+$$;
+
+-- Track points of an anonymous alert are stored without the sender's id, like the alert itself.
+CREATE OR REPLACE FUNCTION public.hide_anonymous_track_author()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM public.sos WHERE id = NEW.sos_id AND is_anonymous) THEN
+        NEW.user_id := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS hide_anonymous_track_author ON public.sos_track_points;
+CREATE TRIGGER hide_anonymous_track_author
+BEFORE INSERT ON public.sos_track_points
+FOR EACH ROW EXECUTE FUNCTION public.hide_anonymous_track_author();
+
+DROP POLICY IF EXISTS "Senders can stream points for their active SOS" ON public.sos_track_points;
+CREATE POLICY "Senders can stream points for their active SOS" ON public.sos_track_points
+FOR INSERT WITH CHECK (
+    (user_id IS NULL OR auth.uid() = user_id)
+    AND public.owns_report('sos', sos_id)
+    AND EXISTS (
+        SELECT 1 FROM public.sos s
+        WHERE s.id = sos_id
+          AND s.status IN ('open', 'acknowledged')
+          AND s.tracking_expires_at > now()
+    )
+);
+
+DROP POLICY IF EXISTS "Users can view deliveries for their own SOS" ON public.sos_contact_notifications;
+CREATE POLICY "Users can view deliveries for their own SOS" ON public.sos_contact_notifications
+FOR SELECT USING (public.owns_report('sos', sos_id));
+
+-- Deliveries are written only by the notify-trusted-contact Edge Function; see trusted_contacts.sql.
+DROP POLICY IF EXISTS "Users can log deliveries for their own SOS" ON public.sos_contact_notifications;
+
+-- The author is looked up so they aren't alerted about their own anonymous report.
+CREATE OR REPLACE FUNCTION public.queue_safe_zone_alerts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    author uuid := COALESCE(NEW.user_id, public.report_owner(TG_TABLE_NAME, NEW.id));
+BEGIN
+    -- Every vibe type is matched because zone rules may ask for any of them; the rules filter them.
+    IF TG_TABLE_NAME = 'vibes' THEN
+        PERFORM public.match_safe_zone_alerts(
+            'vibes', NEW.id, NEW.location,
+            CASE NEW.vibe_type WHEN 'lgbtqia_friendly' THEN 'LGBTQIA+ Friendly' ELSE initcap(replace(NEW.vibe_type, '_', ' ')) END || ' Vibe',
+            NEW.vibe_type, author
+        );
+    ELSE
+        PERFORM public.match_safe_zone_alerts('sos', NEW.id, NEW.location, 'SOS Alert', null, author);
+    END IF;
+    RETURN NEW;
+EXCEPTION WHEN others THEN
+    -- Alerting must never stop a report or an SOS from being saved.
+    RAISE WARNING 'queue_safe_zone_alerts failed for %.%: %', TG_TABLE_NAME, NEW.id, SQLERRM;
+    RETURN NEW;
+END;
+$$;
@@ -0,0 +1,115 @@
+// supabase/functions/_shared/contactAlerts.ts
+//
+// Sends one SOS alert to one trusted contact by push, email or SMS. Shared by notify-trusted-contact
+// (alerts the client asks for) and escalate-walk-sessions (alerts the server raises on its own).
+// Every delivery is logged in sos_contact_notifications, whose unique index refuses a second alert
+// to the same contact for the same SOS. Alerts link to the app's live SOS page (sos_share_links.sql),
+// which follows the sender's live track and the alert's status.
+// Required secrets:
+//   APP_URL                                                   (where the app is served, e.g. https://hyperapp.example)
+//   VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT        (push to HyperAPP users)
+//   RESEND_API_KEY, ALERT_EMAIL_FROM                          (email)
+//   TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER (SMS)
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import webpush from 'npm:web-push@3';
+
+type AdminClient = ReturnType<typeof createClient>;
+
+interface AlertMessage {
+  title: string;
+  body: string;
+  url: string;
+}
+
+export interface AlertedSOS {
+  id: number;
+  details: string;
+}
+
+export const CHANNELS = ['app', 'email', 'sms'];
+
+// The live page's path; it opens without a HyperAPP account, so it works for email and SMS contacts too.
+const getLivePath = async (admin: AdminClient, sosId: number): Promise<string> => {
+  const { data: token, error } = await admin.rpc('get_sos_share_token', { p_sos_id: sosId });
+  if (error || !token) throw error ?? new Error('Could not create the live link');
+  return `/#/sos/live/${token}`;
+};
+
+const sendPush = async (admin: AdminClient, userId: string, message: AlertMessage) => {
+  webpush.setVapidDetails(Deno.env.get('VAPID_SUBJECT')!, Deno.env.get('VAPID_PUBLIC_KEY')!, Deno.env.get('VAPID_PRIVATE_KEY')!);
+  const { data: subscriptions, error } = await admin.from('push_subscriptions').select('subscription_object').eq('user_id', userId);
+  if (error) throw error;
+  if (!subscriptions?.length) throw new Error('Contact has no push subscriptions');
+  const results = await Promise.allSettled(subscriptions.map(s => webpush.sendNotification(s.subscription_object, JSON.stringify(message))));
+  if (results.every(r => r.status === 'rejected')) throw new Error('Every push subscription rejected the notification');
+};
+
+const sendEmail = async (to: string, message: AlertMessage) => {
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${Deno.env.get('RESEND_API_KEY')}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      from: Deno.env.get('ALERT_EMAIL_FROM'),
+      to,
+      subject: message.title,
+      text: `${message.body}\n\nFollow their live location: ${message.url}`,
+    }),
+  });
+  if (!response.ok) throw new Error(`Email provider responded with ${response.status}`);
+};
+
+const sendSms = async (to: string, message: AlertMessage) => {
+  const sid = Deno.env.get('TWILIO_ACCOUNT_SID');
+  const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${sid}/Messages.json`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${btoa(`${sid}:${Deno.env.get('TWILIO_AUTH_TOKEN')}`)}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({ From: Deno.env.get('TWILIO_FROM_NUMBER')!, To: to, Body: `${message.title}: ${message.body} ${message.url}` }),
+  });
+  if (!response.ok) throw new Error(`SMS provider responded with ${response.status}`);
+};
+
+export const getSenderName = async (admin: AdminClient, userId: string): Promise<string> => {
+  const { data: profile } = await admin.from('profiles').select('username, full_name').eq('id', userId).maybeSingle();
+  return profile?.full_name || profile?.username || 'Someone';
+};
+
+/**
+ * Alerts one contact about an SOS. Throws when delivery fails, after logging the failure.
+ * @returns 'duplicate' when the contact has already been alerted about this SOS.
+ */
+export const deliverContactAlert = async (admin: AdminClient, contact: any, sos: AlertedSOS, senderName: string): Promise<'sent' | 'duplicate'> => {
+  const livePath = await getLivePath(admin, sos.id);
+  const message: AlertMessage = {
+    title: `SOS from ${senderName}`,
+    body: `${senderName} listed you as a trusted contact and needs help: "${sos.details}"`,
+    url: `${Deno.env.get('APP_URL')!.replace(/\/$/, '')}${livePath}`,
+  };
+
+  // Claim the contact before sending; the unique index rejects a second claim for the same SOS.
+  const { data: claim, error: claimError } = await admin.from('sos_contact_notifications')
+    .insert({ sos_id: sos.id, contact_id: contact.id, channel: contact.channel, status: 'sending' })
+    .select('id')
+    .single();
+  if (claimError?.code === '23505') return 'duplicate';
+  if (claimError || !claim) throw claimError ?? new Error('Could not record the delivery');
+
+  try {
+    switch (contact.channel) {
+      case 'app': await sendPush(admin, contact.contact_user_id, { ...message, url: livePath }); break;
+      case 'email': await sendEmail(contact.address, message); break;
+      case 'sms': await sendSms(contact.address, message); break;
+      default: throw new Error(`Unknown channel ${contact.channel}`);
+    }
+  } catch (err) {
+    // A failed delivery releases the claim, so the contact can be tried again.
+    const error = err instanceof Error ? err.message : 'Delivery failed';
+    await admin.from('sos_contact_notifications').update({ status: 'failed', error }).eq('id', claim.id);
+    throw err;
+  }
+  await admin.from('sos_contact_notifications').update({ status: 'sent' }).eq('id', claim.id);
+  return 'sent';
+};
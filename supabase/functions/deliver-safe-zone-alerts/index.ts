@@ -0,0 +1,79 @@
+// supabase/functions/deliver-safe-zone-alerts/index.ts
+//
+// Drains the alert_deliveries queue filled by the safe-zone matcher trigger (safe_zone_alerts.sql)
+// and sends each alert as web push to every subscription the user has. Invoked by a database
+// webhook on alert_deliveries inserts and, as a safety net, on a schedule; each run simply claims
+// whatever is pending, so duplicate or missed invocations are harmless.
+// Required secrets:
+//   SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY            (provided by Supabase)
+//   VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import webpush from 'npm:web-push@3';
+
+const BATCH_SIZE = 50;
+// Matches the attempt limit in claim_alert_deliveries.
+const MAX_ATTEMPTS = 3;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+type DeliveryOutcome = { status: 'sent' | 'failed' | 'skipped'; error?: string };
+
+const deliver = async (admin: ReturnType<typeof createClient>, delivery: any): Promise<DeliveryOutcome> => {
+  const { data: subscriptions, error } = await admin.from('push_subscriptions').select('id, subscription_object').eq('user_id', delivery.user_id);
+  if (error) return { status: 'failed', error: error.message };
+  // Users without push still see the alert in-app through Realtime.
+  if (!subscriptions?.length) return { status: 'skipped', error: 'No push subscriptions' };
+
+  const payload = JSON.stringify({ title: delivery.title, body: delivery.body, url: delivery.url });
+  const results = await Promise.allSettled(subscriptions.map(s => webpush.sendNotification(s.subscription_object, payload)));
+
+  // 404/410 mean the browser dropped the subscription; remove it so it isn't retried forever.
+  const expired = subscriptions.filter((_, i) => {
+    const result = results[i];
+    return result.status === 'rejected' && [404, 410].includes((result.reason as any)?.statusCode);
+  });
+  if (expired.length > 0) await admin.from('push_subscriptions').delete().in('id', expired.map(s => s.id));
+
+  if (results.some(r => r.status === 'fulfilled')) return { status: 'sent' };
+  const firstError = results.find(r => r.status === 'rejected') as PromiseRejectedResult | undefined;
+  return { status: 'failed', error: firstError?.reason?.message || 'Every push subscription rejected the notification' };
+};
+
+Deno.serve(async (req) => {
+  // Only the database webhook, the scheduler or an operator holding the service role key may run it.
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) return json({ error: 'Forbidden' }, 403);
+
+  try {
+    webpush.setVapidDetails(Deno.env.get('VAPID_SUBJECT')!, Deno.env.get('VAPID_PUBLIC_KEY')!, Deno.env.get('VAPID_PRIVATE_KEY')!);
+    const admin = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+    const summary = { sent: 0, failed: 0, skipped: 0 };
+    // Keep claiming until the queue is empty so a burst of inserts is handled by one run.
+    while (true) {
+      const { data: batch, error } = await admin.rpc('claim_alert_deliveries', { batch_size: BATCH_SIZE });
+      if (error) throw error;
+      if (!batch?.length) break;
+
+      for (const delivery of batch) {
+        const outcome = await deliver(admin, delivery);
+        summary[outcome.status]++;
+        // A failure goes back in the queue until it has used up its attempts.
+        const retry = outcome.status === 'failed' && delivery.attempts < MAX_ATTEMPTS;
+        const { error: updateError } = await admin.from('alert_deliveries').update({
+          status: retry ? 'pending' : outcome.status,
+          error: outcome.error ?? null,
+          sent_at: outcome.status === 'sent' ? new Date().toISOString() : null,
+        }).eq('id', delivery.id);
+        if (updateError) console.error(`Could not record delivery ${delivery.id}:`, updateError.message);
+      }
+      if (batch.length < BATCH_SIZE) break;
+    }
+    return json(summary);
+  } catch (err) {
+    console.error('deliver-safe-zone-alerts failed:', err);
+    return json({ error: err instanceof Error ? err.message : 'Delivery run failed' }, 500);
+  }
+});
@@ -0,0 +1,76 @@
+// supabase/functions/escalate-walk-sessions/index.ts
+//
+// Sends the automatic SOS for "Walk with me" walks whose device never did (walk_sessions.sql), then
+// alerts the walker's trusted contacts. Invoked every minute on a schedule; each run claims whatever
+// is overdue, and the one-SOS-per-walk index makes a race with the device or another run harmless.
+// Required secrets:
+//   SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (provided by Supabase)
+//   plus the push, email and SMS secrets listed in _shared/contactAlerts.ts
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { deliverContactAlert, getSenderName } from '../_shared/contactAlerts.ts';
+
+const BATCH_SIZE = 50;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+type EscalationOutcome = 'escalated' | 'skipped' | 'failed';
+
+const formatTime = (iso: string) => `${new Date(iso).toISOString().slice(11, 16)} UTC`;
+
+const escalate = async (admin: ReturnType<typeof createClient>, walk: any): Promise<EscalationOutcome> => {
+  const hasLocation = walk.last_lat !== null && walk.last_lng !== null;
+  const location = hasLocation ? { lat: walk.last_lat, lng: walk.last_lng } : { lat: walk.destination_lat, lng: walk.destination_lng };
+  const locationNote = hasLocation
+    ? `Last known location at ${formatTime(walk.last_location_at)}.`
+    : 'No location was available; this is where they were heading.';
+  const details = `Automatic SOS from "Walk with me": no check-in from a walk to ${walk.destination_name} that was due at ${formatTime(walk.expected_arrival)}. ${locationNote}`;
+
+  // Nothing is streaming from the device, so the alert is sent without live tracking.
+  const { data: sos, error } = await admin.from('sos').insert({
+    user_id: walk.user_id,
+    is_anonymous: walk.is_anonymous,
+    details,
+    location: `SRID=4326;POINT(${location.lng} ${location.lat})`,
+    walk_session_id: walk.id,
+  }).select('id').single();
+  // The device, or an earlier run, got there first.
+  if (error?.code === '23505') return 'skipped';
+  if (error || !sos) {
+    // Left claimed, so it's retried once the claim goes stale rather than again in this run.
+    console.error(`Could not send the SOS for walk ${walk.id}:`, error?.message);
+    return 'failed';
+  }
+
+  const { data: contacts, error: contactsError } = await admin.from('trusted_contacts').select('*').eq('user_id', walk.user_id);
+  if (contactsError) console.error(`Could not load trusted contacts for walk ${walk.id}:`, contactsError.message);
+  const senderName = await getSenderName(admin, walk.user_id);
+  await Promise.all((contacts ?? []).map(contact =>
+    deliverContactAlert(admin, contact, { id: sos.id, details }, senderName)
+      .catch(err => console.error(`Could not alert contact ${contact.id} for walk ${walk.id}:`, err))));
+  return 'escalated';
+};
+
+Deno.serve(async (req) => {
+  // Only the scheduler or an operator holding the service role key may run it.
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) return json({ error: 'Forbidden' }, 403);
+
+  try {
+    const admin = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+    const summary = { escalated: 0, skipped: 0, failed: 0 };
+    while (true) {
+      const { data: batch, error } = await admin.rpc('claim_due_walk_sessions', { batch_size: BATCH_SIZE });
+      if (error) throw error;
+      if (!batch?.length) break;
+
+      for (const walk of batch) summary[await escalate(admin, walk)]++;
+      if (batch.length < BATCH_SIZE) break;
+    }
+    return json(summary);
+  } catch (err) {
+    console.error('escalate-walk-sessions failed:', err);
+    return json({ error: err instanceof Error ? err.message : 'Escalation run failed' }, 500);
+  }
+});
@@ -0,0 +1,52 @@
+// supabase/functions/notify-trusted-contact/index.ts
+//
+// Delivers one SOS alert to one trusted contact. Called by the client's edgeFunctionDeliveryAdapter.
+// Everything in the message comes from the stored SOS, not the request; delivery, its live link and its log are
+// handled by _shared/contactAlerts.ts, which refuses a second alert to the same contact for one SOS.
+// Required secrets:
+//   SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY (provided by Supabase)
+//   plus the push, email and SMS secrets listed in _shared/contactAlerts.ts
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { CHANNELS, deliverContactAlert, getSenderName } from '../_shared/contactAlerts.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  try {
+    const { contactId, alert } = await req.json();
+    if (!contactId || !alert?.sosId) return json({ error: 'contactId and alert are required' }, 400);
+
+    // Read the contact and the SOS as the caller, so RLS guarantees both belong to them.
+    const caller = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+    const { data: { user } } = await caller.auth.getUser();
+    if (!user) return json({ error: 'Not authenticated' }, 401);
+
+    const { data: contact } = await caller.from('trusted_contacts').select('*').eq('id', contactId).eq('user_id', user.id).maybeSingle();
+    if (!contact) return json({ error: 'Contact not found' }, 404);
+    if (!CHANNELS.includes(contact.channel)) return json({ error: `Unknown channel ${contact.channel}` }, 400);
+    // Anonymous alerts carry no user_id, so ownership is checked through report_owners.
+    const { data: ownsSOS } = await caller.rpc('owns_report', { p_table: 'sos', p_id: alert.sosId });
+    const { data: sos } = ownsSOS ? await caller.from('sos').select('id, details').eq('id', alert.sosId).maybeSingle() : { data: null };
+    if (!sos) return json({ error: 'SOS not found' }, 404);
+
+    const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const senderName = await getSenderName(admin, user.id);
+    const outcome = await deliverContactAlert(admin, contact, { id: sos.id, details: sos.details }, senderName);
+    if (outcome === 'duplicate') return json({ error: 'This contact has already been alerted about this SOS' }, 409);
+    return json({ delivered: true });
+  } catch (err) {
+    console.error('notify-trusted-contact failed:', err);
+    return json({ error: err instanceof Error ? err.message : 'Delivery failed' }, 500);
+  }
+});
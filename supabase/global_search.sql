@@ -0,0 +1,83 @@
+-- supabase/global_search.sql
+--
+-- Server side of the global search. Finds events, SOS alerts, usernames and the caller's own safe
+-- zones anywhere, not just in the area the map has loaded, combining full-text matching with
+-- trigram similarity so typos and partial words still match. Runs as the caller, so RLS applies.
+-- Requires watched_places.sql. Safe to run multiple times.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS events_search_idx ON public.events
+    USING gin (to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(description, '')));
+CREATE INDEX IF NOT EXISTS events_title_trgm_idx ON public.events USING gin (title extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS sos_details_trgm_idx ON public.sos USING gin (details extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS profiles_username_trgm_idx ON public.profiles USING gin (username extensions.gin_trgm_ops);
+
+-- Returns up to `p_limit` hits per kind; the client merges them with what it has loaded and ranks the lot.
+-- `rank` is roughly between 0 and 1. Users are placed in the area of their latest vibe or event, snapped
+-- to a 0.1 degree grid (about 10 km) so a search can't pinpoint where someone was; users who have never
+-- posted one are not returned.
+CREATE OR REPLACE FUNCTION public.global_search(p_query text, p_limit integer DEFAULT 10)
+RETURNS TABLE (kind text, id bigint, title text, subtitle text, location jsonb, rank real)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+    WITH q AS (
+        SELECT trim(p_query) AS text, websearch_to_tsquery('simple', trim(p_query)) AS ts,
+               -- For ILIKE, with the query's own wildcards escaped so a search for "%" matches only "%".
+               replace(replace(replace(trim(p_query), '\', '\\'), '%', '\%'), '_', '\_') AS pattern
+    ),
+    event_hits AS (
+        SELECT 'event'::text, e.id, e.title, e.description, ST_AsGeoJSON(e.location)::jsonb,
+               greatest(
+                   ts_rank(to_tsvector('simple', coalesce(e.title, '') || ' ' || coalesce(e.description, '')), q.ts),
+                   word_similarity(q.text, e.title)
+               )::real AS rank
+        FROM public.events e, q
+        WHERE to_tsvector('simple', coalesce(e.title, '') || ' ' || coalesce(e.description, '')) @@ q.ts
+           OR q.text <% e.title
+        ORDER BY rank DESC, e.event_time DESC
+        LIMIT p_limit
+    ),
+    sos_hits AS (
+        SELECT 'sos'::text, s.id, s.details, s.status, ST_AsGeoJSON(s.location)::jsonb,
+               word_similarity(q.text, s.details)::real AS rank
+        FROM public.sos s, q
+        WHERE s.details IS NOT NULL AND s.details <> '' AND q.text <% s.details
+        ORDER BY rank DESC, s.created_at DESC
+        LIMIT p_limit
+    ),
+    user_hits AS (
+        SELECT 'user'::text, NULL::bigint, p.username, 'Posts in this area', ST_AsGeoJSON(ST_SnapToGrid(latest.location::geometry, 0.1))::jsonb,
+               similarity(q.text, p.username)::real AS rank
+        FROM public.profiles p
+        CROSS JOIN q
+        CROSS JOIN LATERAL (
+            SELECT posts.location FROM (
+                SELECT v.location, v.created_at FROM public.vibes v WHERE v.user_id = p.id
+                UNION ALL
+                SELECT e.location, e.created_at FROM public.events e WHERE e.user_id = p.id
+            ) posts
+            ORDER BY posts.created_at DESC
+            LIMIT 1
+        ) latest
+        WHERE p.username IS NOT NULL AND (q.text <% p.username OR p.username ILIKE q.pattern || '%' ESCAPE '\')
+        ORDER BY rank DESC
+        LIMIT p_limit
+    ),
+    zone_hits AS (
+        SELECT 'safeZone'::text, z.id, z.name, CASE WHEN z.kind = 'watched' THEN 'Watched place' ELSE 'Your safe zone' END, ST_AsGeoJSON(z.location)::jsonb,
+               word_similarity(q.text, z.name)::real AS rank
+        FROM public.safe_zones z, q
+        WHERE z.user_id = auth.uid() AND (q.text <% z.name OR z.name ILIKE '%' || q.pattern || '%' ESCAPE '\')
+        ORDER BY rank DESC
+        LIMIT p_limit
+    )
+    SELECT * FROM event_hits
+    UNION ALL SELECT * FROM sos_hits
+    UNION ALL SELECT * FROM user_hits
+    UNION ALL SELECT * FROM zone_hits;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.global_search(text, integer) TO authenticated;
@@ -0,0 +1,103 @@
+-- supabase/list_data_rpc.sql
+--
+-- Non-spatial companions to get_public_data_in_bounds, for screens that list records rather than
+-- map them: get_my_records returns the caller's own vibes, SOS alerts and events wherever they are,
+-- including anonymous ones found through report_owners, and get_event_list returns current and
+-- recently finished events everywhere. Both run as the caller, so row level security still applies.
+-- Run after nearby_rpc.sql and anonymous_posting.sql. Safe to run multiple times.
+
+CREATE INDEX IF NOT EXISTS vibes_user_id_idx ON public.vibes (user_id);
+CREATE INDEX IF NOT EXISTS sos_user_id_idx ON public.sos (user_id);
+CREATE INDEX IF NOT EXISTS events_user_id_idx ON public.events (user_id);
+CREATE INDEX IF NOT EXISTS events_event_time_idx ON public.events (event_time);
+
+CREATE OR REPLACE FUNCTION public.get_my_records(page_size integer DEFAULT 200)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+    WITH owned AS (
+        SELECT source_table, source_id FROM public.report_owners WHERE user_id = auth.uid()
+    ),
+    my_vibes AS (
+        SELECT to_jsonb(v) || jsonb_build_object(
+                   'location', ST_AsGeoJSON(v.location)::jsonb,
+                   'profiles', jsonb_build_object('username', p.username)
+               ) AS record
+        FROM public.vibes v
+        LEFT JOIN public.profiles p ON p.id = v.user_id
+        WHERE v.user_id = auth.uid()
+           OR v.id IN (SELECT source_id FROM owned WHERE source_table = 'vibes')
+        ORDER BY v.created_at DESC, v.id DESC
+        LIMIT page_size
+    ),
+    my_sos AS (
+        SELECT to_jsonb(s) || jsonb_build_object(
+                   'location', ST_AsGeoJSON(s.location)::jsonb,
+                   'profiles', jsonb_build_object('username', p.username),
+                   'responder_ids', COALESCE((
+                       SELECT jsonb_agg(r.user_id ORDER BY r.created_at)
+                       FROM public.sos_responders r WHERE r.sos_id = s.id
+                   ), '[]'::jsonb),
+                   'status_history', COALESCE((
+                       SELECT jsonb_agg(to_jsonb(h) ORDER BY h.created_at)
+                       FROM public.sos_status_history h WHERE h.sos_id = s.id
+                   ), '[]'::jsonb)
+               ) AS record
+        FROM public.sos s
+        LEFT JOIN public.profiles p ON p.id = s.user_id
+        WHERE s.user_id = auth.uid()
+           OR s.id IN (SELECT source_id FROM owned WHERE source_table = 'sos')
+        ORDER BY s.created_at DESC, s.id DESC
+        LIMIT page_size
+    ),
+    my_events AS (
+        SELECT to_jsonb(e) || jsonb_build_object(
+                   'location', ST_AsGeoJSON(e.location)::jsonb,
+                   'profiles', jsonb_build_object('username', p.username),
+                   'attendee_count', (SELECT count(*) FROM public.event_attendees a WHERE a.event_id = e.id)
+               ) AS record
+        FROM public.events e
+        LEFT JOIN public.profiles p ON p.id = e.user_id
+        WHERE e.user_id = auth.uid()
+        ORDER BY e.created_at DESC, e.id DESC
+        LIMIT page_size
+    )
+    SELECT jsonb_build_object(
+        'vibes', COALESCE((SELECT jsonb_agg(record) FROM my_vibes), '[]'::jsonb),
+        'sos', COALESCE((SELECT jsonb_agg(record) FROM my_sos), '[]'::jsonb),
+        'events', COALESCE((SELECT jsonb_agg(record) FROM my_events), '[]'::jsonb)
+    );
+$$;
+
+-- Events without an end time are treated as lasting two hours, as on the Events page.
+CREATE OR REPLACE FUNCTION public.get_event_list(page_size integer DEFAULT 200)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+    WITH listed AS (
+        SELECT e.id, e.event_time,
+               to_jsonb(e) || jsonb_build_object(
+                   'location', ST_AsGeoJSON(e.location)::jsonb,
+                   'profiles', jsonb_build_object('username', p.username),
+                   'attendee_count', (SELECT count(*) FROM public.event_attendees a WHERE a.event_id = e.id)
+               ) AS record
+        FROM public.events e
+        LEFT JOIN public.profiles p ON p.id = e.user_id
+        WHERE COALESCE(e.end_time, e.event_time + interval '2 hours') > now() - interval '12 hours'
+        ORDER BY e.event_time, e.id
+        LIMIT page_size
+    )
+    SELECT jsonb_build_object(
+        'events', COALESCE((SELECT jsonb_agg(record ORDER BY event_time, id) FROM listed), '[]'::jsonb),
+        'attending', COALESCE((
+            SELECT jsonb_agg(a.event_id)
+            FROM public.event_attendees a
+            WHERE a.user_id = auth.uid() AND a.event_id IN (SELECT id FROM listed)
+        ), '[]'::jsonb)
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_records(integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_event_list(integer) TO authenticated;
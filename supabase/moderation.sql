@@ -0,0 +1,316 @@
+-- supabase/moderation.sql
+--
+-- Reporting and moderation. Users flag vibes, SOS alerts, events and usernames into content_flags;
+-- moderators (profiles.role = 'moderator') work through them with moderate_content, which can hide
+-- or restore a record, rename an offensive username, ban or unban its author, or dismiss the flags.
+-- Every action is written to moderation_actions. Hidden records are filtered out by a restrictive
+-- RLS policy, so get_public_data_in_bounds, global_search and Realtime (which all run as the
+-- caller) stop returning them; their authors and moderators still see them. Banned users can't post
+-- vibes, events or flags, but can still send an SOS.
+-- Promote a moderator from the SQL Editor: UPDATE public.profiles SET role = 'moderator' WHERE username = '...';
+-- Run after anonymous_posting.sql. Safe to run multiple times.
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'member';
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS banned_at timestamp with time zone;
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+-- The full list of roles, so re-running this file never rejects existing ones; see roles.sql.
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_role_check CHECK (role IN ('member', 'responder', 'moderator', 'organisation'));
+
+ALTER TABLE public.vibes ADD COLUMN IF NOT EXISTS hidden_at timestamp with time zone;
+ALTER TABLE public.sos ADD COLUMN IF NOT EXISTS hidden_at timestamp with time zone;
+ALTER TABLE public.events ADD COLUMN IF NOT EXISTS hidden_at timestamp with time zone;
+
+-- Roles and bans are set only here or by moderate_content, never by users editing their own profile.
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.role := 'member';
+            NEW.banned_at := NULL;
+        ELSIF NEW.role IS DISTINCT FROM OLD.role OR NEW.banned_at IS DISTINCT FROM OLD.banned_at THEN
+            RAISE EXCEPTION 'Roles and bans can only be changed by a moderator';
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_role ON public.profiles;
+CREATE TRIGGER protect_profile_role
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.protect_profile_role();
+
+CREATE OR REPLACE FUNCTION public.is_moderator()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'moderator');
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_banned()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND banned_at IS NOT NULL);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_moderator() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_banned() TO authenticated;
+
+-- Restrictive policies are combined with AND on top of the existing ones.
+DROP POLICY IF EXISTS "Hidden vibes are visible only to their author and moderators" ON public.vibes;
+CREATE POLICY "Hidden vibes are visible only to their author and moderators" ON public.vibes
+AS RESTRICTIVE FOR SELECT
+USING (hidden_at IS NULL OR public.owns_report('vibes', id) OR public.is_moderator());
+
+DROP POLICY IF EXISTS "Hidden SOS alerts are visible only to their author and moderators" ON public.sos;
+CREATE POLICY "Hidden SOS alerts are visible only to their author and moderators" ON public.sos
+AS RESTRICTIVE FOR SELECT
+USING (hidden_at IS NULL OR public.owns_report('sos', id) OR public.is_moderator());
+
+DROP POLICY IF EXISTS "Hidden events are visible only to their author and moderators" ON public.events;
+CREATE POLICY "Hidden events are visible only to their author and moderators" ON public.events
+AS RESTRICTIVE FOR SELECT
+USING (hidden_at IS NULL OR user_id = auth.uid() OR public.is_moderator());
+
+DROP POLICY IF EXISTS "Banned users cannot post vibes" ON public.vibes;
+CREATE POLICY "Banned users cannot post vibes" ON public.vibes
+AS RESTRICTIVE FOR INSERT TO authenticated
+WITH CHECK (NOT public.is_banned());
+
+DROP POLICY IF EXISTS "Banned users cannot create events" ON public.events;
+CREATE POLICY "Banned users cannot create events" ON public.events
+AS RESTRICTIVE FOR INSERT TO authenticated
+WITH CHECK (NOT public.is_banned());
+
+-- Authors can't unhide their own records by editing them.
+CREATE OR REPLACE FUNCTION public.protect_hidden_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.hidden_at := NULL;
+        ELSIF NEW.hidden_at IS DISTINCT FROM OLD.hidden_at THEN
+            RAISE EXCEPTION 'Only moderators can hide or restore content';
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_hidden_at ON public.vibes;
+CREATE TRIGGER protect_hidden_at BEFORE INSERT OR UPDATE ON public.vibes
+FOR EACH ROW EXECUTE FUNCTION public.protect_hidden_at();
+
+DROP TRIGGER IF EXISTS protect_hidden_at ON public.sos;
+CREATE TRIGGER protect_hidden_at BEFORE INSERT OR UPDATE ON public.sos
+FOR EACH ROW EXECUTE FUNCTION public.protect_hidden_at();
+
+DROP TRIGGER IF EXISTS protect_hidden_at ON public.events;
+CREATE TRIGGER protect_hidden_at BEFORE INSERT OR UPDATE ON public.events
+FOR EACH ROW EXECUTE FUNCTION public.protect_hidden_at();
+
+-- target_id is text so it can hold both record ids and profile uuids.
+CREATE TABLE IF NOT EXISTS public.content_flags (
+    id bigint generated by default as identity primary key,
+    target_type text not null check (target_type IN ('vibe', 'sos', 'event', 'profile')),
+    target_id text not null,
+    reporter_id uuid references public.profiles(id) on delete cascade not null default auth.uid(),
+    reason text not null check (reason IN ('spam', 'abusive', 'fake', 'offensive_name', 'other')),
+    details text check (details IS NULL OR char_length(details) <= 500),
+    status text not null default 'open' check (status IN ('open', 'actioned', 'dismissed')),
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    resolved_at timestamp with time zone,
+    unique (target_type, target_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS content_flags_open_idx ON public.content_flags (target_type, target_id) WHERE status = 'open';
+
+ALTER TABLE public.content_flags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can flag content" ON public.content_flags;
+CREATE POLICY "Users can flag content" ON public.content_flags
+FOR INSERT TO authenticated
+WITH CHECK (reporter_id = auth.uid() AND status = 'open' AND NOT public.is_banned());
+
+DROP POLICY IF EXISTS "Users see their own flags, moderators see all" ON public.content_flags;
+CREATE POLICY "Users see their own flags, moderators see all" ON public.content_flags
+FOR SELECT USING (reporter_id = auth.uid() OR public.is_moderator());
+
+-- The audit log. Written only by moderate_content; `details` keeps what an action replaced,
+-- such as the username before a rename, so it can be restored.
+CREATE TABLE IF NOT EXISTS public.moderation_actions (
+    id bigint generated by default as identity primary key,
+    moderator_id uuid references public.profiles(id) on delete set null,
+    action text not null check (action IN ('hide', 'restore', 'ban', 'unban', 'dismiss')),
+    target_type text not null check (target_type IN ('vibe', 'sos', 'event', 'profile')),
+    target_id text not null,
+    note text,
+    details jsonb not null default '{}'::jsonb,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+CREATE INDEX IF NOT EXISTS moderation_actions_target_idx ON public.moderation_actions (target_type, target_id, created_at DESC);
+
+ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Moderators can read the audit log" ON public.moderation_actions;
+CREATE POLICY "Moderators can read the audit log" ON public.moderation_actions
+FOR SELECT USING (public.is_moderator());
+
+-- The author of a flagged record, or the flagged user themselves.
+CREATE OR REPLACE FUNCTION public.flag_target_author(p_target_type text, p_target_id text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE p_target_type
+        WHEN 'vibe' THEN public.report_owner('vibes', p_target_id::bigint)
+        WHEN 'sos' THEN public.report_owner('sos', p_target_id::bigint)
+        WHEN 'event' THEN (SELECT user_id FROM public.events WHERE id = p_target_id::bigint)
+        WHEN 'profile' THEN p_target_id::uuid
+    END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.flag_target_author(text, text) FROM public, anon, authenticated;
+
+-- Flagged items with open flags, most flagged first. Moderators only.
+CREATE OR REPLACE FUNCTION public.get_moderation_queue(p_limit integer DEFAULT 50)
+RETURNS TABLE (
+    target_type text, target_id text, flag_count bigint, reasons text[], details text[],
+    last_flagged_at timestamp with time zone, preview text, author_id uuid, author_username text,
+    author_banned boolean, is_hidden boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_moderator() THEN
+        RAISE EXCEPTION 'Only moderators can view the moderation queue';
+    END IF;
+
+    RETURN QUERY
+    WITH open_flags AS (
+        SELECT f.target_type, f.target_id, count(*) AS flag_count,
+               array_agg(DISTINCT f.reason) AS reasons,
+               array_remove(array_agg(f.details ORDER BY f.created_at DESC), NULL) AS details,
+               max(f.created_at) AS last_flagged_at
+        FROM public.content_flags f
+        WHERE f.status = 'open'
+        GROUP BY f.target_type, f.target_id
+        ORDER BY count(*) DESC, max(f.created_at) DESC
+        LIMIT p_limit
+    )
+    SELECT o.target_type, o.target_id, o.flag_count, o.reasons, o.details, o.last_flagged_at,
+           CASE o.target_type
+               WHEN 'vibe' THEN (SELECT v.vibe_type || COALESCE(': ' || v.note, '') FROM public.vibes v WHERE v.id = o.target_id::bigint)
+               WHEN 'sos' THEN (SELECT s.details FROM public.sos s WHERE s.id = o.target_id::bigint)
+               WHEN 'event' THEN (SELECT e.title || ': ' || e.description FROM public.events e WHERE e.id = o.target_id::bigint)
+               WHEN 'profile' THEN (SELECT p.username FROM public.profiles p WHERE p.id = o.target_id::uuid)
+           END,
+           a.id, a.username, a.banned_at IS NOT NULL,
+           CASE o.target_type
+               WHEN 'vibe' THEN (SELECT v.hidden_at IS NOT NULL FROM public.vibes v WHERE v.id = o.target_id::bigint)
+               WHEN 'sos' THEN (SELECT s.hidden_at IS NOT NULL FROM public.sos s WHERE s.id = o.target_id::bigint)
+               WHEN 'event' THEN (SELECT e.hidden_at IS NOT NULL FROM public.events e WHERE e.id = o.target_id::bigint)
+               ELSE false
+           END
+    FROM open_flags o
+    LEFT JOIN public.profiles a ON a.id = public.flag_target_author(o.target_type, o.target_id)
+    ORDER BY o.flag_count DESC, o.last_flagged_at DESC;
+END;
+$$;
+
+-- Applies a moderation action and closes the open flags on the target: 'dismiss' marks them
+-- dismissed, anything else actioned. For a profile, 'hide' renames the user and 'restore' puts
+-- the name from the last rename back. 'ban' and 'unban' act on the target's author.
+CREATE OR REPLACE FUNCTION public.moderate_content(p_target_type text, p_target_id text, p_action text, p_note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target_author uuid;
+    action_details jsonb := '{}'::jsonb;
+    previous_name text;
+BEGIN
+    IF NOT public.is_moderator() THEN
+        RAISE EXCEPTION 'Only moderators can moderate content';
+    END IF;
+    IF p_action NOT IN ('hide', 'restore', 'ban', 'unban', 'dismiss') THEN
+        RAISE EXCEPTION 'Invalid moderation action: %', p_action;
+    END IF;
+
+    IF p_action IN ('hide', 'restore') THEN
+        CASE p_target_type
+            WHEN 'vibe' THEN
+                UPDATE public.vibes SET hidden_at = CASE WHEN p_action = 'hide' THEN now() END WHERE id = p_target_id::bigint;
+            WHEN 'sos' THEN
+                UPDATE public.sos SET hidden_at = CASE WHEN p_action = 'hide' THEN now() END WHERE id = p_target_id::bigint;
+            WHEN 'event' THEN
+                UPDATE public.events SET hidden_at = CASE WHEN p_action = 'hide' THEN now() END WHERE id = p_target_id::bigint;
+            WHEN 'profile' THEN
+                IF p_action = 'hide' THEN
+                    SELECT username INTO previous_name FROM public.profiles WHERE id = p_target_id::uuid;
+                    action_details := jsonb_build_object('previous_username', previous_name);
+                    -- The whole id, so two renamed accounts can never end up with the same name.
+                    UPDATE public.profiles SET username = 'user-' || replace(p_target_id::uuid::text, '-', '') WHERE id = p_target_id::uuid;
+                ELSE
+                    SELECT a.details->>'previous_username' INTO previous_name
+                    FROM public.moderation_actions a
+                    WHERE a.target_type = 'profile' AND a.target_id = p_target_id AND a.action = 'hide'
+                    ORDER BY a.created_at DESC LIMIT 1;
+                    -- Without a stored name, or with an email name (no longer allowed, see onboarding.sql),
+                    -- the placeholder stays.
+                    IF previous_name IS NULL OR position('@' in previous_name) > 0 THEN
+                        PERFORM 1 FROM public.profiles WHERE id = p_target_id::uuid;
+                    ELSE
+                        UPDATE public.profiles SET username = previous_name WHERE id = p_target_id::uuid;
+                    END IF;
+                END IF;
+            ELSE
+                RAISE EXCEPTION 'Invalid target type: %', p_target_type;
+        END CASE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION '% % not found', p_target_type, p_target_id;
+        END IF;
+    ELSIF p_action IN ('ban', 'unban') THEN
+        target_author := public.flag_target_author(p_target_type, p_target_id);
+        IF target_author IS NULL THEN
+            RAISE EXCEPTION 'Could not find the author of % %', p_target_type, p_target_id;
+        END IF;
+        IF target_author = auth.uid() THEN
+            RAISE EXCEPTION 'You cannot ban yourself';
+        END IF;
+        UPDATE public.profiles SET banned_at = CASE WHEN p_action = 'ban' THEN now() END WHERE id = target_author;
+        action_details := jsonb_build_object('user_id', target_author);
+    END IF;
+
+    UPDATE public.content_flags
+    SET status = CASE WHEN p_action = 'dismiss' THEN 'dismissed' ELSE 'actioned' END, resolved_at = now()
+    WHERE target_type = p_target_type AND target_id = p_target_id AND status = 'open'
+      AND p_action NOT IN ('restore', 'unban');
+
+    INSERT INTO public.moderation_actions (moderator_id, action, target_type, target_id, note, details)
+    VALUES (auth.uid(), p_action, p_target_type, p_target_id, NULLIF(trim(p_note), ''), action_details);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_moderation_queue(integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.moderate_content(text, text, text, text) TO authenticated;
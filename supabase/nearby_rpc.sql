@@ -1 +1,98 @@
-��.��ڱ��y�����t*�+�w-���z�!zƥ���z����l�+a�v������b��j�^r'�r�����')�)��
\ No newline at end of file
+-- supabase/nearby_rpc.sql
+--
+-- Viewport-bounded, paginated replacement for get_all_public_data.
+-- The client splits the map into fixed tiles and calls this once per tile (and per page),
+-- so only records near what the user is looking at are ever transferred.
+-- Requires sos_lifecycle.sql and sos_tracking.sql for the SOS responder, history and track fields.
+-- Safe to run multiple times.
+
+CREATE INDEX IF NOT EXISTS vibes_location_gix ON public.vibes USING GIST (location);
+CREATE INDEX IF NOT EXISTS sos_location_gix ON public.sos USING GIST (location);
+CREATE INDEX IF NOT EXISTS events_location_gix ON public.events USING GIST (location);
+
+CREATE OR REPLACE FUNCTION public.get_public_data_in_bounds(
+    min_lat double precision,
+    min_lng double precision,
+    max_lat double precision,
+    max_lng double precision,
+    page_size integer DEFAULT 500,
+    page_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+    WITH area AS (
+        SELECT ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography AS geog
+    ),
+    page_vibes AS (
+        SELECT to_jsonb(v) || jsonb_build_object(
+                   'location', ST_AsGeoJSON(v.location)::jsonb,
+                   'profiles', jsonb_build_object('username', p.username)
+               ) AS record
+        FROM public.vibes v
+        LEFT JOIN public.profiles p ON p.id = v.user_id
+        CROSS JOIN area
+        WHERE ST_Intersects(v.location, area.geog)
+        ORDER BY v.created_at DESC, v.id DESC
+        LIMIT page_size OFFSET page_offset
+    ),
+    page_sos AS (
+        SELECT to_jsonb(s) || jsonb_build_object(
+                   'location', ST_AsGeoJSON(s.location)::jsonb,
+                   'profiles', jsonb_build_object('username', p.username),
+                   'responder_ids', COALESCE((
+                       SELECT jsonb_agg(r.user_id ORDER BY r.created_at)
+                       FROM public.sos_responders r WHERE r.sos_id = s.id
+                   ), '[]'::jsonb),
+                   'status_history', COALESCE((
+                       SELECT jsonb_agg(to_jsonb(h) ORDER BY h.created_at)
+                       FROM public.sos_status_history h WHERE h.sos_id = s.id
+                   ), '[]'::jsonb),
+                   'track', COALESCE((
+                       SELECT jsonb_agg(jsonb_build_object(
+                                  'id', t.id, 'sos_id', t.sos_id, 'accuracy_m', t.accuracy_m, 'recorded_at', t.recorded_at,
+                                  'location', ST_AsGeoJSON(t.location)::jsonb
+                              ) ORDER BY t.recorded_at)
+                       FROM (
+                           SELECT * FROM public.sos_track_points
+                           WHERE sos_id = s.id
+                           ORDER BY recorded_at DESC
+                           LIMIT 200
+                       ) t
+                   ), '[]'::jsonb)
+               ) AS record
+        FROM public.sos s
+        LEFT JOIN public.profiles p ON p.id = s.user_id
+        CROSS JOIN area
+        WHERE ST_Intersects(s.location, area.geog)
+        ORDER BY s.created_at DESC, s.id DESC
+        LIMIT page_size OFFSET page_offset
+    ),
+    page_events AS (
+        SELECT e.id,
+               to_jsonb(e) || jsonb_build_object(
+                   'location', ST_AsGeoJSON(e.location)::jsonb,
+                   'profiles', jsonb_build_object('username', p.username),
+                   'attendee_count', (SELECT count(*) FROM public.event_attendees a WHERE a.event_id = e.id)
+               ) AS record
+        FROM public.events e
+        LEFT JOIN public.profiles p ON p.id = e.user_id
+        CROSS JOIN area
+        WHERE ST_Intersects(e.location, area.geog)
+        ORDER BY e.event_time, e.id
+        LIMIT page_size OFFSET page_offset
+    )
+    SELECT jsonb_build_object(
+        'vibes', COALESCE((SELECT jsonb_agg(record) FROM page_vibes), '[]'::jsonb),
+        'sos', COALESCE((SELECT jsonb_agg(record) FROM page_sos), '[]'::jsonb),
+        'events', COALESCE((SELECT jsonb_agg(record) FROM page_events), '[]'::jsonb),
+        'attendees', COALESCE((
+            SELECT jsonb_agg(to_jsonb(a))
+            FROM public.event_attendees a
+            WHERE a.event_id IN (SELECT id FROM page_events)
+        ), '[]'::jsonb)
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_public_data_in_bounds(double precision, double precision, double precision, double precision, integer, integer) TO authenticated;
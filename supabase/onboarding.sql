@@ -0,0 +1,32 @@
+-- supabase/onboarding.sql
+--
+-- First-run onboarding. New profiles get a placeholder username and a null onboarded_at, and the
+-- app keeps the user on its onboarding screen until they have picked a username and set it.
+-- Usernames are shown on the map, so they can no longer be email addresses; existing ones are
+-- replaced with a placeholder, and their owners are sent through onboarding to pick a new one.
+-- Safe to run multiple times.
+
+-- Profiles that already have a proper username count as onboarded, but only when the column is
+-- first added, so re-running this file never skips onboarding for newer accounts.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'profiles' AND column_name = 'onboarded_at'
+    ) THEN
+        ALTER TABLE public.profiles ADD COLUMN onboarded_at timestamp with time zone;
+        UPDATE public.profiles SET onboarded_at = now()
+        WHERE username IS NOT NULL AND position('@' in username) = 0;
+    END IF;
+END;
+$$;
+
+-- Same placeholder as a moderator's rename in moderation.sql. Their onboarded_at was left null above,
+-- so onboarding asks them for a username. With no email usernames left, every row can be checked,
+-- and later updates to these profiles (a ban, say) no longer trip over the old name.
+UPDATE public.profiles SET username = 'user-' || replace(id::text, '-', '')
+WHERE position('@' in username) > 0;
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_username_not_email;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_username_not_email
+CHECK (username IS NULL OR position('@' in username) = 0);
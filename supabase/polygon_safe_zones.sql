@@ -0,0 +1,47 @@
+-- supabase/polygon_safe_zones.sql
+--
+-- Polygon safe zones: a zone can be an area (a campus, a street, a park) instead of a circle.
+-- Area zones keep `location` and `radius_km` filled in, as the centroid and the distance to the
+-- farthest vertex, so anything that only understands circles still gets a sensible bounding circle.
+-- Run before safe_zone_alerts.sql. Safe to run multiple times.
+
+ALTER TABLE public.safe_zones ADD COLUMN IF NOT EXISTS area geography(Polygon, 4326);
+
+ALTER TABLE public.safe_zones DROP CONSTRAINT IF EXISTS safe_zones_area_valid;
+ALTER TABLE public.safe_zones ADD CONSTRAINT safe_zones_area_valid
+    CHECK (area IS NULL OR ST_IsValid(area::geometry));
+
+CREATE INDEX IF NOT EXISTS safe_zones_area_idx ON public.safe_zones USING gist (area);
+
+CREATE OR REPLACE FUNCTION public.sync_safe_zone_bounds()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.area IS NOT NULL THEN
+        NEW.location := ST_Centroid(NEW.area::geometry)::geography;
+        NEW.radius_km := greatest(0.01, (
+            SELECT max(ST_Distance(NEW.location, (dp).geom::geography))
+            FROM ST_DumpPoints(NEW.area::geometry) dp
+        ) / 1000);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_safe_zone_bounds ON public.safe_zones;
+CREATE TRIGGER sync_safe_zone_bounds
+BEFORE INSERT OR UPDATE OF area ON public.safe_zones
+FOR EACH ROW EXECUTE FUNCTION public.sync_safe_zone_bounds();
+
+-- The single place that decides whether a point is inside a zone, for any other server-side check.
+CREATE OR REPLACE FUNCTION public.safe_zone_contains(zone public.safe_zones, point geography)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT CASE
+        WHEN zone.area IS NOT NULL THEN ST_Covers(zone.area, point)
+        ELSE ST_DWithin(zone.location, point, zone.radius_km * 1000)
+    END;
+$$;
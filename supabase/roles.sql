@@ -0,0 +1,83 @@
+-- supabase/roles.sql
+--
+-- Roles beyond moderation. profiles.role is one of 'member' (the default), 'responder' (a verified
+-- responder), 'moderator' or 'organisation', and is set only from the SQL Editor or the service
+-- role (moderation.sql keeps users from changing their own). The database enforces what each
+-- role may do, matching the app:
+--   * Only verified responders can respond to an SOS.
+--   * Events created by an organisation carry is_verified, which the app shows as a badge. The
+--     flag is derived from the author's role on every write, so it can't be set from the app.
+-- Grant a role: UPDATE public.profiles SET role = 'responder' WHERE username = '...';
+-- Run after moderation.sql. Safe to run multiple times.
+
+CREATE OR REPLACE FUNCTION public.has_role(p_roles text[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = ANY (p_roles));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_role(text[]) TO authenticated;
+
+-- respond_to_sos is the only writer of sos_responders, so checking here covers it without
+-- redefining the function.
+CREATE OR REPLACE FUNCTION public.check_sos_responder_role()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NOT public.has_role(ARRAY['responder']) THEN
+        RAISE EXCEPTION 'Only verified responders can respond to an SOS';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_sos_responder_role ON public.sos_responders;
+CREATE TRIGGER check_sos_responder_role
+BEFORE INSERT ON public.sos_responders
+FOR EACH ROW EXECUTE FUNCTION public.check_sos_responder_role();
+
+ALTER TABLE public.events ADD COLUMN IF NOT EXISTS is_verified boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.set_event_verified()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    NEW.is_verified := EXISTS (SELECT 1 FROM public.profiles WHERE id = NEW.user_id AND role = 'organisation');
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_event_verified ON public.events;
+CREATE TRIGGER set_event_verified
+BEFORE INSERT OR UPDATE ON public.events
+FOR EACH ROW EXECUTE FUNCTION public.set_event_verified();
+
+-- Granting or removing the organisation role re-badges the account's existing events.
+CREATE OR REPLACE FUNCTION public.sync_event_verified()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.events SET is_verified = (NEW.role = 'organisation') WHERE user_id = NEW.id;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_event_verified ON public.profiles;
+CREATE TRIGGER sync_event_verified
+AFTER UPDATE OF role ON public.profiles
+FOR EACH ROW WHEN (OLD.role IS DISTINCT FROM NEW.role)
+EXECUTE FUNCTION public.sync_event_verified();
+
+UPDATE public.events e
+SET is_verified = EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = e.user_id AND p.role = 'organisation');
@@ -0,0 +1,159 @@
+-- supabase/safe_zone_alerts.sql
+--
+-- Server-side safe-zone alerting. When a vibe or an SOS is inserted, a trigger finds every user with
+-- a safe zone containing it whose zone rules (or, without rules, global notification settings) allow
+-- it, and queues one row per user in alert_deliveries. The `deliver-safe-zone-alerts` Edge Function drains that queue and sends
+-- web push to the user's push_subscriptions; the app also shows queued alerts in-app over Realtime.
+-- Requires the push_subscriptions table (README step 8), polygon_safe_zones.sql, safe_zone_rules.sql and
+-- watched_places.sql.
+-- Safe to run multiple times.
+
+CREATE TABLE IF NOT EXISTS public.alert_deliveries (
+    id bigint generated by default as identity primary key,
+    user_id uuid references public.profiles(id) on delete cascade not null,
+    safe_zone_id bigint references public.safe_zones(id) on delete set null,
+    source_table text not null check (source_table IN ('vibes', 'sos')),
+    source_id bigint not null,
+    title text not null,
+    body text not null,
+    url text not null default '/#/',
+    status text not null default 'pending' check (status IN ('pending', 'sending', 'sent', 'failed', 'skipped')),
+    attempts integer not null default 0,
+    error text,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    sent_at timestamp with time zone,
+    -- Overlapping zones still produce a single alert per user per record.
+    constraint alert_deliveries_once unique (user_id, source_table, source_id)
+);
+
+-- When a worker last took the delivery, so a stuck or retried one is judged by its latest attempt.
+ALTER TABLE public.alert_deliveries ADD COLUMN IF NOT EXISTS claimed_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS alert_deliveries_pending_idx ON public.alert_deliveries (created_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS safe_zones_location_idx ON public.safe_zones USING gist (location);
+
+ALTER TABLE public.alert_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only ever written by the trigger and the worker (service role).
+DROP POLICY IF EXISTS "Users can view their own alert deliveries" ON public.alert_deliveries;
+CREATE POLICY "Users can view their own alert deliveries" ON public.alert_deliveries
+FOR SELECT USING (auth.uid() = user_id);
+
+-- Settings are read with the same defaults as the app's DEFAULT_SETTINGS: every alert is on until turned off.
+CREATE OR REPLACE FUNCTION public.notification_enabled(settings jsonb, flag text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT coalesce((settings -> 'notifications' ->> flag)::boolean, true);
+$$;
+
+-- Queues an alert for every user whose safe zone contains `p_location`, skipping the author.
+-- Callable directly for testing, e.g.
+--   SELECT public.match_safe_zone_alerts('sos', 1, 'SRID=4326;POINT(-74.006 40.7128)', 'SOS Alert', null, null);
+-- Returns the number of deliveries queued.
+DROP FUNCTION IF EXISTS public.match_safe_zone_alerts(text, bigint, geography, text, text, uuid);
+CREATE OR REPLACE FUNCTION public.match_safe_zone_alerts(
+    p_source_table text,
+    p_source_id bigint,
+    p_location geography,
+    p_alert_type text,
+    p_vibe_type text,
+    p_author uuid
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    queued integer;
+BEGIN
+    INSERT INTO public.alert_deliveries (user_id, safe_zone_id, source_table, source_id, title, body)
+    SELECT DISTINCT ON (z.user_id)
+        z.user_id,
+        z.id,
+        p_source_table,
+        p_source_id,
+        p_alert_type || CASE WHEN z.kind = 'watched' THEN ' near ' ELSE ' in ' END || z.name,
+        CASE WHEN z.kind = 'watched'
+            THEN format('A new "%s" was reported near your watched place "%s".', p_alert_type, z.name)
+            ELSE format('A new "%s" was reported inside your safe zone "%s".', p_alert_type, z.name)
+        END
+    FROM public.safe_zones z
+    LEFT JOIN public.user_settings us ON us.user_id = z.user_id
+    -- radius_km bounds area zones too, so the indexed distance check narrows both kinds before the exact test.
+    WHERE ST_DWithin(z.location, p_location, z.radius_km * 1000)
+      AND public.safe_zone_contains(z, p_location)
+      AND z.user_id IS DISTINCT FROM p_author
+      AND public.notification_enabled(us.settings, 'safeZoneAlerts')
+      AND public.safe_zone_rules_allow(z.rules, us.settings, p_source_table, p_vibe_type)
+    -- The nearest zone whose rules allow it names the alert when several contain it.
+    ORDER BY z.user_id, ST_Distance(z.location, p_location)
+    ON CONFLICT ON CONSTRAINT alert_deliveries_once DO NOTHING;
+
+    GET DIAGNOSTICS queued = ROW_COUNT;
+    RETURN queued;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.queue_safe_zone_alerts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Every vibe type is matched because zone rules may ask for any of them; the rules filter them.
+    IF TG_TABLE_NAME = 'vibes' THEN
+        PERFORM public.match_safe_zone_alerts(
+            'vibes', NEW.id, NEW.location,
+            CASE NEW.vibe_type WHEN 'lgbtqia_friendly' THEN 'LGBTQIA+ Friendly' ELSE initcap(replace(NEW.vibe_type, '_', ' ')) END || ' Vibe',
+            NEW.vibe_type, NEW.user_id
+        );
+    ELSE
+        PERFORM public.match_safe_zone_alerts('sos', NEW.id, NEW.location, 'SOS Alert', null, NEW.user_id);
+    END IF;
+    RETURN NEW;
+EXCEPTION WHEN others THEN
+    -- Alerting must never stop a report or an SOS from being saved.
+    RAISE WARNING 'queue_safe_zone_alerts failed for %.%: %', TG_TABLE_NAME, NEW.id, SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_safe_zone_alerts ON public.vibes;
+CREATE TRIGGER queue_safe_zone_alerts
+AFTER INSERT ON public.vibes
+FOR EACH ROW EXECUTE FUNCTION public.queue_safe_zone_alerts();
+
+DROP TRIGGER IF EXISTS queue_safe_zone_alerts ON public.sos;
+CREATE TRIGGER queue_safe_zone_alerts
+AFTER INSERT ON public.sos
+FOR EACH ROW EXECUTE FUNCTION public.queue_safe_zone_alerts();
+
+-- Hands the worker a batch of pending deliveries. SKIP LOCKED lets overlapping worker runs share
+-- the queue without sending anything twice. A delivery the worker put back after a failed attempt
+-- waits a minute before its retry, and one stuck in 'sending' (a worker that died) is picked up
+-- again five minutes after it was claimed. Either way it gets at most three attempts.
+CREATE OR REPLACE FUNCTION public.claim_alert_deliveries(batch_size integer DEFAULT 50)
+RETURNS SETOF public.alert_deliveries
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.alert_deliveries d
+    SET status = 'sending', attempts = d.attempts + 1, claimed_at = now()
+    WHERE d.id IN (
+        SELECT id FROM public.alert_deliveries
+        WHERE (status = 'pending' AND (claimed_at IS NULL OR claimed_at < now() - interval '1 minute'))
+           OR (status = 'sending' AND claimed_at < now() - interval '5 minutes' AND attempts < 3)
+        ORDER BY created_at
+        LIMIT batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING d.*;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_alert_deliveries(integer) FROM public, anon, authenticated;
+REVOKE ALL ON FUNCTION public.match_safe_zone_alerts(text, bigint, geography, text, text, uuid) FROM public, anon, authenticated;
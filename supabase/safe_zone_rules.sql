@@ -0,0 +1,75 @@
+-- supabase/safe_zone_rules.sql
+--
+-- Per-zone alert rules. A zone's `rules` decide which vibe types and whether SOS alerts trigger it,
+-- plus optional quiet hours and an active schedule (e.g. "school route, weekdays 07:00-09:00").
+-- Zones without rules keep following the user's global notification flags.
+-- Rules shape (times are 'HH:MM' in the zone's IANA timezone, days are 0 = Sunday ... 6 = Saturday):
+--   { "vibeTypes": ["dangerous"], "onSOS": true, "timezone": "Europe/London",
+--     "quietHours": { "start": "22:00", "end": "07:00" } | null,
+--     "schedule": { "days": [1,2,3,4,5], "start": "07:00", "end": "09:00" } | null }
+-- Run before safe_zone_alerts.sql. Safe to run multiple times.
+
+ALTER TABLE public.safe_zones ADD COLUMN IF NOT EXISTS rules jsonb;
+
+-- Windows that end before they start wrap past midnight, e.g. 22:00-07:00.
+CREATE OR REPLACE FUNCTION public.time_in_window(t time, window_start time, window_end time)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN window_start <= window_end THEN t >= window_start AND t < window_end
+        ELSE t >= window_start OR t < window_end
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.safe_zone_rules_allow(
+    rules jsonb,
+    settings jsonb,
+    p_source_table text,
+    p_vibe_type text,
+    at timestamp with time zone DEFAULT now()
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    local_ts timestamp;
+BEGIN
+    IF rules IS NULL THEN
+        IF p_source_table = 'sos' THEN
+            RETURN public.notification_enabled(settings, 'onSOS');
+        END IF;
+        RETURN p_vibe_type = 'dangerous' AND public.notification_enabled(settings, 'onDangerousVibe');
+    END IF;
+
+    IF p_source_table = 'sos' THEN
+        IF NOT coalesce((rules ->> 'onSOS')::boolean, true) THEN RETURN false; END IF;
+    ELSIF NOT coalesce(rules -> 'vibeTypes' ? p_vibe_type, false) THEN
+        RETURN false;
+    END IF;
+
+    BEGIN
+        local_ts := at AT TIME ZONE coalesce(nullif(rules ->> 'timezone', ''), 'UTC');
+    EXCEPTION WHEN others THEN
+        local_ts := at AT TIME ZONE 'UTC'; -- An unknown timezone name must never block matching.
+    END;
+
+    IF jsonb_typeof(rules -> 'quietHours') = 'object'
+       AND public.time_in_window(local_ts::time, (rules -> 'quietHours' ->> 'start')::time, (rules -> 'quietHours' ->> 'end')::time) THEN
+        RETURN false;
+    END IF;
+
+    IF jsonb_typeof(rules -> 'schedule') = 'object' THEN
+        IF NOT coalesce(rules -> 'schedule' -> 'days' @> to_jsonb(extract(dow FROM local_ts)::int), false) THEN
+            RETURN false;
+        END IF;
+        IF NOT public.time_in_window(local_ts::time, (rules -> 'schedule' ->> 'start')::time, (rules -> 'schedule' ->> 'end')::time) THEN
+            RETURN false;
+        END IF;
+    END IF;
+
+    RETURN true;
+END;
+$$;
@@ -0,0 +1,149 @@
+-- supabase/sos_lifecycle.sql
+--
+-- SOS lifecycle: open -> acknowledged (someone is responding) -> resolved / false_alarm.
+-- Every status change is timestamped in sos_status_history, and responders are tracked per alert.
+-- Run before nearby_rpc.sql, which returns the lifecycle fields with each SOS.
+-- Safe to run multiple times.
+
+ALTER TABLE public.sos ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'open';
+ALTER TABLE public.sos ADD COLUMN IF NOT EXISTS status_updated_at timestamp with time zone NOT NULL DEFAULT now();
+
+ALTER TABLE public.sos DROP CONSTRAINT IF EXISTS sos_status_check;
+ALTER TABLE public.sos ADD CONSTRAINT sos_status_check
+    CHECK (status IN ('open', 'acknowledged', 'resolved', 'false_alarm'));
+
+-- Rows created before the lifecycle existed only carry the legacy flag.
+UPDATE public.sos SET status = 'resolved' WHERE resolved IS TRUE AND status = 'open';
+
+CREATE TABLE IF NOT EXISTS public.sos_status_history (
+    id bigint generated by default as identity primary key,
+    sos_id bigint references public.sos(id) on delete cascade not null,
+    status text not null,
+    changed_by uuid references public.profiles(id) on delete set null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+CREATE INDEX IF NOT EXISTS sos_status_history_sos_id_idx ON public.sos_status_history (sos_id, created_at);
+
+CREATE TABLE IF NOT EXISTS public.sos_responders (
+    id bigint generated by default as identity primary key,
+    sos_id bigint references public.sos(id) on delete cascade not null,
+    user_id uuid references public.profiles(id) on delete cascade not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    unique (sos_id, user_id)
+);
+
+-- Both tables are written only through the functions below.
+ALTER TABLE public.sos_status_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sos_responders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "SOS history is visible to signed-in users" ON public.sos_status_history;
+CREATE POLICY "SOS history is visible to signed-in users" ON public.sos_status_history
+FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "SOS responders are visible to signed-in users" ON public.sos_responders;
+CREATE POLICY "SOS responders are visible to signed-in users" ON public.sos_responders
+FOR SELECT TO authenticated USING (true);
+
+-- Keeps the legacy flag and timestamp in sync before the row is written.
+CREATE OR REPLACE FUNCTION public.sync_sos_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+        NEW.resolved := NEW.status IN ('resolved', 'false_alarm');
+        NEW.status_updated_at := now();
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sos_sync_status ON public.sos;
+CREATE TRIGGER sos_sync_status
+BEFORE INSERT OR UPDATE OF status ON public.sos
+FOR EACH ROW EXECUTE FUNCTION public.sync_sos_status();
+
+-- Records every status change, including the initial 'open'.
+CREATE OR REPLACE FUNCTION public.record_sos_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+        INSERT INTO public.sos_status_history (sos_id, status, changed_by)
+        VALUES (NEW.id, NEW.status, auth.uid());
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sos_record_status_change ON public.sos;
+CREATE TRIGGER sos_record_status_change
+AFTER INSERT OR UPDATE OF status ON public.sos
+FOR EACH ROW EXECUTE FUNCTION public.record_sos_status_change();
+
+-- "I'm responding": any signed-in user except the owner can respond to an active alert.
+-- The first responder moves the alert from 'open' to 'acknowledged'.
+CREATE OR REPLACE FUNCTION public.respond_to_sos(target_sos_id bigint)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target public.sos%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO target FROM public.sos WHERE id = target_sos_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'SOS % not found', target_sos_id;
+    END IF;
+    IF target.user_id = auth.uid() THEN
+        RAISE EXCEPTION 'You cannot respond to your own SOS';
+    END IF;
+    IF target.status NOT IN ('open', 'acknowledged') THEN
+        RAISE EXCEPTION 'This SOS is no longer active';
+    END IF;
+
+    INSERT INTO public.sos_responders (sos_id, user_id)
+    VALUES (target_sos_id, auth.uid())
+    ON CONFLICT (sos_id, user_id) DO NOTHING;
+
+    IF target.status = 'open' THEN
+        UPDATE public.sos SET status = 'acknowledged' WHERE id = target_sos_id;
+    END IF;
+END;
+$$;
+
+-- Only the owner can close their alert, as resolved or as a false alarm.
+CREATE OR REPLACE FUNCTION public.set_sos_status(target_sos_id bigint, new_status text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF new_status NOT IN ('resolved', 'false_alarm') THEN
+        RAISE EXCEPTION 'Invalid SOS status: %', new_status;
+    END IF;
+
+    UPDATE public.sos
+    SET status = new_status
+    WHERE id = target_sos_id
+      AND user_id = auth.uid()
+      AND status IN ('open', 'acknowledged');
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'SOS % is not an active alert of yours', target_sos_id;
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.respond_to_sos(bigint) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_sos_status(bigint, text) TO authenticated;
@@ -0,0 +1,67 @@
+-- supabase/sos_share_links.sql
+--
+-- Live links for trusted contacts. Each SOS alert sent to a contact links to the app's
+-- #/sos/live/<token> page, which anyone holding the link can open without a HyperAPP account.
+-- It follows the alert's live track (sos_tracking.sql) and status until the alert is closed,
+-- after which it only shows that the sender is safe. Tokens are private: only the
+-- notify-trusted-contact and escalate-walk-sessions functions can create or read them.
+-- Run after sos_lifecycle.sql and sos_tracking.sql. Safe to run multiple times.
+
+CREATE TABLE IF NOT EXISTS public.sos_share_links (
+    sos_id bigint primary key references public.sos(id) on delete cascade,
+    token uuid not null unique default gen_random_uuid(),
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- No policies: the table is reached only through the functions below.
+ALTER TABLE public.sos_share_links ENABLE ROW LEVEL SECURITY;
+
+-- One token per SOS, shared by every contact alerted about it.
+CREATE OR REPLACE FUNCTION public.get_sos_share_token(p_sos_id bigint)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    share_token uuid;
+BEGIN
+    INSERT INTO public.sos_share_links (sos_id) VALUES (p_sos_id)
+    ON CONFLICT (sos_id) DO NOTHING;
+    SELECT token INTO share_token FROM public.sos_share_links WHERE sos_id = p_sos_id;
+    RETURN share_token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_sos_share_token(bigint) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sos_share_token(bigint) TO service_role;
+
+-- What the live page shows for a token, or null for an unknown one. The location and track are
+-- only returned while the alert is open or acknowledged.
+CREATE OR REPLACE FUNCTION public.get_shared_sos(p_token uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'details', s.details,
+        'status', s.status,
+        'created_at', s.created_at,
+        'status_updated_at', s.status_updated_at,
+        'tracking_expires_at', s.tracking_expires_at,
+        'location', CASE WHEN active.is_active THEN ST_AsGeoJSON(s.location)::jsonb END,
+        'track', CASE WHEN active.is_active THEN (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object('location', ST_AsGeoJSON(p.location)::jsonb, 'recorded_at', p.recorded_at) ORDER BY p.recorded_at), '[]'::jsonb)
+            FROM public.sos_track_points p
+            WHERE p.sos_id = s.id
+        ) ELSE '[]'::jsonb END
+    )
+    FROM public.sos_share_links l
+    JOIN public.sos s ON s.id = l.sos_id
+    CROSS JOIN LATERAL (SELECT s.status IN ('open', 'acknowledged') AS is_active) active
+    WHERE l.token = p_token;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_sos(uuid) TO anon, authenticated;
@@ -0,0 +1,115 @@
+-- supabase/sos_tracking.sql
+--
+-- Live location sharing for an active SOS. While `tracking_expires_at` is in the future the
+-- sender's device streams fixes into sos_track_points; each point also moves the SOS itself,
+-- so every client sees the marker follow the person.
+-- Run after sos_lifecycle.sql and before nearby_rpc.sql.
+-- Safe to run multiple times.
+
+ALTER TABLE public.sos ADD COLUMN IF NOT EXISTS tracking_expires_at timestamp with time zone;
+
+CREATE TABLE IF NOT EXISTS public.sos_track_points (
+    id bigint generated by default as identity primary key,
+    sos_id bigint references public.sos(id) on delete cascade not null,
+    user_id uuid references public.profiles(id) on delete cascade not null,
+    location geography(Point, 4326) not null,
+    accuracy_m real,
+    recorded_at timestamp with time zone not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+CREATE INDEX IF NOT EXISTS sos_track_points_sos_id_idx ON public.sos_track_points (sos_id, recorded_at);
+
+ALTER TABLE public.sos_track_points ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "SOS tracks are visible to signed-in users" ON public.sos_track_points;
+CREATE POLICY "SOS tracks are visible to signed-in users" ON public.sos_track_points
+FOR SELECT TO authenticated USING (true);
+
+-- Points are only accepted for the sender's own alert, while it is active and tracking hasn't timed out.
+DROP POLICY IF EXISTS "Senders can stream points for their active SOS" ON public.sos_track_points;
+CREATE POLICY "Senders can stream points for their active SOS" ON public.sos_track_points
+FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND EXISTS (
+        SELECT 1 FROM public.sos s
+        WHERE s.id = sos_id
+          AND s.user_id = auth.uid()
+          AND s.status IN ('open', 'acknowledged')
+          AND s.tracking_expires_at > now()
+    )
+);
+
+CREATE OR REPLACE FUNCTION public.move_sos_to_latest_point()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.sos SET location = NEW.location WHERE id = NEW.sos_id;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sos_track_points_move_sos ON public.sos_track_points;
+CREATE TRIGGER sos_track_points_move_sos
+AFTER INSERT ON public.sos_track_points
+FOR EACH ROW EXECUTE FUNCTION public.move_sos_to_latest_point();
+
+-- Tracking can never run past an hour after the alert was sent, whatever the client asks for.
+-- A new row's created_at is capped at now(), so a client can't move the limit by sending a future one.
+CREATE OR REPLACE FUNCTION public.clamp_sos_tracking_expiry()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    sent_at timestamp with time zone := CASE WHEN TG_OP = 'INSERT' THEN LEAST(NEW.created_at, now()) ELSE OLD.created_at END;
+BEGIN
+    IF NEW.tracking_expires_at IS NOT NULL THEN
+        NEW.tracking_expires_at := LEAST(NEW.tracking_expires_at, sent_at + interval '1 hour');
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sos_clamp_tracking_expiry ON public.sos;
+CREATE TRIGGER sos_clamp_tracking_expiry
+BEFORE INSERT OR UPDATE OF tracking_expires_at ON public.sos
+FOR EACH ROW EXECUTE FUNCTION public.clamp_sos_tracking_expiry();
+
+-- Closing an alert always ends its tracking.
+CREATE OR REPLACE FUNCTION public.stop_tracking_closed_sos()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.status IN ('resolved', 'false_alarm') THEN
+        NEW.tracking_expires_at := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sos_stop_tracking_when_closed ON public.sos;
+CREATE TRIGGER sos_stop_tracking_when_closed
+BEFORE UPDATE OF status ON public.sos
+FOR EACH ROW EXECUTE FUNCTION public.stop_tracking_closed_sos();
+
+-- Lets the sender stop sharing early without closing the alert.
+CREATE OR REPLACE FUNCTION public.stop_sos_tracking(target_sos_id bigint)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.sos SET tracking_expires_at = NULL
+    WHERE id = target_sos_id AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'SOS % is not an alert of yours', target_sos_id;
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.stop_sos_tracking(bigint) TO authenticated;
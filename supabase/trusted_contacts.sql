@@ -0,0 +1,73 @@
+-- supabase/trusted_contacts.sql
+--
+-- Trusted emergency contacts: people who are notified directly whenever the owner sends an SOS.
+-- A contact is either another HyperAPP user (delivered as a push notification) or an external
+-- email address / phone number. Deliveries are made by the `notify-trusted-contact` Edge Function,
+-- which logs each one in sos_contact_notifications and never alerts a contact twice about one SOS.
+-- Safe to run multiple times.
+
+CREATE TABLE IF NOT EXISTS public.trusted_contacts (
+    id bigint generated by default as identity primary key,
+    user_id uuid references public.profiles(id) on delete cascade not null,
+    name text not null,
+    channel text not null check (channel IN ('app', 'email', 'sms')),
+    contact_user_id uuid references public.profiles(id) on delete cascade,
+    address text,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    -- App contacts point at a profile; email/SMS contacts carry an address.
+    constraint trusted_contacts_target_check check (
+        (channel = 'app' AND contact_user_id IS NOT NULL AND address IS NULL)
+        OR (channel <> 'app' AND address IS NOT NULL AND contact_user_id IS NULL)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS trusted_contacts_user_id_idx ON public.trusted_contacts (user_id);
+
+ALTER TABLE public.trusted_contacts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own trusted contacts" ON public.trusted_contacts;
+CREATE POLICY "Users can view their own trusted contacts" ON public.trusted_contacts
+FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can add their own trusted contacts" ON public.trusted_contacts;
+CREATE POLICY "Users can add their own trusted contacts" ON public.trusted_contacts
+FOR INSERT WITH CHECK (auth.uid() = user_id AND contact_user_id IS DISTINCT FROM auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete their own trusted contacts" ON public.trusted_contacts;
+CREATE POLICY "Users can delete their own trusted contacts" ON public.trusted_contacts
+FOR DELETE USING (auth.uid() = user_id);
+
+-- One row per contact per SOS, so the sender can see who was reached.
+CREATE TABLE IF NOT EXISTS public.sos_contact_notifications (
+    id bigint generated by default as identity primary key,
+    sos_id bigint references public.sos(id) on delete cascade not null,
+    contact_id bigint references public.trusted_contacts(id) on delete set null,
+    channel text not null,
+    status text not null check (status IN ('sending', 'sent', 'failed')),
+    error text,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+ALTER TABLE public.sos_contact_notifications DROP CONSTRAINT IF EXISTS sos_contact_notifications_status_check;
+ALTER TABLE public.sos_contact_notifications ADD CONSTRAINT sos_contact_notifications_status_check
+CHECK (status IN ('sending', 'sent', 'failed'));
+
+-- Deliveries used to be logged by the client, which could repeat a contact; keep the first of each.
+DELETE FROM public.sos_contact_notifications n
+USING public.sos_contact_notifications earlier
+WHERE n.sos_id = earlier.sos_id AND n.contact_id = earlier.contact_id
+  AND n.status IN ('sending', 'sent') AND earlier.status IN ('sending', 'sent') AND earlier.id < n.id;
+
+-- The Edge Function claims a contact with a 'sending' row before delivering, so this index is what
+-- stops a retried or replayed request from alerting the same contact twice.
+CREATE UNIQUE INDEX IF NOT EXISTS sos_contact_notifications_once
+ON public.sos_contact_notifications (sos_id, contact_id) WHERE status IN ('sending', 'sent');
+
+ALTER TABLE public.sos_contact_notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view deliveries for their own SOS" ON public.sos_contact_notifications;
+CREATE POLICY "Users can view deliveries for their own SOS" ON public.sos_contact_notifications
+FOR SELECT USING (EXISTS (SELECT 1 FROM public.sos s WHERE s.id = sos_id AND s.user_id = auth.uid()));
+
+-- Only the Edge Function (as the service role) writes deliveries, so users can't pre-claim or fake them.
+DROP POLICY IF EXISTS "Users can log deliveries for their own SOS" ON public.sos_contact_notifications;
@@ -0,0 +1,190 @@
+-- supabase/vibe_credibility.sql
+--
+-- Credibility for vibe reports. Signed-in users within a kilometre of a report can confirm or
+-- dispute it; each report keeps its vote counts and a credibility score that the map heat and
+-- the Pulse breakdown multiply into the report's weight. Authors whose recent reports were mostly
+-- disputed start with a lower score, and every author is rate limited. Votes are written only
+-- through vote_on_vibe; the counts reach other clients as ordinary Realtime updates of the vibe.
+-- Run after anonymous_posting.sql, whose report_owner() finds the author of anonymous reports.
+-- Safe to run multiple times.
+
+ALTER TABLE public.vibes ADD COLUMN IF NOT EXISTS confirm_count integer NOT NULL DEFAULT 0;
+ALTER TABLE public.vibes ADD COLUMN IF NOT EXISTS dispute_count integer NOT NULL DEFAULT 0;
+ALTER TABLE public.vibes ADD COLUMN IF NOT EXISTS author_weight real NOT NULL DEFAULT 1;
+ALTER TABLE public.vibes ADD COLUMN IF NOT EXISTS credibility real NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS public.vibe_votes (
+    id bigint generated by default as identity primary key,
+    vibe_id bigint references public.vibes(id) on delete cascade not null,
+    user_id uuid references public.profiles(id) on delete cascade not null,
+    vote smallint not null check (vote IN (-1, 1)), -- 1 confirms the report, -1 disputes it.
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    unique (vibe_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS vibe_votes_user_id_idx ON public.vibe_votes (user_id, created_at);
+
+-- Who voted stays private; everyone sees only the counts on the vibe.
+ALTER TABLE public.vibe_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own vibe votes" ON public.vibe_votes;
+CREATE POLICY "Users can view their own vibe votes" ON public.vibe_votes
+FOR SELECT USING (auth.uid() = user_id);
+
+-- Keep in step with the client's reading of the score in utils/credibility.ts.
+-- Each confirmation adds half the author's weight, each dispute divides it further; clamped to 0.1..2.
+CREATE OR REPLACE FUNCTION public.vibe_credibility(p_author_weight real, p_confirms integer, p_disputes integer)
+RETURNS real
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT GREATEST(0.1, LEAST(2.0, p_author_weight * (1 + 0.5 * p_confirms) / (1 + p_disputes)))::real;
+$$;
+
+-- How much a new report by this author counts: 1 by default, down to 0.25 when most of their
+-- reports from the last 90 days that drew at least two votes were disputed by a majority.
+-- 90 days is the longest expiryHours in VIBE_DECAY_CONFIG (utils/decay.ts), beyond which no report
+-- counts on the map; change them together.
+CREATE OR REPLACE FUNCTION public.vibe_author_weight(p_author uuid)
+RETURNS real
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH voted AS (
+        SELECT v.dispute_count > v.confirm_count AS disputed
+        FROM public.vibes v
+        LEFT JOIN public.report_owners o ON o.source_table = 'vibes' AND o.source_id = v.id
+        WHERE COALESCE(v.user_id, o.user_id) = p_author
+          AND v.created_at > now() - interval '90 days'
+          AND v.confirm_count + v.dispute_count >= 2
+    )
+    SELECT CASE
+        WHEN count(*) < 3 THEN 1.0
+        ELSE 1.0 - 0.75 * (count(*) FILTER (WHERE disputed))::real / count(*)
+    END::real
+    FROM voted;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.vibe_author_weight(uuid) FROM public, anon, authenticated;
+
+-- Rate limits, checked before the row is written. The author is taken from the session rather than
+-- the row, which is empty for anonymous reports.
+CREATE OR REPLACE FUNCTION public.check_vibe_rate_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    author uuid := COALESCE(auth.uid(), NEW.user_id);
+    recent integer;
+    recent_alarming integer;
+BEGIN
+    IF author IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT count(*),
+           count(*) FILTER (WHERE v.vibe_type IN ('suspicious', 'dangerous'))
+    INTO recent, recent_alarming
+    FROM public.vibes v
+    LEFT JOIN public.report_owners o ON o.source_table = 'vibes' AND o.source_id = v.id
+    WHERE COALESCE(v.user_id, o.user_id) = author
+      AND v.created_at > now() - interval '1 hour';
+
+    IF recent >= 10 THEN
+        RAISE EXCEPTION 'Rate limit: you can report at most 10 vibes an hour. Please try again later.';
+    END IF;
+    IF NEW.vibe_type IN ('suspicious', 'dangerous') AND recent_alarming >= 3 THEN
+        RAISE EXCEPTION 'Rate limit: you can report at most 3 Suspicious or Dangerous vibes an hour. If you are in danger, send an SOS.';
+    END IF;
+
+    NEW.confirm_count := 0;
+    NEW.dispute_count := 0;
+    NEW.author_weight := public.vibe_author_weight(author);
+    NEW.credibility := public.vibe_credibility(NEW.author_weight, 0, 0);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_vibe_rate_limit ON public.vibes;
+CREATE TRIGGER check_vibe_rate_limit
+BEFORE INSERT ON public.vibes
+FOR EACH ROW EXECUTE FUNCTION public.check_vibe_rate_limit();
+
+-- Scores change only through vote_on_vibe, never through a direct update from the app.
+CREATE OR REPLACE FUNCTION public.protect_vibe_credibility()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated')
+       AND (NEW.confirm_count, NEW.dispute_count, NEW.author_weight, NEW.credibility)
+           IS DISTINCT FROM (OLD.confirm_count, OLD.dispute_count, OLD.author_weight, OLD.credibility) THEN
+        RAISE EXCEPTION 'Vibe credibility can only change through votes';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_vibe_credibility ON public.vibes;
+CREATE TRIGGER protect_vibe_credibility
+BEFORE UPDATE ON public.vibes
+FOR EACH ROW EXECUTE FUNCTION public.protect_vibe_credibility();
+
+-- Confirms (1) or disputes (-1) a report, or withdraws the caller's vote (0). Voters must not be
+-- the author and must be within a kilometre of the report, going by the position the app sends.
+CREATE OR REPLACE FUNCTION public.vote_on_vibe(target_vibe_id bigint, p_vote integer, p_lat double precision, p_lng double precision)
+RETURNS public.vibes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target public.vibes%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF p_vote NOT IN (-1, 0, 1) THEN
+        RAISE EXCEPTION 'Invalid vote: %', p_vote;
+    END IF;
+
+    SELECT * INTO target FROM public.vibes WHERE id = target_vibe_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Vibe % not found', target_vibe_id;
+    END IF;
+    IF public.report_owner('vibes', target_vibe_id) = auth.uid() THEN
+        RAISE EXCEPTION 'You cannot vote on your own report';
+    END IF;
+    IF ST_Distance(target.location, ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326)::geography) > 1000 THEN
+        RAISE EXCEPTION 'You need to be within 1 km of a report to vote on it';
+    END IF;
+
+    IF p_vote = 0 THEN
+        DELETE FROM public.vibe_votes WHERE vibe_id = target_vibe_id AND user_id = auth.uid();
+    ELSE
+        INSERT INTO public.vibe_votes (vibe_id, user_id, vote)
+        VALUES (target_vibe_id, auth.uid(), p_vote)
+        ON CONFLICT (vibe_id, user_id) DO UPDATE SET vote = EXCLUDED.vote, created_at = now();
+    END IF;
+
+    UPDATE public.vibes v
+    SET confirm_count = c.confirms,
+        dispute_count = c.disputes,
+        credibility = public.vibe_credibility(v.author_weight, c.confirms, c.disputes)
+    FROM (
+        SELECT count(*) FILTER (WHERE vote = 1)::integer AS confirms,
+               count(*) FILTER (WHERE vote = -1)::integer AS disputes
+        FROM public.vibe_votes WHERE vibe_id = target_vibe_id
+    ) c
+    WHERE v.id = target_vibe_id
+    RETURNING v.* INTO target;
+
+    RETURN target;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.vote_on_vibe(bigint, integer, double precision, double precision) TO authenticated;
@@ -0,0 +1,36 @@
+-- supabase/vibe_details.sql
+--
+-- Optional details on a vibe report: a short note, preset tags and up to three photos. Photos live
+-- in the public `vibe-photos` storage bucket under a folder named after the uploader's user id;
+-- the app strips EXIF metadata (including GPS) before uploading. get_public_data_in_bounds and
+-- Realtime return the new columns with each vibe as they are.
+-- Safe to run multiple times.
+
+ALTER TABLE public.vibes ADD COLUMN IF NOT EXISTS note text;
+ALTER TABLE public.vibes ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.vibes ADD COLUMN IF NOT EXISTS photo_urls text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.vibes DROP CONSTRAINT IF EXISTS vibes_note_length;
+ALTER TABLE public.vibes ADD CONSTRAINT vibes_note_length CHECK (note IS NULL OR char_length(note) <= 500);
+
+-- Keep in step with VIBE_TAG_LABELS in utils/vibeDetails.ts.
+ALTER TABLE public.vibes DROP CONSTRAINT IF EXISTS vibes_tags_check;
+ALTER TABLE public.vibes ADD CONSTRAINT vibes_tags_check
+    CHECK (tags <@ ARRAY['lighting', 'crowd', 'police_presence', 'harassment', 'noise_source']::text[]);
+
+ALTER TABLE public.vibes DROP CONSTRAINT IF EXISTS vibes_photo_limit;
+ALTER TABLE public.vibes ADD CONSTRAINT vibes_photo_limit CHECK (cardinality(photo_urls) <= 3);
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('vibe-photos', 'vibe-photos', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can upload their own vibe photos" ON storage.objects;
+CREATE POLICY "Users can upload their own vibe photos" ON storage.objects
+FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'vibe-photos' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can delete their own vibe photos" ON storage.objects;
+CREATE POLICY "Users can delete their own vibe photos" ON storage.objects
+FOR DELETE TO authenticated
+USING (bucket_id = 'vibe-photos' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,13 @@
+-- supabase/vibe_location_accuracy.sql
+--
+-- Where a vibe's location came from. Reports are placed either at a fresh high-accuracy GPS fix,
+-- with the fix's accuracy radius in metres, or at a spot picked on the map, which has no accuracy.
+-- Rows created before this existed are treated as GPS reports of unknown accuracy.
+-- Safe to run multiple times.
+
+ALTER TABLE public.vibes ADD COLUMN IF NOT EXISTS accuracy_m real;
+ALTER TABLE public.vibes ADD COLUMN IF NOT EXISTS location_source text NOT NULL DEFAULT 'gps';
+
+ALTER TABLE public.vibes DROP CONSTRAINT IF EXISTS vibes_location_source_check;
+ALTER TABLE public.vibes ADD CONSTRAINT vibes_location_source_check
+    CHECK (location_source IN ('gps', 'map') AND (accuracy_m IS NULL OR accuracy_m >= 0));
@@ -0,0 +1,154 @@
+-- supabase/walk_sessions.sql
+--
+-- Server-side deadlines for "Walk with me". The app records each walk here when it starts and
+-- keeps its expected arrival and last known location up to date. The prompt, alarm and automatic
+-- SOS still run on the device, but if the device never sends the SOS (closed tab, killed app, dead
+-- battery) the escalate-walk-sessions worker sends it from the last location the server has.
+-- An SOS raised for a walk carries its walk_session_id, and a unique index allows only one per walk,
+-- so the device, the worker and a queued offline copy can never alert twice.
+-- Run after sos_tracking.sql and anonymous_posting.sql. Safe to run multiple times.
+
+CREATE TABLE IF NOT EXISTS public.walk_sessions (
+    id bigint generated by default as identity primary key,
+    user_id uuid references public.profiles(id) on delete cascade not null default auth.uid(),
+    destination_name text not null,
+    destination geography(Point, 4326) not null,
+    expected_arrival timestamp with time zone not null,
+    -- The arrival plus the on-device prompt (2 minutes) and alarm (1 minute); kept in step by a trigger.
+    escalate_at timestamp with time zone not null,
+    status text not null default 'active' check (status IN ('active', 'ended', 'escalated')),
+    is_anonymous boolean not null default false,
+    last_location geography(Point, 4326),
+    last_location_at timestamp with time zone,
+    sos_id bigint references public.sos(id) on delete set null,
+    claimed_at timestamp with time zone,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+CREATE INDEX IF NOT EXISTS walk_sessions_due_idx ON public.walk_sessions (escalate_at) WHERE status = 'active';
+
+ALTER TABLE public.sos ADD COLUMN IF NOT EXISTS walk_session_id bigint references public.walk_sessions(id) on delete set null;
+CREATE UNIQUE INDEX IF NOT EXISTS sos_walk_session_id_key ON public.sos (walk_session_id) WHERE walk_session_id IS NOT NULL;
+
+ALTER TABLE public.walk_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own walks" ON public.walk_sessions;
+CREATE POLICY "Users can view their own walks" ON public.walk_sessions
+FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can start their own walks" ON public.walk_sessions;
+CREATE POLICY "Users can start their own walks" ON public.walk_sessions
+FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own walks" ON public.walk_sessions;
+CREATE POLICY "Users can update their own walks" ON public.walk_sessions
+FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- Walkers can extend, end or move their walk, but only an SOS can mark it escalated.
+CREATE OR REPLACE FUNCTION public.protect_walk_session()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.status := 'active';
+            NEW.sos_id := NULL;
+            NEW.claimed_at := NULL;
+        ELSIF OLD.status <> 'active' THEN
+            RAISE EXCEPTION 'Walk % has already ended', OLD.id;
+        ELSIF NEW.status = 'escalated' OR NEW.sos_id IS DISTINCT FROM OLD.sos_id
+           OR NEW.claimed_at IS DISTINCT FROM OLD.claimed_at OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+            RAISE EXCEPTION 'Walks are escalated only by sending their SOS';
+        END IF;
+    END IF;
+    NEW.escalate_at := NEW.expected_arrival + interval '3 minutes';
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_walk_session ON public.walk_sessions;
+CREATE TRIGGER protect_walk_session
+BEFORE INSERT OR UPDATE ON public.walk_sessions
+FOR EACH ROW EXECUTE FUNCTION public.protect_walk_session();
+
+-- Only the walker can tie an SOS to their walk, so nobody can use up someone else's one alert.
+CREATE OR REPLACE FUNCTION public.check_sos_walk_session()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.walk_session_id IS NOT NULL AND current_user IN ('anon', 'authenticated') AND NOT EXISTS (
+        SELECT 1 FROM public.walk_sessions WHERE id = NEW.walk_session_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Walk % is not a walk of yours', NEW.walk_session_id;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_sos_walk_session ON public.sos;
+CREATE TRIGGER check_sos_walk_session
+BEFORE INSERT ON public.sos
+FOR EACH ROW EXECUTE FUNCTION public.check_sos_walk_session();
+
+-- Whoever sent the walk's SOS, the walk is escalated as soon as it exists.
+CREATE OR REPLACE FUNCTION public.escalate_walk_for_sos()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.walk_sessions SET status = 'escalated', sos_id = NEW.id
+    WHERE id = NEW.walk_session_id;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS escalate_walk_for_sos ON public.sos;
+CREATE TRIGGER escalate_walk_for_sos
+AFTER INSERT ON public.sos
+FOR EACH ROW WHEN (NEW.walk_session_id IS NOT NULL)
+EXECUTE FUNCTION public.escalate_walk_for_sos();
+
+-- Called by the escalate-walk-sessions worker. Walks are left to the device for a minute past
+-- their deadline, and a claim older than five minutes is assumed to belong to a worker that died.
+CREATE OR REPLACE FUNCTION public.claim_due_walk_sessions(batch_size integer DEFAULT 50)
+RETURNS TABLE (
+    id bigint,
+    user_id uuid,
+    destination_name text,
+    destination_lat double precision,
+    destination_lng double precision,
+    expected_arrival timestamp with time zone,
+    is_anonymous boolean,
+    last_lat double precision,
+    last_lng double precision,
+    last_location_at timestamp with time zone
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.walk_sessions w SET claimed_at = now()
+    WHERE w.id IN (
+        SELECT d.id FROM public.walk_sessions d
+        WHERE d.status = 'active'
+          AND d.escalate_at <= now() - interval '1 minute'
+          AND (d.claimed_at IS NULL OR d.claimed_at < now() - interval '5 minutes')
+        ORDER BY d.escalate_at
+        LIMIT batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING w.id, w.user_id, w.destination_name,
+              ST_Y(w.destination::geometry), ST_X(w.destination::geometry),
+              w.expected_arrival, w.is_anonymous,
+              ST_Y(w.last_location::geometry), ST_X(w.last_location::geometry),
+              w.last_location_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_walk_sessions(integer) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_walk_sessions(integer) TO service_role;
@@ -0,0 +1,13 @@
+-- supabase/watched_places.sql
+--
+-- Watched places: a venue or address saved from the global search that alerts like a small
+-- circular safe zone. They live in safe_zones with kind = 'watched', so the alert matcher, RLS and
+-- Realtime treat them exactly like zones; the app lists them in search rather than on the profile.
+-- Run before safe_zone_alerts.sql and global_search.sql. Safe to run multiple times.
+
+ALTER TABLE public.safe_zones ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'zone';
+ALTER TABLE public.safe_zones DROP CONSTRAINT IF EXISTS safe_zones_kind_check;
+ALTER TABLE public.safe_zones ADD CONSTRAINT safe_zones_kind_check CHECK (kind IN ('zone', 'watched'));
+
+-- The search that found a watched place, so it can be run again from the list.
+ALTER TABLE public.safe_zones ADD COLUMN IF NOT EXISTS query text;
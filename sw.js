@@ -47,6 +47,164 @@ self.addEventListener('notificationclick', (event) => {
   );
 });
 
+// --- Offline submission queue ---
+// Mirrors services/offlineQueue.ts: submissions saved while offline are replayed here via Background Sync.
+const OFFLINE_DB_NAME = 'hyperapp-offline';
+const OFFLINE_DB_VERSION = 1;
+const OFFLINE_SYNC_TAG = 'hyperapp-offline-queue';
+const OFFLINE_QUEUE_CHANGED_EVENT = 'hyperapp-offline-queue-changed';
+const OFFLINE_SYNC_AUTH_REQUIRED = 'hyperapp-offline-sync-auth-required';
+const SUBMISSION_TABLES = { sos: 'sos', vibe: 'vibes' };
+
+const openOfflineDb = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains('submissions')) db.createObjectStore('submissions', { keyPath: 'id', autoIncrement: true });
+    if (!db.objectStoreNames.contains('meta')) db.createObjectStore('meta');
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runInStore = (db, storeName, mode, action) => new Promise((resolve, reject) => {
+  const request = action(db.transaction(storeName, mode).objectStore(storeName));
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const supabaseHeaders = (credentials) => ({
+  apikey: credentials.anonKey,
+  Authorization: `Bearer ${credentials.accessToken}`,
+  'Content-Type': 'application/json',
+});
+
+// Same fan-out as notifyTrustedContacts in services/sosService.ts, for SOS alerts sent from here.
+const notifyTrustedContacts = async (credentials, saved, item) => {
+  const headers = supabaseHeaders(credentials);
+  // Anonymous alerts are stored without a user_id, so the sender comes from the queued row.
+  const response = await fetch(`${credentials.supabaseUrl}/rest/v1/trusted_contacts?select=*&user_id=eq.${item.row.user_id}`, { headers });
+  if (!response.ok) throw new Error(`Could not load trusted contacts (${response.status})`);
+  const contacts = await response.json();
+  // The Edge Function links to the stored location and logs each delivery itself.
+  const alert = { sosId: saved.id, details: saved.details, location: item.location, sentAt: item.capturedAt };
+  await Promise.all(contacts.map(contact => fetch(`${credentials.supabaseUrl}/functions/v1/notify-trusted-contact`, {
+    method: 'POST', headers, body: JSON.stringify({ contactId: contact.id, alert }),
+  }).catch(() => null)));
+};
+
+const broadcastToClients = async (type) => {
+  const clientList = await self.clients.matchAll({ includeUncontrolled: true });
+  clientList.forEach(client => client.postMessage({ type }));
+};
+
+const broadcastQueueChanged = () => broadcastToClients(OFFLINE_QUEUE_CHANGED_EVENT);
+
+// Throws while anything is left unsent, so the browser schedules another attempt.
+const replayOfflineQueue = async () => {
+  const db = await openOfflineDb();
+  try {
+    const credentials = await runInStore(db, 'meta', 'readonly', store => store.get('credentials'));
+    const items = await runInStore(db, 'submissions', 'readonly', store => store.getAll());
+    if (!credentials || items.length === 0) return;
+
+    items.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+    let unsent = 0;
+    for (const item of items) {
+      let response;
+      try {
+        response = await fetch(`${credentials.supabaseUrl}/rest/v1/${SUBMISSION_TABLES[item.kind]}`, {
+          method: 'POST',
+          headers: { ...supabaseHeaders(credentials), Prefer: 'return=representation' },
+          body: JSON.stringify(item.row),
+        });
+      } catch (e) {
+        throw new Error('Still offline'); // Leave everything queued for the next sync.
+      }
+      // An expired token says nothing about the submission: leave it as it is and ask an open page
+      // to refresh the session, which stores a new token and schedules another sync.
+      if (response.status === 401) {
+        await broadcastToClients(OFFLINE_SYNC_AUTH_REQUIRED);
+        throw new Error('Sync credentials have expired');
+      }
+      // Already sent, e.g. a walk's automatic SOS that the server raised first.
+      if (response.status === 409) {
+        await runInStore(db, 'submissions', 'readwrite', store => store.delete(item.id));
+        continue;
+      }
+      if (!response.ok) {
+        unsent++;
+        await runInStore(db, 'submissions', 'readwrite', store => store.put({ ...item, attempts: item.attempts + 1, lastError: `Server responded with ${response.status}` }));
+        continue;
+      }
+      const [saved] = await response.json();
+      await runInStore(db, 'submissions', 'readwrite', store => store.delete(item.id));
+      if (item.kind === 'sos' && saved) {
+        await notifyTrustedContacts(credentials, saved, item).catch(e => console.error('Could not notify trusted contacts:', e));
+      }
+    }
+    if (unsent > 0) throw new Error(`${unsent} queued submission(s) could not be sent`);
+  } finally {
+    db.close();
+    await broadcastQueueChanged();
+  }
+};
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OFFLINE_SYNC_TAG) {
+    event.waitUntil(replayOfflineQueue());
+  }
+});
+
+// --- Offline map tiles ---
+// Mirrors services/offlineTiles.ts: tiles for downloaded areas are stored here and served cache-first.
+const TILE_CACHE_NAME = 'hyperapp-tiles-v1';
+const TILE_HOSTS = [/\.basemaps\.cartocdn\.com$/, /^server\.arcgisonline\.com$/, /^tiles\.stadiamaps\.com$/];
+const PRECACHE_BATCH_SIZE = 6;
+
+const isTileRequest = (request) => {
+  if (request.method !== 'GET') return false;
+  const { hostname } = new URL(request.url);
+  return TILE_HOSTS.some(pattern => pattern.test(hostname));
+};
+
+self.addEventListener('fetch', (event) => {
+  if (!isTileRequest(event.request)) return;
+  event.respondWith(
+    caches.open(TILE_CACHE_NAME)
+      .then(cache => cache.match(event.request.url))
+      .then(cached => cached || fetch(event.request))
+  );
+});
+
+const precacheTiles = async (urls, port) => {
+  const cache = await caches.open(TILE_CACHE_NAME);
+  let done = 0;
+  let failed = 0;
+  for (let i = 0; i < urls.length; i += PRECACHE_BATCH_SIZE) {
+    await Promise.all(urls.slice(i, i + PRECACHE_BATCH_SIZE).map(async (url) => {
+      try {
+        if (!(await cache.match(url))) {
+          const response = await fetch(url, { mode: 'cors' });
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          await cache.put(url, response);
+        }
+      } catch (e) {
+        failed++;
+      }
+      done++;
+    }));
+    port.postMessage({ type: 'precache-progress', done, total: urls.length, failed });
+  }
+  port.postMessage({ type: 'precache-done', done, total: urls.length, failed });
+};
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'precache-tiles' && event.ports[0]) {
+    event.waitUntil(precacheTiles(event.data.urls, event.ports[0]));
+  }
+});
+
 // Ensures the new service worker activates immediately
 self.addEventListener('install', (event) => {
   event.waitUntil(self.skipWaiting());
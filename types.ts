@@ -4,6 +4,13 @@ export interface Location {
   lng: number;
 }
 
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
 export enum VibeType {
   Safe = 'safe',
   Calm = 'calm',
@@ -20,27 +27,93 @@ export interface Profile {
   full_name: string;
   avatar_url: string;
   bio?: string;
+  role?: UserRole;
+  banned_at?: string | null;
+  onboarded_at?: string | null; // null until the user finishes the onboarding screen.
 }
 
+// Set only by an admin in the database; see supabase/roles.sql. 'responder' is a verified responder.
+export type UserRole = 'member' | 'responder' | 'moderator' | 'organisation';
+
 export interface BaseRecord {
   id: number;
   created_at: string;
-  user_id: string;
+  user_id: string | null; // null on anonymous vibes and SOS alerts, whose author is only in report_owners.
   location: Location;
   profiles?: {
     username: string;
   };
+  hidden_at?: string | null; // Set by a moderator; hidden records reach only their author and moderators.
 }
 
+// Preset tags for the optional details on a vibe report.
+export type VibeTag = 'lighting' | 'crowd' | 'police_presence' | 'harassment' | 'noise_source';
+
 export interface Vibe extends BaseRecord {
   vibe_type: VibeType;
+  note?: string | null;
+  tags?: VibeTag[];
+  photo_urls?: string[]; // Public URLs in the vibe-photos bucket, EXIF stripped before upload.
+  accuracy_m?: number | null; // Accuracy radius of the GPS fix; null when picked on the map.
+  location_source?: VibeLocationSource;
+  is_anonymous?: boolean;
+  confirm_count?: number;
+  dispute_count?: number;
+  credibility?: number; // Multiplies the report's weight; 1 is neutral. See supabase/vibe_credibility.sql.
+}
+
+// A user's vote on someone else's vibe report: 1 confirms it, -1 disputes it.
+export type VibeVote = 1 | -1;
+
+export type VibeLocationSource = 'gps' | 'map';
+
+// open -> acknowledged (a responder is on the way) -> resolved / false_alarm
+export type SOSStatus = 'open' | 'acknowledged' | 'resolved' | 'false_alarm';
+
+export interface SOSStatusChange {
+  id: number;
+  sos_id: number;
+  status: SOSStatus;
+  changed_by: string | null;
+  created_at: string;
+}
+
+// One fix from the sender's device while an SOS is being tracked live.
+export interface SOSTrackPoint {
+  id: number;
+  sos_id: number;
+  location: Location;
+  accuracy_m: number | null;
+  recorded_at: string;
 }
 
 export interface SOS extends BaseRecord {
   details: string;
-  resolved?: boolean;
+  resolved?: boolean; // Legacy flag, kept in sync with `status` by the database.
+  status?: SOSStatus;
+  status_updated_at?: string;
+  responder_ids?: string[];
+  status_history?: SOSStatusChange[];
+  tracking_expires_at?: string | null; // Live location is shared until this time.
+  track?: SOSTrackPoint[];
+  is_anonymous?: boolean;
 }
 
+// What a trusted contact's live link shows (sos_share_links.sql). The location and track are
+// withheld once the alert is closed.
+export interface SharedSOS {
+  details: string;
+  status: SOSStatus;
+  created_at: string;
+  status_updated_at: string;
+  tracking_expires_at: string | null;
+  location: Location | null;
+  track: Pick<SOSTrackPoint, 'location' | 'recorded_at'>[];
+}
+
+// Tables whose records can be posted anonymously; matches report_owners.source_table.
+export type ReportTable = 'vibes' | 'sos';
+
 // Re-architected Event type for new features
 export interface Event extends BaseRecord {
   title: string;
@@ -48,6 +121,7 @@ export interface Event extends BaseRecord {
   event_time: string;
   end_time?: string | null; // Added for smart archiving
   attendee_count?: number;
+  is_verified?: boolean; // Created by an organisation account; set by the database.
 }
 
 // New type for AI-discovered events
@@ -80,6 +154,41 @@ export interface LiveBriefing {
   news: NewsItem[]; 
 }
 
+// --- Moderation ---
+
+export type FlagTargetType = 'vibe' | 'sos' | 'event' | 'profile';
+
+export type FlagReason = 'spam' | 'abusive' | 'fake' | 'offensive_name' | 'other';
+
+export type ModerationAction = 'hide' | 'restore' | 'ban' | 'unban' | 'dismiss';
+
+// One flagged item in the moderation queue, with its open flags grouped together.
+export interface ModerationQueueItem {
+  target_type: FlagTargetType;
+  target_id: string;
+  flag_count: number;
+  reasons: FlagReason[];
+  details: string[];
+  last_flagged_at: string;
+  preview: string | null; // null when the record has since been deleted.
+  author_id: string | null;
+  author_username: string | null;
+  author_banned: boolean;
+  is_hidden: boolean;
+}
+
+export interface ModerationLogEntry {
+  id: number;
+  moderator_id: string | null;
+  action: ModerationAction;
+  target_type: FlagTargetType;
+  target_id: string;
+  note: string | null;
+  details: Record<string, unknown>;
+  created_at: string;
+  profiles?: { username: string } | null; // The moderator.
+}
+
 export interface EventAttendee {
     id: number;
     event_id: number;
@@ -87,15 +196,80 @@ export interface EventAttendee {
     created_at: string;
 }
 
+// How a trusted contact is reached: push to another HyperAPP user, or an external email/SMS.
+export type ContactChannel = 'app' | 'email' | 'sms';
+
+export interface TrustedContact {
+  id: number;
+  user_id: string;
+  name: string;
+  channel: ContactChannel;
+  contact_user_id: string | null;
+  address: string | null;
+  created_at: string;
+}
+
 export interface SafeZone {
   id: number;
   user_id: string;
   name: string;
-  location: Location;
-  radius_km: number;
+  location: Location; // Centre of a circle zone, or the centroid of an area.
+  radius_km: number; // For areas, the distance from the centroid to the farthest vertex.
+  area?: Location[] | null; // Vertices of a polygon zone; null for circles.
+  rules?: SafeZoneRules | null; // null follows the global notification settings.
+  kind?: SafeZoneKind;
+  query?: string | null; // For watched places, the search that found them.
 }
 
+// Watched places are small circles saved from search; they alert like zones but aren't managed as zones.
+export type SafeZoneKind = 'zone' | 'watched';
+
+// Times are 'HH:MM' in the zone's timezone; a window ending before it starts wraps past midnight.
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+export interface SafeZoneRules {
+  vibeTypes: VibeType[];
+  onSOS: boolean;
+  quietHours: TimeWindow | null;
+  schedule: (TimeWindow & { days: number[] }) | null; // days: 0 = Sunday ... 6 = Saturday.
+  timezone: string;
+}
+
+// 'prompting' asks the walker to confirm they're OK; 'alarm' sounds locally before the automatic SOS.
+export type WalkSessionStatus = 'active' | 'prompting' | 'alarm' | 'escalated';
+
+export interface WalkSession {
+  id: string;
+  user_id: string;
+  destination: { name: string; location: Location; safeZoneId?: number | null };
+  started_at: string;
+  expected_arrival: string;
+  status: WalkSessionStatus;
+  status_changed_at: string;
+  last_location: Location | null;
+  last_location_at: string | null;
+  escalated_sos_id?: number | null;
+  server_id?: number | null; // The walk_sessions row, absent if the walk couldn't be recorded on the server.
+  escalation_started_at?: string | null; // Set while a tab is sending the SOS, so others hold off.
+  sos_queued?: boolean; // The SOS was queued offline rather than sent.
+}
+
+export type TileSourceId = 'dark' | 'light' | 'satellite' | 'highContrast';
+
 // New type for user-specific settings
+export type MapLayerId = 'vibes' | 'sos' | 'events' | 'safeZones';
+
+export interface MapLayerSettings {
+  visible: Record<MapLayerId, boolean>;
+  vibeTypes: VibeType[];
+  vibeMaxAgeHours: number | null; // null shows every report that hasn't decayed yet.
+  eventsFrom: string | null; // 'YYYY-MM-DD', inclusive; null leaves the range open.
+  eventsTo: string | null;
+}
+
 export interface UserSettings {
   notifications: {
     safeZoneAlerts: boolean;
@@ -104,9 +278,15 @@ export interface UserSettings {
   };
   privacy: {
     anonymousByDefault: boolean;
+    shareLiveLocationByDefault: boolean; // Pre-ticks live location sharing when sending an SOS.
   };
   map: {
     defaultView: 'heatmap' | 'markers';
+    tileSource: TileSourceId;
+    layers: MapLayerSettings;
+  };
+  search: {
+    recentQueries: string[]; // Newest first.
   };
 }
 
@@ -0,0 +1,43 @@
+// utils/alarm.ts
+
+const ALARM_BEEP_MS = 400;
+const VIBRATION_PATTERN = [500, 250, 500, 250, 500];
+
+/**
+ * Sounds a loud, repeating two-tone alarm and vibrates the device until stopped.
+ * Browsers only allow audio after a user gesture, so this can be silent on a page that was
+ * reloaded and never touched; the vibration and on-screen prompt still fire.
+ * @returns A function that stops the alarm.
+ */
+export const startLocalAlarm = (): (() => void) => {
+    let ctx: AudioContext | null = null;
+    let oscillator: OscillatorNode | null = null;
+    try {
+        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+        ctx = new AudioContextClass();
+        oscillator = ctx.createOscillator();
+        const gain = ctx.createGain();
+        oscillator.type = 'square';
+        gain.gain.value = 0.3;
+        oscillator.connect(gain).connect(ctx.destination);
+        oscillator.start();
+    } catch (e) {
+        console.warn("Alarm audio unavailable:", e);
+    }
+
+    let high = false;
+    const timer = setInterval(() => {
+        high = !high;
+        if (oscillator && ctx) oscillator.frequency.setValueAtTime(high ? 1400 : 900, ctx.currentTime);
+        if (high) navigator.vibrate?.(VIBRATION_PATTERN);
+    }, ALARM_BEEP_MS);
+
+    return () => {
+        clearInterval(timer);
+        navigator.vibrate?.(0);
+        try {
+            oscillator?.stop();
+            ctx?.close();
+        } catch (e) { /* already stopped */ }
+    };
+};
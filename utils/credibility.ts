@@ -0,0 +1,32 @@
+// utils/credibility.ts
+import type { Vibe } from '../types';
+
+export const VOTE_RADIUS_KM = 1; // Matches the distance check in vote_on_vibe.
+
+export type VibeCredibilityLevel = 'corroborated' | 'disputed' | 'unverified';
+
+export const CREDIBILITY_LABELS: Record<VibeCredibilityLevel, string> = {
+    corroborated: 'Confirmed by others',
+    disputed: 'Disputed',
+    unverified: 'Not yet confirmed',
+};
+
+type ScoredVibe = Pick<Vibe, 'credibility' | 'confirm_count' | 'dispute_count'>;
+
+/**
+ * How much a report counts relative to a neutral one, as scored by the database from votes and
+ * the author's track record. Reports from before scoring existed count fully.
+ */
+export const getVibeCredibility = (vibe: ScoredVibe): number => vibe.credibility ?? 1;
+
+/**
+ * Summarises the votes on a report: corroborated when at least two people confirmed it and more
+ * confirmed than disputed, disputed when more disputed than confirmed.
+ */
+export const getCredibilityLevel = (vibe: ScoredVibe): VibeCredibilityLevel => {
+    const confirms = vibe.confirm_count || 0;
+    const disputes = vibe.dispute_count || 0;
+    if (disputes > confirms) return 'disputed';
+    if (confirms >= 2) return 'corroborated';
+    return 'unverified';
+};
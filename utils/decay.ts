@@ -0,0 +1,61 @@
+// utils/decay.ts
+import { VibeType } from '../types';
+import type { Vibe } from '../types';
+import { getVibeCredibility } from './credibility';
+
+export interface VibeDecayConfig {
+    halfLifeHours: number; // A report's weight halves every `halfLifeHours`.
+    expiryHours: number; // After `expiryHours` the report no longer counts at all.
+}
+
+// Transient conditions (noise, suspicious activity) fade quickly; the character of a place lasts longer.
+export const VIBE_DECAY_CONFIG: Record<VibeType, VibeDecayConfig> = {
+    [VibeType.Safe]: { halfLifeHours: 48, expiryHours: 24 * 14 },
+    [VibeType.Calm]: { halfLifeHours: 12, expiryHours: 24 * 3 },
+    [VibeType.Noisy]: { halfLifeHours: 2, expiryHours: 12 },
+    [VibeType.LGBTQIAFriendly]: { halfLifeHours: 24 * 7, expiryHours: 24 * 90 },
+    [VibeType.Suspicious]: { halfLifeHours: 6, expiryHours: 48 },
+    [VibeType.Dangerous]: { halfLifeHours: 12, expiryHours: 24 * 7 },
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type DatedVibe = Pick<Vibe, 'vibe_type' | 'created_at'>;
+
+/**
+ * Computes how much a vibe report still counts, using exponential decay with a hard cut-off.
+ * @param vibe - The report to weigh.
+ * @param now - The reference time in ms, so historical views can weigh reports as of that moment.
+ * @param config - Per-type decay settings, defaulting to VIBE_DECAY_CONFIG.
+ * @returns A freshness weight between 0 (expired) and 1 (just reported).
+ */
+export const getVibeFreshness = (vibe: DatedVibe, now: number = Date.now(), config: Record<string, VibeDecayConfig> = VIBE_DECAY_CONFIG): number => {
+    const decay = config[vibe.vibe_type];
+    if (!decay) return 1;
+    const ageHours = Math.max(0, (now - new Date(vibe.created_at).getTime()) / HOUR_MS);
+    if (ageHours >= decay.expiryHours) return 0;
+    return Math.pow(0.5, ageHours / decay.halfLifeHours);
+};
+
+export const isVibeExpired = (vibe: DatedVibe, now: number = Date.now()): boolean => getVibeFreshness(vibe, now) === 0;
+
+export interface VibeSummary {
+    weights: Record<string, number>; // Summed freshness times credibility per vibe type.
+    totalWeight: number;
+    count: number; // Number of reports that have not expired.
+}
+
+/**
+ * Aggregates reports into totals per vibe type, weighted by freshness and credibility, ignoring expired ones.
+ */
+export const summarizeVibes = (vibes: (DatedVibe & Pick<Vibe, 'credibility'>)[], now: number = Date.now()): VibeSummary => {
+    const summary: VibeSummary = { weights: {}, totalWeight: 0, count: 0 };
+    for (const vibe of vibes) {
+        const weight = getVibeFreshness(vibe, now) * getVibeCredibility(vibe);
+        if (weight <= 0) continue;
+        summary.weights[vibe.vibe_type] = (summary.weights[vibe.vibe_type] || 0) + weight;
+        summary.totalWeight += weight;
+        summary.count += 1;
+    }
+    return summary;
+};
@@ -1,4 +1,5 @@
 // utils/geolocation.ts
+import type { Location } from '../types';
 
 /**
  * Calculates the distance between two geographical points using the Haversine formula.
@@ -22,3 +23,106 @@ export const haversineDistance = (coords1: { lat: number, lng: number }, coords2
     
     return R * c;
 };
+
+/**
+ * Takes a fresh high-accuracy position fix rather than reusing a cached one.
+ * @returns The position and its accuracy radius in metres; rejects when no fix could be taken.
+ */
+export const getHighAccuracyFix = (timeoutMs: number = 15000): Promise<{ location: Location; accuracy_m: number }> =>
+    new Promise((resolve, reject) => {
+        if (!('geolocation' in navigator)) return reject(new Error('Location services are not available on this device.'));
+        navigator.geolocation.getCurrentPosition(
+            position => resolve({
+                location: { lat: position.coords.latitude, lng: position.coords.longitude },
+                accuracy_m: Math.round(position.coords.accuracy),
+            }),
+            error => reject(new Error(error.message || 'Could not get a GPS fix.')),
+            { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 0 },
+        );
+    });
+
+const hexToDataView = (hex: string): DataView => {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    }
+    return new DataView(bytes.buffer);
+};
+
+// Realtime payloads carry PostGIS geography columns as hex-encoded EWKB rather than GeoJSON.
+export const parseLocationFromEWKB = (hex: string): Location | null => {
+    if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length < 42) return null;
+    const view = hexToDataView(hex);
+    const littleEndian = view.getUint8(0) === 1;
+    const geometryType = view.getUint32(1, littleEndian);
+    if ((geometryType & 0xff) !== 1) return null; // Only points are stored in location columns.
+    const offset = geometryType & 0x20000000 ? 9 : 5; // Skip the SRID when present.
+    if (view.byteLength < offset + 16) return null;
+    return { lng: view.getFloat64(offset, littleEndian), lat: view.getFloat64(offset + 8, littleEndian) };
+};
+
+const closedRingToVertices = (ring: Location[]): Location[] | null => {
+    const last = ring[ring.length - 1];
+    const vertices = ring.length > 1 && last.lat === ring[0].lat && last.lng === ring[0].lng ? ring.slice(0, -1) : ring;
+    return vertices.length >= 3 ? vertices : null;
+};
+
+/**
+ * Reads the outer ring of an EWKB polygon, without the closing vertex. Holes are ignored;
+ * zones are drawn as simple shapes.
+ */
+export const parsePolygonFromEWKB = (hex: string): Location[] | null => {
+    if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length < 18) return null;
+    const view = hexToDataView(hex);
+    const littleEndian = view.getUint8(0) === 1;
+    const geometryType = view.getUint32(1, littleEndian);
+    if ((geometryType & 0xff) !== 3) return null;
+    let offset = geometryType & 0x20000000 ? 9 : 5;
+    if (view.byteLength < offset + 8 || view.getUint32(offset, littleEndian) < 1) return null;
+    const pointCount = view.getUint32(offset + 4, littleEndian);
+    offset += 8;
+    if (view.byteLength < offset + pointCount * 16) return null;
+    const ring: Location[] = [];
+    for (let i = 0; i < pointCount; i++, offset += 16) {
+        ring.push({ lng: view.getFloat64(offset, littleEndian), lat: view.getFloat64(offset + 8, littleEndian) });
+    }
+    return closedRingToVertices(ring);
+};
+
+/**
+ * Normalises a location column from any of the shapes Supabase hands back: GeoJSON from RPCs,
+ * EWKB hex from realtime and plain table reads, or an already-parsed { lat, lng }.
+ */
+export const parseLocationFromGeoJSON = (loc: any): Location | null => {
+    if (typeof loc === 'string') {
+        return parseLocationFromEWKB(loc);
+    }
+    if (loc && loc.type === 'Point' && loc.coordinates && loc.coordinates.length === 2) {
+        return { lat: loc.coordinates[1], lng: loc.coordinates[0] };
+    }
+    if (loc && typeof loc.lat === 'number' && typeof loc.lng === 'number') {
+        return loc;
+    }
+    return null;
+};
+
+/**
+ * Normalises a polygon column (GeoJSON or EWKB hex) to the vertices of its outer ring.
+ */
+export const parsePolygonFromGeoJSON = (area: any): Location[] | null => {
+    if (typeof area === 'string') {
+        return parsePolygonFromEWKB(area);
+    }
+    if (area && area.type === 'Polygon' && Array.isArray(area.coordinates?.[0])) {
+        return closedRingToVertices(area.coordinates[0].map(([lng, lat]: [number, number]) => ({ lat, lng })));
+    }
+    return null;
+};
+
+/**
+ * Builds the EWKT for a polygon from its vertices, closing the ring.
+ */
+export const toPolygonEWKT = (vertices: Location[]): string => {
+    const ring = [...vertices, vertices[0]].map(v => `${v.lng} ${v.lat}`).join(', ');
+    return `SRID=4326;POLYGON((${ring}))`;
+};
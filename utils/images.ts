@@ -0,0 +1,28 @@
+// utils/images.ts
+
+const MAX_IMAGE_DIMENSION = 1600;
+const JPEG_QUALITY = 0.85;
+
+/**
+ * Re-encodes an image through a canvas so none of the original file's metadata survives: EXIF
+ * (including GPS coordinates and camera serials), XMP and embedded thumbnails are all dropped.
+ * The camera's orientation is applied to the pixels first, and large photos are scaled down.
+ */
+export const stripImageMetadata = async (file: File): Promise<Blob> => {
+    if (!file.type.startsWith('image/')) throw new Error(`"${file.name}" is not an image.`);
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    try {
+        const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(bitmap.width * scale);
+        canvas.height = Math.round(bitmap.height * scale);
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Could not process the image.');
+        context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        return await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not process the image.')), 'image/jpeg', JPEG_QUALITY);
+        });
+    } finally {
+        bitmap.close();
+    }
+};
@@ -0,0 +1,71 @@
+// utils/mapLayers.ts
+import { VibeType } from '../types';
+import type { MapLayerId, MapLayerSettings, Vibe, Event } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const MAP_LAYER_LABELS: Record<MapLayerId, string> = {
+    vibes: 'Vibes',
+    sos: 'SOS Alerts',
+    events: 'Events',
+    safeZones: 'Safe Zones',
+};
+
+export const VIBE_AGE_OPTIONS: { label: string; hours: number | null }[] = [
+    { label: 'Any', hours: null },
+    { label: '1h', hours: 1 },
+    { label: '6h', hours: 6 },
+    { label: '24h', hours: 24 },
+    { label: '7d', hours: 24 * 7 },
+];
+
+export const DEFAULT_MAP_LAYERS: MapLayerSettings = {
+    visible: { vibes: true, sos: true, events: true, safeZones: true },
+    vibeTypes: Object.values(VibeType),
+    vibeMaxAgeHours: null,
+    eventsFrom: null,
+    eventsTo: null,
+};
+
+/**
+ * Fills in anything missing from stored layer settings, e.g. a layer added after they were saved.
+ */
+export const mergeMapLayers = (stored: Partial<MapLayerSettings> | undefined): MapLayerSettings => ({
+    ...DEFAULT_MAP_LAYERS,
+    ...stored,
+    visible: { ...DEFAULT_MAP_LAYERS.visible, ...stored?.visible },
+});
+
+/**
+ * Whether any filter is narrowing what the map shows, so the control can flag it.
+ */
+export const hasActiveLayerFilters = (layers: MapLayerSettings): boolean =>
+    Object.values(layers.visible).some(visible => !visible)
+    || layers.vibeTypes.length < Object.values(VibeType).length
+    || layers.vibeMaxAgeHours !== null
+    || !!layers.eventsFrom || !!layers.eventsTo;
+
+/**
+ * Applies the vibe type and age filters.
+ * @param now - The reference time in ms, so the timeline measures age from its cursor.
+ */
+export const filterVibesByLayers = (vibes: Vibe[], layers: MapLayerSettings, now: number = Date.now()): Vibe[] => {
+    if (!layers.visible.vibes) return [];
+    const types = new Set(layers.vibeTypes);
+    const oldest = layers.vibeMaxAgeHours === null ? -Infinity : now - layers.vibeMaxAgeHours * HOUR_MS;
+    return vibes.filter(v => types.has(v.vibe_type) && new Date(v.created_at).getTime() >= oldest);
+};
+
+/**
+ * Keeps events that overlap the selected date range. Dates are local calendar days, both inclusive.
+ */
+export const filterEventsByLayers = (events: Event[], layers: MapLayerSettings): Event[] => {
+    if (!layers.visible.events) return [];
+    const from = layers.eventsFrom ? new Date(`${layers.eventsFrom}T00:00:00`).getTime() : -Infinity;
+    const to = layers.eventsTo ? new Date(`${layers.eventsTo}T23:59:59.999`).getTime() : Infinity;
+    return events.filter(e => {
+        const start = new Date(e.event_time).getTime();
+        const end = e.end_time ? new Date(e.end_time).getTime() : start;
+        return end >= from && start <= to;
+    });
+};
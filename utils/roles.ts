@@ -0,0 +1,23 @@
+// utils/roles.ts
+import type { UserRole } from '../types';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+    member: 'Member',
+    responder: 'Verified responder',
+    moderator: 'Moderator',
+    organisation: 'Verified organisation',
+};
+
+// Who may do what. Each entry mirrors a check in supabase/moderation.sql or supabase/roles.sql.
+export const ROLE_PERMISSIONS = {
+    respondToSOS: ['responder'],
+    moderate: ['moderator'],
+} satisfies Record<string, UserRole[]>;
+
+export type RolePermission = keyof typeof ROLE_PERMISSIONS;
+
+/**
+ * Whether a role grants a permission. The database enforces the same rules; this only decides what the app offers.
+ */
+export const roleCan = (role: UserRole, permission: RolePermission): boolean =>
+    (ROLE_PERMISSIONS[permission] as UserRole[]).includes(role);
@@ -0,0 +1,89 @@
+// utils/routeSafety.ts
+import { VibeType } from '../types';
+import type { Location, Vibe, SOS } from '../types';
+import { haversineDistance } from './geolocation';
+import { getVibeFreshness } from './decay';
+import { getVibeCredibility } from './credibility';
+import { isSOSActive } from './sos';
+
+export const ROUTE_CORRIDOR_KM = 0.1; // Reports within 100m either side of the path count against it.
+
+// Only reports that suggest a threat count; an open SOS weighs more than any single vibe.
+const VIBE_RISK_WEIGHTS: Partial<Record<VibeType, number>> = {
+    [VibeType.Suspicious]: 0.5,
+    [VibeType.Dangerous]: 1,
+};
+const OPEN_SOS_WEIGHT = 2;
+const MIN_SCORED_DISTANCE_KM = 0.5; // Stops very short routes from looking dangerous over a single report.
+
+export interface RouteSafety {
+    risk: number; // Weighted incidents per km; lower is safer.
+    safetyScore: number; // 0-100, higher is safer.
+    vibeCount: number;
+    sosCount: number;
+}
+
+const KM_PER_DEGREE_LAT = 110.574;
+
+/**
+ * Finds the shortest distance from a point to a polyline, in kilometers. Each segment is projected
+ * on a local flat approximation, then the distance to the closest point is measured with haversine.
+ */
+export const distanceToPath = (point: Location, path: Location[]): number => {
+    if (path.length === 0) return Infinity;
+    if (path.length === 1) return haversineDistance(point, path[0]);
+    const kmPerDegreeLng = 111.32 * Math.cos((point.lat * Math.PI) / 180);
+    let closest = Infinity;
+    for (let i = 0; i < path.length - 1; i++) {
+        const a = path[i];
+        const b = path[i + 1];
+        const dx = (b.lng - a.lng) * kmPerDegreeLng;
+        const dy = (b.lat - a.lat) * KM_PER_DEGREE_LAT;
+        const px = (point.lng - a.lng) * kmPerDegreeLng;
+        const py = (point.lat - a.lat) * KM_PER_DEGREE_LAT;
+        const lengthSq = dx * dx + dy * dy;
+        const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, (px * dx + py * dy) / lengthSq));
+        const nearest = { lat: a.lat + t * (b.lat - a.lat), lng: a.lng + t * (b.lng - a.lng) };
+        closest = Math.min(closest, haversineDistance(point, nearest));
+    }
+    return closest;
+};
+
+/**
+ * Scores a walking route by the density and recency of threatening reports within its corridor.
+ * @param path - The route geometry.
+ * @param distanceKm - The route length, used to turn the total into a per-km density.
+ * @param now - The reference time in ms for vibe decay.
+ */
+export const scoreRoute = (path: Location[], distanceKm: number, vibes: Vibe[], sos: SOS[], now: number = Date.now()): RouteSafety => {
+    // A cheap bounding-box check first, so only nearby records pay for the per-segment distance.
+    const margin = ROUTE_CORRIDOR_KM / KM_PER_DEGREE_LAT;
+    const lats = path.map(p => p.lat);
+    const lngs = path.map(p => p.lng);
+    const lngMargin = margin / Math.max(0.1, Math.cos((lats[0] * Math.PI) / 180));
+    const north = Math.max(...lats) + margin, south = Math.min(...lats) - margin;
+    const east = Math.max(...lngs) + lngMargin, west = Math.min(...lngs) - lngMargin;
+    const inCorridor = (location: Location) =>
+        location.lat <= north && location.lat >= south && location.lng <= east && location.lng >= west
+        && distanceToPath(location, path) <= ROUTE_CORRIDOR_KM;
+
+    let total = 0;
+    let vibeCount = 0;
+    let sosCount = 0;
+    vibes.forEach(v => {
+        const weight = VIBE_RISK_WEIGHTS[v.vibe_type];
+        if (!weight || !inCorridor(v.location)) return;
+        const freshness = getVibeFreshness(v, now);
+        if (freshness <= 0) return;
+        total += weight * freshness * getVibeCredibility(v);
+        vibeCount++;
+    });
+    sos.forEach(s => {
+        if (!isSOSActive(s) || !inCorridor(s.location)) return;
+        total += OPEN_SOS_WEIGHT;
+        sosCount++;
+    });
+
+    const risk = total / Math.max(distanceKm, MIN_SCORED_DISTANCE_KM);
+    return { risk, safetyScore: Math.round(100 / (1 + risk)), vibeCount, sosCount };
+};
@@ -0,0 +1,60 @@
+// utils/safeZoneRules.ts
+import { VibeType } from '../types';
+import type { SafeZoneRules, TimeWindow, UserSettings } from '../types';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const WEEKEND = [0, 6];
+
+export const localTimezone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/**
+ * Starting rules for a zone that gets its own rules, copied from the global notification settings
+ * so switching them on doesn't change what the zone already alerts for.
+ */
+export const defaultZoneRules = (notifications: UserSettings['notifications']): SafeZoneRules => ({
+    vibeTypes: notifications.onDangerousVibe ? [VibeType.Dangerous] : [],
+    onSOS: notifications.onSOS,
+    quietHours: null,
+    schedule: null,
+    timezone: localTimezone(),
+});
+
+const sameDays = (a: number[], b: number[]) => a.length === b.length && b.every(day => a.includes(day));
+
+const describeDays = (days: number[]): string => {
+    if (days.length === 7) return 'Every day';
+    if (sameDays(days, WEEKDAYS)) return 'Weekdays';
+    if (sameDays(days, WEEKEND)) return 'Weekends';
+    return [...days].sort().map(day => WEEKDAY_LABELS[day]).join(', ');
+};
+
+const describeWindow = (window: TimeWindow) => `${window.start}–${window.end}`;
+
+/**
+ * One-line summary of a zone's rules for lists, e.g.
+ * "Dangerous, Suspicious + SOS · Weekdays 07:00–09:00 · Quiet 22:00–07:00".
+ */
+export const describeZoneRules = (rules: SafeZoneRules | null | undefined, vibeLabels: Record<VibeType, string>): string => {
+    if (!rules) return 'Uses your notification settings';
+    const triggers = [
+        ...rules.vibeTypes.map(type => vibeLabels[type]),
+        ...(rules.onSOS ? ['SOS'] : []),
+    ];
+    const parts = [triggers.length > 0 ? triggers.join(', ') : 'No alerts'];
+    if (rules.schedule) parts.push(`${describeDays(rules.schedule.days)} ${describeWindow(rules.schedule)}`);
+    if (rules.quietHours) parts.push(`Quiet ${describeWindow(rules.quietHours)}`);
+    return parts.join(' · ');
+};
+
+/**
+ * Returns a message describing why the rules can't be saved, or null when they're valid.
+ */
+export const validateZoneRules = (rules: SafeZoneRules): string | null => {
+    if (rules.vibeTypes.length === 0 && !rules.onSOS) return 'Choose at least one vibe type or SOS to be alerted about.';
+    if (rules.schedule && rules.schedule.days.length === 0) return 'Choose at least one day for the schedule.';
+    if (rules.schedule && rules.schedule.start === rules.schedule.end) return 'The schedule must start and end at different times.';
+    if (rules.quietHours && rules.quietHours.start === rules.quietHours.end) return 'Quiet hours must start and end at different times.';
+    return null;
+};
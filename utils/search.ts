@@ -0,0 +1,135 @@
+// utils/search.ts
+import type { Location } from '../types';
+import { haversineDistance } from './geolocation';
+
+export type SearchResultType = 'event' | 'aiEvent' | 'safeZone' | 'sos' | 'user' | 'address';
+
+export interface SearchResult {
+    id: string;
+    type: SearchResultType;
+    title: string;
+    subtitle: string;
+    location: Location | null; // null when only an address is known; see `locationQuery`.
+    locationQuery?: string; // Geocoded when the result is picked, e.g. an AI event's venue.
+    isApproximate?: boolean; // `location` is only the rough area, e.g. where a person posts.
+    score: number;
+}
+
+export const SEARCH_GROUP_LABELS: Record<SearchResultType, string> = {
+    event: 'Events',
+    aiEvent: 'Discovered Events',
+    safeZone: 'Your Safe Zones',
+    sos: 'SOS Alerts',
+    user: 'People',
+    address: 'Places',
+};
+
+// Same grid as the user hits in global_search.sql.
+const APPROXIMATE_AREA_GRID_DEG = 0.1;
+
+const NEARBY_BOOST_KM = 25; // Results closer than this get a boost that fades with distance.
+const NEARBY_BOOST = 0.25;
+
+/**
+ * Snaps a location to a coarse grid, so a result can point at an area without revealing the spot.
+ */
+export const toApproximateArea = ({ lat, lng }: Location): Location => ({
+    lat: Math.round(lat / APPROXIMATE_AREA_GRID_DEG) * APPROXIMATE_AREA_GRID_DEG,
+    lng: Math.round(lng / APPROXIMATE_AREA_GRID_DEG) * APPROXIMATE_AREA_GRID_DEG,
+});
+
+/**
+ * Lowercases and strips accents so "Café" matches "cafe".
+ */
+export const normalizeText = (text: string): string =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const tokenize = (text: string): string[] => normalizeText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+/**
+ * Levenshtein distance that gives up once it exceeds `max`, returning max + 1.
+ */
+const boundedEditDistance = (a: string, b: string, max: number): number => {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        if (rowMin > max) return max + 1;
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+const scoreToken = (token: string, words: string[], text: string): number => {
+    if (words.includes(token)) return 1;
+    if (words.some(word => word.startsWith(token))) return 0.9;
+    if (text.includes(token)) return 0.7;
+    // Typos: allow one edit in words of 4+ letters and two in 7+, also against a word being typed.
+    if (token.length < 4) return 0;
+    const allowed = token.length >= 7 ? 2 : 1;
+    const distance = Math.min(...words.map(word => Math.min(
+        boundedEditDistance(token, word, allowed),
+        boundedEditDistance(token, word.slice(0, token.length), allowed),
+    )));
+    return distance <= allowed ? 0.6 - 0.15 * (distance - 1) : 0;
+};
+
+/**
+ * Scores how well `text` matches `query`, from 0 (no match) to 1. Every query word has to match
+ * a word in the text exactly, as a prefix, as a substring or with a small typo.
+ */
+export const fuzzyScore = (query: string, text: string | null | undefined): number => {
+    if (!text) return 0;
+    const queryTokens = tokenize(query);
+    if (queryTokens.length === 0) return 0;
+    const normalized = normalizeText(text);
+    const words = tokenize(text);
+    let total = 0;
+    for (const token of queryTokens) {
+        const score = scoreToken(token, words, normalized);
+        if (score === 0) return 0;
+        total += score;
+    }
+    const average = total / queryTokens.length;
+    return normalized.startsWith(normalizeText(query.trim())) ? Math.min(1, average + 0.1) : average;
+};
+
+/**
+ * Best weighted score across several fields, e.g. a title weighted 1 and a description weighted 0.6.
+ */
+export const scoreFields = (query: string, fields: [string | null | undefined, number][]): number =>
+    Math.max(0, ...fields.map(([text, weight]) => fuzzyScore(query, text) * weight));
+
+/**
+ * Merges results that refer to the same thing (keeping the best score), boosts those near the user,
+ * and groups them by type. Groups are ordered by their best result and hold at most `perGroup`.
+ */
+export const groupSearchResults = (
+    results: SearchResult[],
+    near: Location | null,
+    perGroup: number
+): { type: SearchResultType; results: SearchResult[] }[] => {
+    const byId = new Map<string, SearchResult>();
+    for (const result of results) {
+        const boost = near && result.location
+            ? 1 + NEARBY_BOOST * Math.max(0, 1 - haversineDistance(near, result.location) / NEARBY_BOOST_KM)
+            : 1;
+        const ranked = { ...result, score: result.score * boost };
+        const existing = byId.get(result.id);
+        if (!existing || ranked.score > existing.score) byId.set(result.id, { ...existing, ...ranked, location: ranked.location ?? existing?.location ?? null });
+    }
+
+    const groups = new Map<SearchResultType, SearchResult[]>();
+    for (const result of byId.values()) {
+        groups.set(result.type, [...(groups.get(result.type) || []), result]);
+    }
+    return [...groups.entries()]
+        .map(([type, group]) => ({ type, results: group.sort((a, b) => b.score - a.score).slice(0, perGroup) }))
+        .sort((a, b) => b.results[0].score - a.results[0].score);
+};
@@ -0,0 +1,44 @@
+// utils/sos.ts
+import type { SOS, SOSStatus } from '../types';
+
+export const SOS_STATUS_CONFIG: Record<SOSStatus, { label: string; badgeClass: string; color: string }> = {
+    open: { label: 'Open', badgeClass: 'bg-brand-danger/20 text-fuchsia-300', color: 'red' },
+    acknowledged: { label: 'Responders en route', badgeClass: 'bg-orange-500/20 text-orange-300', color: 'orange' },
+    resolved: { label: 'Resolved', badgeClass: 'bg-emerald-500/20 text-emerald-300', color: 'green' },
+    false_alarm: { label: 'False alarm', badgeClass: 'bg-gray-500/20 text-gray-300', color: 'grey' },
+};
+
+// Closed alerts stay visible on the live map for a while so people can see the all-clear.
+const CLOSED_SOS_VISIBLE_MS = 6 * 60 * 60 * 1000;
+
+// Live location sharing stops on its own after this long unless the alert is closed first. The
+// database caps tracking_expires_at at created_at plus the same hour (sos_tracking.sql).
+export const SOS_TRACKING_DURATION_MS = 60 * 60 * 1000;
+
+/**
+ * Returns the lifecycle status of an SOS, falling back to the legacy `resolved` flag for older rows.
+ */
+export const getSOSStatus = (sos: Pick<SOS, 'status' | 'resolved'>): SOSStatus =>
+    sos.status || (sos.resolved ? 'resolved' : 'open');
+
+export const isSOSActive = (sos: Pick<SOS, 'status' | 'resolved'>): boolean => {
+    const status = getSOSStatus(sos);
+    return status === 'open' || status === 'acknowledged';
+};
+
+/**
+ * Whether an SOS belongs on the live map: active alerts always, closed ones only briefly.
+ */
+export const isSOSVisibleOnMap = (sos: SOS, now: number = Date.now()): boolean => {
+    const status = getSOSStatus(sos);
+    if (isSOSActive(sos)) return true;
+    if (status === 'false_alarm') return false;
+    const closedAt = new Date(sos.status_updated_at || sos.created_at).getTime();
+    return now - closedAt < CLOSED_SOS_VISIBLE_MS;
+};
+
+/**
+ * Whether the sender is still sharing live location for this SOS.
+ */
+export const isSOSTracking = (sos: SOS, now: number = Date.now()): boolean =>
+    isSOSActive(sos) && !!sos.tracking_expires_at && new Date(sos.tracking_expires_at).getTime() > now;
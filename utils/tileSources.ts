@@ -0,0 +1,76 @@
+// utils/tileSources.ts
+import type { TileSourceId, MapBounds } from '../types';
+import { tilesInBounds, TileCoords } from './tiles';
+
+export interface TileSource {
+    label: string;
+    url: string; // Leaflet URL template: {s} subdomain, {z}/{x}/{y} tile, {r} retina suffix.
+    subdomains: string;
+    attribution: string;
+    maxZoom: number;
+}
+
+const OSM_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export const TILE_SOURCES: Record<TileSourceId, TileSource> = {
+    dark: {
+        label: 'Dark',
+        url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
+        subdomains: 'abcd',
+        attribution: `${OSM_ATTRIBUTION} &copy; <a href="https://carto.com/attributions">CARTO</a>`,
+        maxZoom: 20,
+    },
+    light: {
+        label: 'Light',
+        url: 'https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png',
+        subdomains: 'abcd',
+        attribution: `${OSM_ATTRIBUTION} &copy; <a href="https://carto.com/attributions">CARTO</a>`,
+        maxZoom: 20,
+    },
+    satellite: {
+        label: 'Satellite',
+        url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+        subdomains: '',
+        attribution: 'Tiles &copy; Esri &mdash; Source: Esri, Maxar, Earthstar Geographics, and the GIS User Community',
+        maxZoom: 19,
+    },
+    highContrast: {
+        label: 'High Contrast',
+        url: 'https://tiles.stadiamaps.com/tiles/stamen_toner/{z}/{x}/{y}{r}.png',
+        subdomains: '',
+        attribution: `&copy; <a href="https://stadiamaps.com/">Stadia Maps</a> &copy; <a href="https://stamen.com/">Stamen Design</a> ${OSM_ATTRIBUTION}`,
+        maxZoom: 20,
+    },
+};
+
+export const DEFAULT_TILE_SOURCE: TileSourceId = 'dark';
+
+export const getTileSource = (id: TileSourceId | undefined): TileSource => TILE_SOURCES[id || DEFAULT_TILE_SOURCE] || TILE_SOURCES[DEFAULT_TILE_SOURCE];
+
+/**
+ * Expands a source's URL template for one tile exactly as Leaflet would, so pre-cached tiles
+ * are found under the same URL the map later requests.
+ */
+export const getTileUrl = (source: TileSource, tile: TileCoords): string => {
+    const subdomain = source.subdomains ? source.subdomains[Math.abs(tile.x + tile.y) % source.subdomains.length] : '';
+    return source.url
+        .replace('{s}', subdomain)
+        .replace('{z}', String(tile.zoom))
+        .replace('{x}', String(tile.x))
+        .replace('{y}', String(tile.y))
+        .replace('{r}', window.devicePixelRatio > 1 ? '@2x' : '');
+};
+
+/**
+ * Lists the tile URLs covering an area from `minZoom` upwards, stopping before the zoom level
+ * that would take the total past `maxTiles`.
+ */
+export const getTileUrlsForArea = (source: TileSource, bounds: MapBounds, minZoom: number, maxZoom: number, maxTiles: number): string[] => {
+    const urls: string[] = [];
+    for (let zoom = minZoom; zoom <= Math.min(maxZoom, source.maxZoom); zoom++) {
+        const tiles = tilesInBounds(bounds, zoom);
+        if (urls.length + tiles.length > maxTiles) break;
+        urls.push(...tiles.map(tile => getTileUrl(source, tile)));
+    }
+    return urls;
+};
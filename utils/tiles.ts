@@ -0,0 +1,79 @@
+// utils/tiles.ts
+import type { Location, MapBounds } from '../types';
+
+export interface TileCoords {
+    x: number;
+    y: number;
+    zoom: number;
+}
+
+const clampLat = (lat: number) => Math.max(-85.0511, Math.min(85.0511, lat));
+
+/**
+ * Converts a coordinate to the Web Mercator (slippy map) tile that contains it.
+ * @param location - The coordinate object { lat: number, lng: number }.
+ * @param zoom - The tile zoom level.
+ * @returns The x/y tile indices at the given zoom.
+ */
+export const latLngToTile = (location: Location, zoom: number): TileCoords => {
+    const n = 2 ** zoom;
+    const latRad = (clampLat(location.lat) * Math.PI) / 180;
+    const x = Math.floor(((location.lng + 180) / 360) * n);
+    const y = Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n);
+    return { x: Math.min(n - 1, Math.max(0, x)), y: Math.min(n - 1, Math.max(0, y)), zoom };
+};
+
+/**
+ * Returns the geographic bounds covered by a tile.
+ */
+export const tileToBounds = ({ x, y, zoom }: TileCoords): MapBounds => {
+    const n = 2 ** zoom;
+    const toLat = (tileY: number) => (Math.atan(Math.sinh(Math.PI * (1 - (2 * tileY) / n))) * 180) / Math.PI;
+    return {
+        north: toLat(y),
+        south: toLat(y + 1),
+        west: (x / n) * 360 - 180,
+        east: ((x + 1) / n) * 360 - 180,
+    };
+};
+
+export const tileKey = ({ x, y, zoom }: TileCoords): string => `${zoom}/${x}/${y}`;
+
+/**
+ * Lists every tile at the given zoom that intersects the bounds. Bounds that cross the antimeridian,
+ * whether given with west > east or with longitudes past ±180° as Leaflet reports them, are walked
+ * eastwards from `west` and their x indices wrapped onto the world.
+ */
+export const tilesInBounds = (bounds: MapBounds, zoom: number): TileCoords[] => {
+    const n = 2 ** zoom;
+    const top = latLngToTile({ lat: bounds.north, lng: 0 }, zoom).y;
+    const bottom = latLngToTile({ lat: bounds.south, lng: 0 }, zoom).y;
+    const east = bounds.east < bounds.west ? bounds.east + 360 : bounds.east;
+    const startX = Math.floor(((bounds.west + 180) / 360) * n);
+    // An east edge on a tile boundary doesn't reach into the next tile; a view wider than the world covers each column once.
+    const endX = Math.min(Math.max(startX, Math.ceil(((east + 180) / 360) * n) - 1), startX + n - 1);
+    const tiles: TileCoords[] = [];
+    for (let rawX = startX; rawX <= endX; rawX++) {
+        const x = ((rawX % n) + n) % n;
+        for (let y = top; y <= bottom; y++) {
+            tiles.push({ x, y, zoom });
+        }
+    }
+    return tiles;
+};
+
+/**
+ * Approximates the bounding box of a circle, for radius queries against bbox APIs.
+ * @param center - The centre of the circle.
+ * @param radiusKm - The radius in kilometers.
+ */
+export const boundsAround = (center: Location, radiusKm: number): MapBounds => {
+    const latDelta = radiusKm / 111.32;
+    const lngDelta = radiusKm / (111.32 * Math.max(Math.cos((center.lat * Math.PI) / 180), 0.01));
+    return {
+        north: clampLat(center.lat + latDelta),
+        south: clampLat(center.lat - latDelta),
+        east: Math.min(180, center.lng + lngDelta),
+        west: Math.max(-180, center.lng - lngDelta),
+    };
+};
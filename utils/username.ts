@@ -0,0 +1,29 @@
+// utils/username.ts
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]+$/;
+const MIN_USERNAME_LENGTH = 3;
+const MAX_USERNAME_LENGTH = 24;
+
+/**
+ * The name a new profile starts with until its owner picks one during onboarding. Moderators
+ * resetting an offensive name use the same form. Built from the whole id so no two accounts share it.
+ */
+export const getPlaceholderUsername = (userId: string): string => `user-${userId.replace(/-/g, '')}`;
+
+// Older placeholders used only the first 8 characters of the id.
+export const isPlaceholderUsername = (username: string | null | undefined): boolean =>
+    !username || /^user-([0-9a-f]{8}|[0-9a-f]{32})$/.test(username) || username.includes('@');
+
+/**
+ * Returns a message describing why the username can't be used, or null when it's valid.
+ * Usernames appear on every map popup, so email addresses are rejected outright.
+ */
+export const validateUsername = (username: string): string | null => {
+    const name = username.trim();
+    if (name.includes('@')) return "Your username is shown publicly, so it can't be an email address.";
+    if (name.length < MIN_USERNAME_LENGTH || name.length > MAX_USERNAME_LENGTH) {
+        return `Your username must be ${MIN_USERNAME_LENGTH} to ${MAX_USERNAME_LENGTH} characters long.`;
+    }
+    if (!USERNAME_PATTERN.test(name)) return 'Use only letters, numbers, dots, dashes and underscores.';
+    return null;
+};
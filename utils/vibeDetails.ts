@@ -0,0 +1,29 @@
+// utils/vibeDetails.ts
+import type { Vibe, VibeTag } from '../types';
+
+export const MAX_VIBE_PHOTOS = 3;
+export const MAX_VIBE_NOTE_LENGTH = 500;
+
+// Keep in step with the vibes_tags_check constraint in supabase/vibe_details.sql.
+export const VIBE_TAG_LABELS: Record<VibeTag, string> = {
+    lighting: 'Poor lighting',
+    crowd: 'Crowd',
+    police_presence: 'Police presence',
+    harassment: 'Harassment',
+    noise_source: 'Noise source',
+};
+
+export const hasVibeDetails = (vibe: Vibe): boolean =>
+    !!vibe.note || !!vibe.tags?.length || !!vibe.photo_urls?.length;
+
+/**
+ * Plain-text summary of a report's tags and note, for AI prompts, e.g.
+ * `tagged Poor lighting, Crowd; note: "street lights out on the corner"`.
+ */
+export const describeVibeDetails = (vibe: Vibe): string => {
+    const parts: string[] = [];
+    if (vibe.tags?.length) parts.push(`tagged ${vibe.tags.map(tag => VIBE_TAG_LABELS[tag] || tag).join(', ')}`);
+    if (vibe.note) parts.push(`note: "${vibe.note}"`);
+    if (vibe.photo_urls?.length) parts.push(`${vibe.photo_urls.length} photo(s)`);
+    return parts.join('; ');
+};
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ROUTING_URL': JSON.stringify(env.ROUTING_URL),
+        'process.env.OAUTH_PROVIDERS': JSON.stringify(env.OAUTH_PROVIDERS)
       },
       resolve: {
         alias: {